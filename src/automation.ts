@@ -0,0 +1,121 @@
+// Controller and pitch-bend automation of melody tracks
+// Values are kept in MIDI units and hold until the next point, as controller messages do.
+// Volume, expression and pan drive the channel strip; pitch bend changes the rate of each voice; sustain holds note-offs.
+
+export type AutomationParam = 'volume' | 'pan' | 'expression' | 'sustain' | 'pitchBend';
+
+export interface AutomationPoint {
+  position: number; // beat position
+  value: number; // 0-127 for controllers, -8192-8191 for pitch bend
+}
+
+export type AutomationLanes = Map<AutomationParam, AutomationPoint[]>; // param -> points sorted by position
+
+export interface AutomationParamInfo {
+  param: AutomationParam;
+  controller: number | 'pitchBend'; // MIDI control change number
+  min: number;
+  max: number;
+  defaultValue: number;
+}
+
+const automationParams: AutomationParamInfo[] = [
+  { param: 'volume', controller: 7, min: 0, max: 127, defaultValue: 100 },
+  { param: 'pan', controller: 10, min: 0, max: 127, defaultValue: 64 },
+  { param: 'expression', controller: 11, min: 0, max: 127, defaultValue: 127 },
+  { param: 'sustain', controller: 64, min: 0, max: 127, defaultValue: 0 },
+  { param: 'pitchBend', controller: 'pitchBend', min: -8192, max: 8191, defaultValue: 0 }
+];
+
+const pitchBendRange = 2; // semitones
+
+const getAutomationParamInfo = (param: AutomationParam) => {
+  return automationParams.find(info => info.param === param)!;
+}
+
+const getAutomationParamByController = (controller: number | 'pitchBend') => {
+  return automationParams.find(info => info.controller === controller)?.param;
+}
+
+const automationValueAt = (lanes: AutomationLanes | undefined, param: AutomationParam, position: number) => {
+  const point = lanes?.get(param)?.findLast(point => point.position <= position);
+  return point ? point.value : getAutomationParamInfo(param).defaultValue;
+}
+
+// Replaces the points in [from, to) with the given points
+const setAutomationPoints = (lanes: AutomationLanes, param: AutomationParam, from: number, to: number, points: AutomationPoint[]) => {
+  const kept = (lanes.get(param) || []).filter(point => point.position < from || point.position >= to);
+  const merged = [...kept, ...points].sort((a, b) => a.position - b.position);
+  if (merged.length > 0) {
+    lanes.set(param, merged);
+  } else {
+    lanes.delete(param);
+  }
+}
+
+// Channel gain of volume and expression on the GM curve (40 log10), 1 at the default values
+const automationGain = (volume: number, expression: number) => {
+  const defaultVolume = getAutomationParamInfo('volume').defaultValue;
+  return Math.pow(volume / defaultVolume, 2) * Math.pow(expression / 127, 2);
+}
+
+const automationPan = (value: number) => {
+  return Math.min(1, Math.max(-1, (value - 64) / 63));
+}
+
+const pitchBendRatio = (value: number) => {
+  return Math.pow(2, value / 8192 * pitchBendRange / 12);
+}
+
+// Where a note released at `end` really ends: a held sustain pedal keeps it until the pedal is lifted.
+// A pedal that is never lifted does not hold the note.
+const sustainedEnd = (lanes: AutomationLanes | undefined, end: number) => {
+  const points = lanes?.get('sustain');
+  if (!points || automationValueAt(lanes, 'sustain', end) < 64) return end;
+  return points.find(point => point.position > end && point.value < 64)?.position ?? end;
+}
+
+// Gain and pan changes of a track, in beat positions
+const getChannelAutomation = (lanes: AutomationLanes | undefined) => {
+  const positions = new Set<number>([0]);
+  (['volume', 'expression', 'pan'] as AutomationParam[]).forEach(param => {
+    lanes?.get(param)?.forEach(point => positions.add(point.position));
+  });
+  return Array.from(positions).sort((a, b) => a - b).map(position => ({
+    position,
+    gain: automationGain(automationValueAt(lanes, 'volume', position), automationValueAt(lanes, 'expression', position)),
+    pan: automationPan(automationValueAt(lanes, 'pan', position))
+  }));
+}
+
+// Pitch-bend ratios from `start` to `end`: the value at the start, then every change before the end
+const getBendRatios = (lanes: AutomationLanes | undefined, start: number, end: number) => {
+  const points = lanes?.get('pitchBend');
+  if (!points) return [];
+  return [
+    { position: start, ratio: pitchBendRatio(automationValueAt(lanes, 'pitchBend', start)) },
+    ...points.filter(point => point.position > start && point.position < end)
+      .map(point => ({ position: point.position, ratio: pitchBendRatio(point.value) }))
+  ];
+}
+
+// Source time played after `time` seconds under bend ratios that change at the given seconds after note on.
+// Calls must not go back in time.
+const createBendClock = (bend: Array<{ time: number; ratio: number }>) => {
+  let index = 0;
+  let elapsed = 0; // source time at bend[index].time
+  return (time: number) => {
+    if (bend.length === 0) return time;
+    while (index + 1 < bend.length && bend[index + 1].time <= time) {
+      elapsed += (bend[index + 1].time - bend[index].time) * bend[index].ratio;
+      index++;
+    }
+    return elapsed + (time - bend[index].time) * bend[index].ratio;
+  };
+}
+
+const bendRatioAt = (bend: Array<{ time: number; ratio: number }>, time: number) => {
+  return bend.findLast(change => change.time <= time)?.ratio ?? 1;
+}
+
+export { automationParams, getAutomationParamInfo, getAutomationParamByController, automationValueAt, setAutomationPoints, automationGain, automationPan, pitchBendRatio, sustainedEnd, getChannelAutomation, getBendRatios, createBendClock, bendRatioAt };
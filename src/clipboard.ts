@@ -0,0 +1,92 @@
+// Clipboard for notes and beats
+// Copied events are written to the system clipboard as JSON text, so they can be pasted in another tab or kept in a file:
+//   {
+//     "type": "anysound-sequencer/events",
+//     "version": 1,
+//     "length": 4,
+//     "notes": [{ "id": "…", "track": 1, "pitch": 60, "start": 0, "length": 0.5, "velocity": 100 }],
+//     "beats": [{ "id": "…", "track": 0, "position": 1, "velocity": 100 }],
+//     "lanes": [{ "track": 0, "name": "Kick", "note": 36 }]
+//   }
+// `start` and `position` are beats from the start of the copied span, and `length` is how long the span lasts.
+// Notes and beats have the same fields as in the sequencer; pasted events get new ids.
+// `lanes` describes the drum lanes of the beats, so they can be pasted into the matching lanes of another project.
+
+import { minmax } from './utils';
+
+export interface ClipboardNote {
+  id: string;
+  track: number; // melody track it was copied from
+  pitch: number; // MIDI note number (0-127)
+  start: number; // beats from the start of the span
+  length: number; // in beats
+  velocity: number; // 0-127
+}
+
+export interface ClipboardBeat {
+  id: string;
+  track: number; // drum lane track number
+  position: number; // beats from the start of the span
+  velocity: number; // 0-127
+}
+
+export interface ClipboardLane {
+  track: number; // drum lane track number in the copied project
+  name: string;
+  note: number; // GM percussion key
+}
+
+export interface ClipboardData {
+  type: typeof clipboardType;
+  version: 1;
+  length: number; // in beats
+  notes: ClipboardNote[];
+  beats: ClipboardBeat[];
+  lanes?: ClipboardLane[]; // missing in hand-written data, then beats keep their track numbers
+}
+
+const clipboardType = 'anysound-sequencer/events';
+
+// Events from `start` on, moved so the span starts at 0
+const createClipboardData = (notes: ClipboardNote[], beats: ClipboardBeat[], start: number, length: number, lanes: ClipboardLane[] = []): ClipboardData => ({
+  type: clipboardType,
+  version: 1,
+  length,
+  notes: notes.map(note => ({ ...note, start: note.start - start })),
+  beats: beats.map(beat => ({ ...beat, position: beat.position - start })),
+  lanes: lanes.filter(lane => beats.some(beat => beat.track === lane.track)).map(({ track, name, note }) => ({ track, name, note }))
+});
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const clampVelocity = (velocity: number) => minmax(Math.round(velocity), 1, 127);
+
+// Clipboard text copied by this app, or null for anything else.
+// Events outside the span or without a length are left out, and only the known fields are kept.
+const parseClipboardData = (text: string): ClipboardData | null => {
+  let data: Partial<ClipboardData>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!data || data.type !== clipboardType || data.version !== 1 || !isFiniteNumber(data.length) || data.length <= 0) return null;
+  if (!Array.isArray(data.notes) || !Array.isArray(data.beats)) return null;
+  const notes: ClipboardNote[] = data.notes
+    .filter(note =>
+      isFiniteNumber(note?.track) && isFiniteNumber(note.pitch) && isFiniteNumber(note.start) && isFiniteNumber(note.length) && isFiniteNumber(note.velocity)
+      && note.start >= 0 && note.length > 0
+    )
+    .map(({ id, track, pitch, start, length, velocity }) => ({ id: String(id), track, pitch, start, length, velocity: clampVelocity(velocity) }));
+  const beats: ClipboardBeat[] = data.beats
+    .filter(beat => isFiniteNumber(beat?.track) && isFiniteNumber(beat.position) && isFiniteNumber(beat.velocity) && beat.position >= 0)
+    .map(({ id, track, position, velocity }) => ({ id: String(id), track, position, velocity: clampVelocity(velocity) }));
+  const lanes = Array.isArray(data.lanes)
+    ? data.lanes
+      .filter(lane => isFiniteNumber(lane?.track) && typeof lane.name === 'string' && isFiniteNumber(lane.note))
+      .map(({ track, name, note }) => ({ track, name, note }))
+    : undefined;
+  return { type: clipboardType, version: 1, length: data.length, notes, beats, lanes };
+}
+
+export { createClipboardData, parseClipboardData };
@@ -0,0 +1,113 @@
+// Drum lanes
+// Each lane is one beat track with its own sound. Beats refer to lanes by track number, so reordering lanes keeps them.
+// How long a hit sounds and which hits cut each other off is evaluated the same way for live playback and offline rendering.
+
+export interface DrumLane {
+  track: number; // beat track number, unchanged when lanes are reordered
+  name: string;
+  note: number; // GM percussion key for MIDI import and export
+}
+
+export type BeatPlaybackMode = 'oneshot' | 'gate' | 'decay';
+
+export interface BeatPlaybackSettings {
+  mode: BeatPlaybackMode; // play the whole sample, release after a fixed time, or fade out exponentially
+  gate: number; // seconds until release in gate mode, and for sounds that never end by themselves in one-shot mode
+  decay: number; // seconds until -60 dB in decay mode
+  chokeGroup: number; // a hit silences the other hits of the same group, 0 = none
+}
+
+const beatPlaybackModes: BeatPlaybackMode[] = ['oneshot', 'gate', 'decay'];
+
+// The former fixed 200 ms gate
+const defaultBeatPlaybackSettings: BeatPlaybackSettings = {
+  mode: 'gate',
+  gate: 0.2,
+  decay: 0.5,
+  chokeGroup: 0
+};
+
+const chokeGroupCount = 8;
+const chokeFadeTime = 0.005; // seconds
+
+// Test tone of lanes without a sample: a damped sine with this time constant rings for sineBeatLength seconds
+const sineBeatDecay = 0.2;
+const sineBeatLength = 1;
+
+// GM percussion keys handed out to new lanes: snare, bass drum, closed/open hi-hat, crash, ride, toms, clap, ...
+const percussionNotes = [38, 36, 42, 46, 49, 51, 45, 48, 39, 37, 56, 54];
+
+// Test tones of lanes without a sample. The first two are the tones of the former fixed beat tracks.
+const beatFrequencies = [200, 150, 300, 100, 400, 250, 500, 125];
+
+// The former fixed beat tracks: B1 was exported as a snare and B2 as a bass drum
+const createDefaultDrumLanes = (): DrumLane[] => [
+  { track: 0, name: 'B1', note: 38 },
+  { track: 1, name: 'B2', note: 36 }
+];
+
+const createDrumLane = (lanes: DrumLane[], note?: number): DrumLane => {
+  const track = lanes.reduce((next, lane) => Math.max(next, lane.track + 1), 0);
+  let number = lanes.length + 1;
+  while (lanes.some(lane => lane.name === `B${number}`)) number++;
+  return {
+    track,
+    name: `B${number}`,
+    note: note ?? percussionNotes.find(key => !lanes.some(lane => lane.note === key)) ?? percussionNotes[0]
+  };
+}
+
+// Lane that plays an imported percussion key; a lane is added when no lane uses the key yet
+const getDrumLaneForNote = (lanes: DrumLane[], note: number) => {
+  let lane = lanes.find(lane => lane.note === note);
+  if (!lane) {
+    lane = createDrumLane(lanes, note);
+    lanes.push(lane);
+  }
+  return lane;
+}
+
+const getBeatFrequency = (track: number) => {
+  return beatFrequencies[track % beatFrequencies.length];
+}
+
+// Release time and length in seconds of one hit. naturalLength is how long the sound lasts by itself (Infinity for loops and synths).
+const getBeatHitTiming = (settings: BeatPlaybackSettings, naturalLength: number, release: number) => {
+  switch (settings.mode) {
+    case 'oneshot':
+      return isFinite(naturalLength)
+        ? { releaseAt: Infinity, length: naturalLength }
+        : { releaseAt: settings.gate, length: settings.gate + release };
+    case 'decay':
+      return { releaseAt: Infinity, length: Math.min(naturalLength, settings.decay) };
+    default:
+      return { releaseAt: settings.gate, length: Math.min(naturalLength, settings.gate + release) };
+  }
+}
+
+const decayTimeConstant = (decay: number) => Math.max(decay, 0.001) / Math.log(1000);
+
+// Gain of the decay curve and the choke fade `time` seconds after the hit, for a hit choked at `chokeAt`
+const beatHitGainAt = (settings: BeatPlaybackSettings, time: number, chokeAt: number = Infinity) => {
+  let gain = settings.mode === 'decay' ? Math.exp(-time / decayTimeConstant(settings.decay)) : 1;
+  if (time >= chokeAt) gain *= Math.max(0, 1 - (time - chokeAt) / chokeFadeTime);
+  return gain;
+}
+
+// Schedules the decay curve on a gain param
+const scheduleBeatHit = (param: AudioParam, settings: BeatPlaybackSettings, startTime: number) => {
+  param.setValueAtTime(1, startTime);
+  if (settings.mode === 'decay') {
+    param.setTargetAtTime(0, startTime, decayTimeConstant(settings.decay));
+  }
+}
+
+// Fades out a hit scheduled with scheduleBeatHit and returns the time at which it is silent
+const scheduleBeatChoke = (param: AudioParam, settings: BeatPlaybackSettings, startTime: number, chokeTime: number) => {
+  param.cancelScheduledValues(chokeTime);
+  param.setValueAtTime(beatHitGainAt(settings, chokeTime - startTime), chokeTime);
+  param.linearRampToValueAtTime(0, chokeTime + chokeFadeTime);
+  return chokeTime + chokeFadeTime;
+}
+
+export { createDefaultDrumLanes, createDrumLane, getDrumLaneForNote, getBeatFrequency, beatPlaybackModes, defaultBeatPlaybackSettings, chokeGroupCount, chokeFadeTime, sineBeatDecay, sineBeatLength, getBeatHitTiming, beatHitGainAt, scheduleBeatHit, scheduleBeatChoke };
@@ -0,0 +1,211 @@
+// Insert effects
+// Each effect is built from the same Web Audio nodes for live playback and for offline rendering
+
+import { seededNoise } from './utils';
+
+export type EffectType = 'filter' | 'delay' | 'reverb' | 'compressor';
+
+export interface Effect {
+  id: string;
+  type: EffectType;
+  bypass: boolean;
+  params: Record<string, number>;
+  filterType?: BiquadFilterType;
+}
+
+export interface EffectSettings {
+  melody: Map<number, Effect[]>; // melody track -> insert chain
+  beat: Map<number, Effect[]>; // beat track -> insert chain
+  master: Effect[];
+}
+
+export interface EffectParamDefinition {
+  key: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  unit: string;
+}
+
+export interface EffectNode {
+  input: AudioNode;
+  output: AudioNode;
+  update: (effect: Effect) => void;
+  disconnect: () => void;
+}
+
+const filterTypes: BiquadFilterType[] = ['lowpass', 'highpass', 'bandpass', 'notch', 'peaking', 'lowshelf', 'highshelf'];
+
+const effectParams: Record<EffectType, EffectParamDefinition[]> = {
+  filter: [
+    { key: 'frequency', min: 20, max: 20000, step: 1, default: 1000, unit: 'Hz' },
+    { key: 'q', min: 0.1, max: 20, step: 0.1, default: 1, unit: '' },
+    { key: 'gain', min: -24, max: 24, step: 0.5, default: 0, unit: 'dB' }
+  ],
+  delay: [
+    { key: 'time', min: 0.01, max: 2, step: 0.01, default: 0.375, unit: 's' },
+    { key: 'feedback', min: 0, max: 0.95, step: 0.01, default: 0.4, unit: '' },
+    { key: 'mix', min: 0, max: 1, step: 0.01, default: 0.3, unit: '' }
+  ],
+  reverb: [
+    { key: 'decay', min: 0.1, max: 10, step: 0.1, default: 2, unit: 's' },
+    { key: 'preDelay', min: 0, max: 0.2, step: 0.001, default: 0.01, unit: 's' },
+    { key: 'mix', min: 0, max: 1, step: 0.01, default: 0.3, unit: '' }
+  ],
+  compressor: [
+    { key: 'threshold', min: -60, max: 0, step: 1, default: -24, unit: 'dB' },
+    { key: 'knee', min: 0, max: 40, step: 1, default: 30, unit: 'dB' },
+    { key: 'ratio', min: 1, max: 20, step: 0.5, default: 12, unit: '' },
+    { key: 'attack', min: 0, max: 1, step: 0.001, default: 0.003, unit: 's' },
+    { key: 'release', min: 0, max: 1, step: 0.01, default: 0.25, unit: 's' }
+  ]
+};
+
+const createEffect = (type: EffectType): Effect => {
+  const effect: Effect = {
+    id: `effect-${Date.now()}-${Math.random()}`,
+    type,
+    bypass: false,
+    params: Object.fromEntries(effectParams[type].map(param => [param.key, param.default]))
+  };
+  if (type === 'filter') {
+    effect.filterType = 'lowpass';
+  }
+  return effect;
+}
+
+const createEffectSettings = (): EffectSettings => ({
+  melody: new Map(),
+  beat: new Map(),
+  master: []
+});
+
+const getParam = (effect: Effect, key: string) => {
+  return effect.params[key] ?? effectParams[effect.type].find(param => param.key === key)?.default ?? 0;
+}
+
+// Exponentially decaying noise. The generator is seeded so that live playback and export use the same response.
+const createImpulseResponse = (context: BaseAudioContext, decay: number, preDelay: number) => {
+  const sampleRate = context.sampleRate;
+  const length = Math.max(1, Math.ceil((preDelay + decay) * sampleRate));
+  const buffer = context.createBuffer(2, length, sampleRate);
+  for (let ch = 0; ch < 2; ch++) {
+    const data = buffer.getChannelData(ch);
+    const noise = seededNoise(0x9e3779b9 + ch);
+    for (let i = 0; i < length; i++) {
+      const time = i / sampleRate - preDelay;
+      // decay 秒で -60dB
+      data[i] = time < 0 ? 0 : noise() * Math.pow(0.001, time / decay);
+    }
+  }
+  return buffer;
+}
+
+// Wet/dry pair around a processing path
+const createWetDry = (context: BaseAudioContext) => {
+  const input = context.createGain();
+  const output = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+  input.connect(dry);
+  dry.connect(output);
+  wet.connect(output);
+  const setMix = (mix: number) => {
+    dry.gain.value = 1 - mix;
+    wet.gain.value = mix;
+  };
+  return { input, output, dry, wet, setMix };
+}
+
+const createEffectNode = (context: BaseAudioContext, effect: Effect): EffectNode => {
+  switch (effect.type) {
+    case 'filter': {
+      const filter = context.createBiquadFilter();
+      const update = (effect: Effect) => {
+        filter.type = effect.filterType || 'lowpass';
+        filter.frequency.value = getParam(effect, 'frequency');
+        filter.Q.value = getParam(effect, 'q');
+        filter.gain.value = getParam(effect, 'gain');
+      };
+      update(effect);
+      return { input: filter, output: filter, update, disconnect: () => filter.disconnect() };
+    }
+    case 'delay': {
+      const { input, output, dry, wet, setMix } = createWetDry(context);
+      const delay = context.createDelay(2);
+      const feedback = context.createGain();
+      input.connect(delay);
+      delay.connect(feedback);
+      feedback.connect(delay);
+      delay.connect(wet);
+      const update = (effect: Effect) => {
+        delay.delayTime.value = getParam(effect, 'time');
+        feedback.gain.value = getParam(effect, 'feedback');
+        setMix(getParam(effect, 'mix'));
+      };
+      update(effect);
+      return {
+        input,
+        output,
+        update,
+        disconnect: () => [input, output, dry, wet, delay, feedback].forEach(node => node.disconnect())
+      };
+    }
+    case 'reverb': {
+      const { input, output, dry, wet, setMix } = createWetDry(context);
+      const convolver = context.createConvolver();
+      input.connect(convolver);
+      convolver.connect(wet);
+      let impulse = '';
+      const update = (effect: Effect) => {
+        const decay = getParam(effect, 'decay');
+        const preDelay = getParam(effect, 'preDelay');
+        // インパルス応答は長さが変わったときだけ作り直す
+        if (impulse !== `${decay}:${preDelay}`) {
+          impulse = `${decay}:${preDelay}`;
+          convolver.buffer = createImpulseResponse(context, decay, preDelay);
+        }
+        setMix(getParam(effect, 'mix'));
+      };
+      update(effect);
+      return {
+        input,
+        output,
+        update,
+        disconnect: () => [input, output, dry, wet, convolver].forEach(node => node.disconnect())
+      };
+    }
+    case 'compressor': {
+      const compressor = context.createDynamicsCompressor();
+      const update = (effect: Effect) => {
+        compressor.threshold.value = getParam(effect, 'threshold');
+        compressor.knee.value = getParam(effect, 'knee');
+        compressor.ratio.value = getParam(effect, 'ratio');
+        compressor.attack.value = getParam(effect, 'attack');
+        compressor.release.value = getParam(effect, 'release');
+      };
+      update(effect);
+      return { input: compressor, output: compressor, update, disconnect: () => compressor.disconnect() };
+    }
+  }
+}
+
+// Connects input -> effects -> output, skipping bypassed effects
+const connectEffectChain = (context: BaseAudioContext, effects: Effect[], input: AudioNode, output: AudioNode) => {
+  const nodes = effects.filter(effect => !effect.bypass).map(effect => createEffectNode(context, effect));
+  let previous = input;
+  nodes.forEach(node => {
+    previous.connect(node.input);
+    previous = node.output;
+  });
+  previous.connect(output);
+  return nodes;
+}
+
+// Chains with the same layout can be updated in place instead of being rebuilt
+const chainLayout = (effects: Effect[]) => {
+  return effects.filter(effect => !effect.bypass).map(effect => `${effect.id}:${effect.type}`).join(',');
+}
+
+export { filterTypes, effectParams, createEffect, createEffectSettings, connectEffectChain, chainLayout };
@@ -0,0 +1,54 @@
+// ADSR amplitude envelopes
+// The same linear segments are scheduled on an AudioParam for live playback and evaluated per sample offline
+
+export interface Envelope {
+  attack: number; // seconds
+  decay: number; // seconds
+  sustain: number; // level 0-1
+  release: number; // seconds
+}
+
+const defaultEnvelope: Envelope = {
+  attack: 0.002,
+  decay: 0.1,
+  sustain: 1,
+  release: 0.03
+};
+
+// Level (0-1) before the note is released
+const envelopeLevelAt = (envelope: Envelope, time: number) => {
+  if (time <= 0) return 0;
+  if (time < envelope.attack) return time / envelope.attack;
+  const decayTime = time - envelope.attack;
+  if (decayTime < envelope.decay) return 1 - (1 - envelope.sustain) * (decayTime / envelope.decay);
+  return envelope.sustain;
+}
+
+// Level (0-1) at `time` seconds after note on, for a note released at `releaseAt`
+const envelopeGainAt = (envelope: Envelope, time: number, releaseAt: number = Infinity) => {
+  if (time < releaseAt) return envelopeLevelAt(envelope, time);
+  if (envelope.release <= 0) return 0;
+  const level = envelopeLevelAt(envelope, releaseAt);
+  return Math.max(0, level * (1 - (time - releaseAt) / envelope.release));
+}
+
+// Schedules the envelope on a gain param and returns the time at which the note is silent
+const scheduleEnvelope = (param: AudioParam, envelope: Envelope, startTime: number, releaseAt: number = Infinity, peak: number = 1) => {
+  const points: Array<[number, number]> = [];
+  points.push([envelope.attack, 1]);
+  points.push([envelope.attack + envelope.decay, envelope.sustain]);
+  const held = points.filter(([time]) => time < releaseAt);
+  if (releaseAt !== Infinity) {
+    held.push([releaseAt, envelopeLevelAt(envelope, releaseAt)]);
+    held.push([releaseAt + envelope.release, 0]);
+  }
+
+  param.cancelScheduledValues(startTime);
+  param.setValueAtTime(0, startTime);
+  held.forEach(([time, level]) => {
+    param.linearRampToValueAtTime(level * peak, startTime + time);
+  });
+  return startTime + (releaseAt === Infinity ? Infinity : releaseAt + envelope.release);
+}
+
+export { defaultEnvelope, envelopeGainAt, scheduleEnvelope };
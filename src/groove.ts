@@ -0,0 +1,103 @@
+// Swing and groove templates
+// A groove moves events on a step grid and scales their velocity at playback time; stored positions stay on the grid.
+// Events between steps move with the nearest step, so a note keeps its offset from the grid.
+// The step grid and the groove cycle start again at every bar line, so a groove fits any time signature.
+
+import { barAt, barLength, buildMeterSegments } from './meter';
+import type { MeterSegment, TimeSignature } from './meter';
+
+export interface GrooveTemplate {
+  id: string;
+  name?: string; // only for captured grooves, built-in names come from the locale
+  step: number; // beats per step
+  timing: number[]; // offset of each step of one cycle, in steps
+  velocity: number[]; // velocity factor of each step of one cycle
+}
+
+export interface GrooveSettings {
+  template: string; // template id
+  amount: number; // 0 = straight, 1 = the template as it is
+}
+
+// MPC swing: the second step of each pair starts at this percentage of the pair
+const mpcSwingPercentages = [54, 58, 62, 66, 71];
+
+const swingTemplate = (id: string, step: number, percentage: number, offBeatVelocity: number): GrooveTemplate => ({
+  id,
+  step,
+  timing: [0, 2 * percentage / 100 - 1],
+  velocity: [1, offBeatVelocity]
+});
+
+const builtInGrooves: GrooveTemplate[] = [
+  swingTemplate('swing16', 0.25, 200 / 3, 0.85), // triplet swing
+  swingTemplate('shuffle8', 0.5, 200 / 3, 0.85),
+  ...mpcSwingPercentages.map(percentage => swingTemplate(`mpc16-${percentage}`, 0.25, percentage, 1)),
+  ...mpcSwingPercentages.map(percentage => swingTemplate(`mpc8-${percentage}`, 0.5, percentage, 1))
+];
+
+const defaultGrooveSettings: GrooveSettings = {
+  template: 'swing16',
+  amount: 0
+};
+
+// Captured grooves use 16th steps, as many as the longest bar of the captured file has
+const captureStep = 0.25;
+
+const getGrooveTemplate = (settings: GrooveSettings, userGrooves: GrooveTemplate[]) => {
+  return builtInGrooves.find(groove => groove.id === settings.template) || userGrooves.find(groove => groove.id === settings.template) || null;
+}
+
+// The step nearest to `position`, counted from the start of its bar; a step on the next bar line is that bar's first
+const nearestStep = (meter: MeterSegment[], stepLength: number, position: number) => {
+  const bar = barAt(meter, position);
+  const index = Math.round((position - bar.start) / stepLength);
+  if (index * stepLength < bar.length - 1e-9) return { line: bar.start + index * stepLength, index };
+  return { line: bar.start + bar.length, index: 0 };
+}
+
+const grooveStep = (template: GrooveTemplate, meter: MeterSegment[], position: number) => {
+  return nearestStep(meter, template.step, position).index % template.timing.length;
+}
+
+// Position in beats after applying the groove
+const groovePosition = (template: GrooveTemplate, amount: number, meter: MeterSegment[], position: number) => {
+  const offset = template.timing[grooveStep(template, meter, position)] * template.step * amount;
+  return Math.max(0, position + offset);
+}
+
+// MIDI velocity after applying the groove
+const grooveVelocity = (template: GrooveTemplate, amount: number, meter: MeterSegment[], position: number, velocity: number) => {
+  const factor = 1 + (template.velocity[grooveStep(template, meter, position)] - 1) * amount;
+  return Math.min(127, Math.max(1, Math.round(velocity * factor)));
+}
+
+// The step line of the groove nearest to `position`, where quantizing to the groove puts an event
+const grooveGridLine = (template: GrooveTemplate, meter: MeterSegment[], position: number) => {
+  return nearestStep(meter, template.step, position).line;
+}
+
+// Averages how far the events of each step are from the grid and how loud they are compared with the whole.
+// Steps are counted from the bar lines of the captured file's own time signatures.
+const captureGroove = (events: Array<{ position: number; velocity: number }>, name: string, timeSignatures: Map<number, TimeSignature>): GrooveTemplate => {
+  const meter = buildMeterSegments(timeSignatures);
+  const steps = events.map(event => ({ ...event, ...nearestStep(meter, captureStep, event.position) }));
+  const captureSteps = Math.max(1, ...meter.map(segment => Math.ceil(barLength(segment.signature) / captureStep - 1e-9)));
+  const offsets = Array.from({ length: captureSteps }, () => [] as number[]);
+  const velocities = Array.from({ length: captureSteps }, () => [] as number[]);
+  steps.forEach(({ position, velocity, line, index }) => {
+    offsets[index].push((position - line) / captureStep);
+    velocities[index].push(velocity);
+  });
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const meanVelocity = events.length > 0 ? mean(events.map(event => event.velocity)) : 0;
+  return {
+    id: `groove-${Date.now()}`,
+    name,
+    step: captureStep,
+    timing: offsets.map(values => values.length > 0 ? mean(values) : 0),
+    velocity: velocities.map(values => values.length > 0 && meanVelocity > 0 ? mean(values) / meanVelocity : 1)
+  };
+}
+
+export { mpcSwingPercentages, builtInGrooves, defaultGrooveSettings, getGrooveTemplate, groovePosition, grooveVelocity, grooveGridLine, captureGroove };
@@ -0,0 +1,57 @@
+// Undo/redo history
+// A step keeps only the parts of the project an edit changed, as they were before and after it,
+// so an edit to the notes does not copy or store the rest of the project.
+// Steps after the current one are dropped as soon as a new edit is recorded.
+
+export interface HistoryStep<S> {
+  id: string;
+  before: Partial<S>;
+  after: Partial<S>;
+}
+
+export interface History<S> {
+  steps: HistoryStep<S>[];
+  index: number; // steps applied, 0 at the oldest state
+}
+
+const historyLimit = 50;
+
+const createHistory = <S>(): History<S> => ({ steps: [], index: 0 });
+
+// Adds a step after the current one and returns the steps it pushed out, undone ones and those over the limit
+const pushHistory = <S>(history: History<S>, step: HistoryStep<S>) => {
+  const steps = [...history.steps.slice(0, history.index), step];
+  const dropped = [...history.steps.slice(history.index), ...steps.splice(0, Math.max(0, steps.length - historyLimit))];
+  history.steps = steps;
+  history.index = steps.length;
+  return dropped;
+}
+
+const canUndo = (history: History<unknown>) => history.index > 0;
+
+const canRedo = (history: History<unknown>) => history.index < history.steps.length;
+
+// The parts to put back, or null at the oldest step
+const undoHistory = <S>(history: History<S>) => {
+  if (!canUndo(history)) return null;
+  history.index--;
+  return history.steps[history.index].before;
+}
+
+const redoHistory = <S>(history: History<S>) => {
+  if (!canRedo(history)) return null;
+  history.index++;
+  return history.steps[history.index - 1].after;
+}
+
+// Comparable text of a state; Maps, Sets and files are written out so equal states give equal text
+const serializeState = (state: unknown) => {
+  return JSON.stringify(state, (_, value) => {
+    if (value instanceof Map) return { map: Array.from(value) };
+    if (value instanceof Set) return { set: Array.from(value) };
+    if (value instanceof File) return { file: value.name, size: value.size, lastModified: value.lastModified };
+    return value;
+  });
+}
+
+export { createHistory, pushHistory, canUndo, canRedo, undoHistory, redoHistory, serializeState };
@@ -0,0 +1,108 @@
+// Multi-sample instruments
+// Maps several sample files to root keys, key ranges and velocity layers
+
+import { filenameToName } from './utils';
+
+export interface SampleZone {
+  filename: string;
+  rootKey: number; // MIDI note at which the sample sounds at its original pitch
+  lowKey: number;
+  highKey: number;
+  lowVelocity: number;
+  highVelocity: number;
+}
+
+export interface Instrument {
+  id: string;
+  name: string;
+  zones: SampleZone[];
+}
+
+const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const midiToNoteName = (midiNote: number) => {
+  return noteNames[((midiNote % 12) + 12) % 12] + (Math.floor(midiNote / 12) - 1);
+}
+
+// "C4" -> 60, "Db3" -> 49, "A-1" -> 9
+const noteNameToMidi = (name: string): number | null => {
+  const match = name.match(/^([A-G])([#b]?)(-?\d)$/i);
+  if (!match) return null;
+  const base = noteNames.indexOf(match[1].toUpperCase());
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  const midiNote = (parseInt(match[3]) + 1) * 12 + base + accidental;
+  return midiNote >= 0 && midiNote <= 127 ? midiNote : null;
+}
+
+// Parses names like "piano_C4_v100.wav" or "piano_C4_v100ps-0.5.wav"
+const parseSampleFilename = (filename: string) => {
+  const name = filenameToName(filename).replace(/ps[-+]?\d+(\.\d+)?$/, '');
+  const noteMatch = name.match(/(^|[_\s-])([A-G][#b]?-?\d)(?=$|[_\s-])/i);
+  if (!noteMatch || noteMatch.index === undefined) return null;
+  const rootKey = noteNameToMidi(noteMatch[2]);
+  if (rootKey === null) return null;
+  const velocityMatch = name.match(/(?:^|[_\s-])v(?:el)?(\d{1,3})(?=$|[_\s-])/i);
+  const velocity = velocityMatch ? Math.min(127, parseInt(velocityMatch[1])) : null;
+  const prefix = name.slice(0, noteMatch.index).replace(/[_\s-]+$/, '');
+  return { prefix, rootKey, velocity };
+}
+
+// Splits the keyboard between neighbouring root keys, and the velocity range between layers of the same root
+const buildZones = (samples: Array<{ filename: string; rootKey: number; velocity: number | null }>): SampleZone[] => {
+  const roots = [...new Set(samples.map(s => s.rootKey))].sort((a, b) => a - b);
+  return samples.map(sample => {
+    const i = roots.indexOf(sample.rootKey);
+    const lowKey = i === 0 ? 0 : Math.floor((roots[i - 1] + sample.rootKey) / 2) + 1;
+    const highKey = i === roots.length - 1 ? 127 : Math.floor((sample.rootKey + roots[i + 1]) / 2);
+
+    const velocities = [...new Set(samples.filter(s => s.rootKey === sample.rootKey).map(s => s.velocity ?? 127))].sort((a, b) => a - b);
+    const j = velocities.indexOf(sample.velocity ?? 127);
+    const lowVelocity = j === 0 ? 0 : velocities[j - 1] + 1;
+    const highVelocity = j === velocities.length - 1 ? 127 : velocities[j];
+
+    return { filename: sample.filename, rootKey: sample.rootKey, lowKey, highKey, lowVelocity, highVelocity };
+  }).sort((a, b) => a.rootKey - b.rootKey || a.lowVelocity - b.lowVelocity);
+}
+
+// Groups files sharing a prefix and carrying a note name into instrument definitions
+const detectInstruments = (filenames: string[]): Array<{ name: string; zones: SampleZone[] }> => {
+  const groups = new Map<string, Array<{ filename: string; rootKey: number; velocity: number | null }>>();
+  filenames.forEach(filename => {
+    const parsed = parseSampleFilename(filename);
+    if (!parsed) return;
+    if (!groups.has(parsed.prefix)) {
+      groups.set(parsed.prefix, []);
+    }
+    groups.get(parsed.prefix)!.push({ filename, rootKey: parsed.rootKey, velocity: parsed.velocity });
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, samples]) => samples.length > 1)
+    .map(([prefix, samples]) => ({ name: prefix || midiToNoteName(samples[0].rootKey), zones: buildZones(samples) }));
+}
+
+// Zones covering the key, or the ones with the nearest root key when no range covers it
+const zonesForKey = (zones: SampleZone[], key: number): SampleZone[] => {
+  const covering = zones.filter(zone => zone.lowKey <= key && key <= zone.highKey);
+  if (covering.length > 0 || zones.length === 0) return covering;
+  const nearest = Math.min(...zones.map(zone => Math.abs(zone.rootKey - key)));
+  return zones.filter(zone => Math.abs(zone.rootKey - key) === nearest);
+}
+
+// Layer covering the velocity, or the nearest one
+const pickVelocityLayer = <T extends { lowVelocity?: number; highVelocity?: number }>(layers: T[], velocity: number): T | undefined => {
+  let picked: T | undefined;
+  let pickedDistance = Infinity;
+  layers.forEach(layer => {
+    const low = layer.lowVelocity ?? 0;
+    const high = layer.highVelocity ?? 127;
+    const distance = velocity < low ? low - velocity : velocity > high ? velocity - high : 0;
+    if (distance < pickedDistance) {
+      picked = layer;
+      pickedDistance = distance;
+    }
+  });
+  return picked;
+}
+
+export { midiToNoteName, noteNameToMidi, parseSampleFilename, buildZones, detectInstruments, zonesForKey, pickVelocityLayer };
@@ -0,0 +1,140 @@
+// Lookahead true-peak limiter for the master bus
+// The same processor runs in an AudioWorklet for live playback and on the rendered mix when exporting.
+// The gain needed for each sample (including the peaks between samples) is taken as a minimum over the lookahead
+// window and then averaged over the same window, so the gain is already low enough when a peak reaches the output.
+
+import { halfTaps, intersamplePeak, dbToGain } from './loudness';
+
+export interface LimiterSettings {
+  enabled: boolean;
+  ceiling: number; // dBTP
+}
+
+const defaultLimiterSettings: LimiterSettings = {
+  enabled: true,
+  ceiling: -1
+};
+
+const lookaheadTime = 0.005; // seconds
+const releaseTime = 0.1; // seconds
+
+class TruePeakLimiter {
+  readonly latency: number; // samples
+  private ceiling = dbToGain(defaultLimiterSettings.ceiling);
+  private window: number;
+  private releaseCoefficient: number;
+  private history: Float32Array[]; // input ring buffers
+  private readers: Array<(index: number) => number>;
+  private historyMask: number;
+  private position = 0; // samples written
+  private previousSegmentPeak = 0;
+  private required: Float32Array; // gain needed per sample, ring of `window`
+  private minimumQueue: Int32Array; // sample indices with increasing required gain
+  private queueStart = 0;
+  private queueEnd = 0;
+  private minimums: Float32Array; // sliding minimums, ring of `window`
+  private minimumSum = 0;
+  private gain = 1;
+
+  constructor(sampleRate: number, channelCount: number) {
+    this.window = Math.max(1, Math.round(lookaheadTime * sampleRate));
+    this.latency = halfTaps + this.window - 1;
+    this.releaseCoefficient = 1 - Math.exp(-1 / (releaseTime * sampleRate));
+    let size = 1;
+    while (size < this.latency + halfTaps + 2) size *= 2;
+    this.historyMask = size - 1;
+    this.history = Array.from({ length: channelCount }, () => new Float32Array(size));
+    this.readers = this.history.map(ring => (index: number) => index >= 0 && index > this.position - size ? ring[index & this.historyMask] : 0);
+    this.required = new Float32Array(this.window).fill(1);
+    this.minimumQueue = new Int32Array(this.window + 1);
+    this.minimums = new Float32Array(this.window).fill(1);
+    this.minimumSum = this.window;
+  }
+
+  setCeiling(ceiling: number) {
+    this.ceiling = dbToGain(ceiling);
+  }
+
+  // Limits `length` frames. Outputs lag the inputs by `latency` samples and may be the same arrays as the inputs.
+  process(inputs: Float32Array[], outputs: Float32Array[], length: number) {
+    const mask = this.historyMask;
+    const channelCount = this.history.length;
+    for (let i = 0; i < length; i++) {
+      const m = this.position;
+      for (let ch = 0; ch < channelCount; ch++) {
+        this.history[ch][m & mask] = (inputs[ch] ?? inputs[0])?.[i] ?? 0;
+      }
+
+      // halfTaps 先まで読めた位置 n のピーク（前後のサンプル間を含む）
+      const n = m - halfTaps;
+      let segmentPeak = 0;
+      let peak = 0;
+      for (let ch = 0; ch < channelCount; ch++) {
+        const read = this.readers[ch];
+        segmentPeak = Math.max(segmentPeak, intersamplePeak(read, n));
+        peak = Math.max(peak, Math.abs(read(n)));
+      }
+      peak = Math.max(peak, segmentPeak, this.previousSegmentPeak);
+      this.previousSegmentPeak = segmentPeak;
+      const required = peak > this.ceiling ? this.ceiling / peak : 1;
+
+      // 先読み区間の最小値（単調キュー）
+      const slot = n - Math.floor(n / this.window) * this.window;
+      this.required[slot] = required;
+      const queueSize = this.window + 1;
+      while (this.queueEnd !== this.queueStart) {
+        const last = this.minimumQueue[(this.queueEnd - 1 + queueSize) % queueSize];
+        if (this.required[last - Math.floor(last / this.window) * this.window] < required) break;
+        this.queueEnd = (this.queueEnd - 1 + queueSize) % queueSize;
+      }
+      this.minimumQueue[this.queueEnd] = n;
+      this.queueEnd = (this.queueEnd + 1) % queueSize;
+      while (this.minimumQueue[this.queueStart] <= n - this.window) {
+        this.queueStart = (this.queueStart + 1) % queueSize;
+      }
+      const first = this.minimumQueue[this.queueStart];
+      const minimum = this.required[first - Math.floor(first / this.window) * this.window];
+
+      // 同じ長さの移動平均で滑らかにし、戻りはリリースで遅らせる
+      this.minimumSum += minimum - this.minimums[slot];
+      this.minimums[slot] = minimum;
+      const target = Math.min(1, this.minimumSum / this.window);
+      this.gain = target < this.gain ? target : this.gain + (target - this.gain) * this.releaseCoefficient;
+
+      const delayed = (n - this.window + 1) & mask;
+      for (let ch = 0; ch < outputs.length; ch++) {
+        outputs[ch][i] = (this.history[ch] ?? this.history[0])[delayed] * this.gain;
+      }
+      this.position++;
+    }
+  }
+}
+
+// Limits whole channels and removes the latency, for the rendered mix
+const limitChannels = (channels: Float32Array[], sampleRate: number, ceiling: number, onProgress?: (processed: number, total: number) => void) => {
+  const limiter = new TruePeakLimiter(sampleRate, channels.length);
+  limiter.setCeiling(ceiling);
+  const length = channels[0]?.length || 0;
+  const outputs = channels.map(() => new Float32Array(length));
+  const blockSize = 4096;
+  const inputBlock = channels.map(() => new Float32Array(blockSize));
+  const outputBlock = channels.map(() => new Float32Array(blockSize));
+  for (let start = 0; start < length + limiter.latency; start += blockSize) {
+    const size = Math.min(blockSize, length + limiter.latency - start);
+    channels.forEach((data, ch) => {
+      inputBlock[ch].fill(0);
+      inputBlock[ch].set(data.subarray(start, Math.min(length, start + size)));
+    });
+    limiter.process(inputBlock, outputBlock, size);
+    outputs.forEach((output, ch) => {
+      for (let i = 0; i < size; i++) {
+        const index = start + i - limiter.latency;
+        if (index >= 0 && index < length) output[index] = outputBlock[ch][i];
+      }
+    });
+    onProgress?.(Math.min(length, start + size), length);
+  }
+  return outputs;
+}
+
+export { defaultLimiterSettings, TruePeakLimiter, limitChannels };
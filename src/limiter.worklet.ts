@@ -0,0 +1,40 @@
+// AudioWorklet processor running the master limiter during playback
+import { TruePeakLimiter, defaultLimiterSettings } from './limiter';
+import type { LimiterSettings } from './limiter';
+
+// AudioWorkletGlobalScope is not part of the DOM typings
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: new () => AudioWorkletProcessorBase): void;
+declare class AudioWorkletProcessorBase {
+  readonly port: MessagePort;
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean;
+}
+const AudioWorkletProcessor = (globalThis as unknown as { AudioWorkletProcessor: typeof AudioWorkletProcessorBase }).AudioWorkletProcessor;
+
+class TruePeakLimiterProcessor extends AudioWorkletProcessor {
+  private limiter = new TruePeakLimiter(sampleRate, 2);
+  private enabled = defaultLimiterSettings.enabled;
+
+  constructor() {
+    super();
+    this.port.onmessage = (e: MessageEvent<LimiterSettings>) => {
+      this.enabled = e.data.enabled;
+      this.limiter.setCeiling(e.data.ceiling);
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const input = inputs[0] || [];
+    const output = outputs[0] || [];
+    const length = output[0]?.length || 0;
+    // 無効のときは先読みの遅延も入れずにそのまま通す
+    if (!this.enabled) {
+      output.forEach((data, ch) => data.set(input[ch] ?? input[0] ?? new Float32Array(length)));
+      return true;
+    }
+    this.limiter.process(input, output, length);
+    return true;
+  }
+}
+
+registerProcessor('true-peak-limiter', TruePeakLimiterProcessor);
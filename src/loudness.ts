@@ -0,0 +1,132 @@
+// Loudness and peak measurement after ITU-R BS.1770
+// Integrated loudness uses K-weighting with 400 ms gating blocks, true peak uses 4x oversampling
+
+export interface NormalizeSettings {
+  enabled: boolean;
+  target: number; // LUFS
+}
+
+const defaultNormalizeSettings: NormalizeSettings = {
+  enabled: false,
+  target: -14
+};
+
+const oversampling = 4;
+const halfTaps = 6; // the interpolator reads 6 samples on each side
+
+// Windowed sinc kernels for the points between two samples, at 1/4, 2/4 and 3/4
+const interpolationKernels = Array.from({ length: oversampling - 1 }, (_, p) => {
+  const fraction = (p + 1) / oversampling;
+  const kernel = new Float32Array(halfTaps * 2);
+  for (let k = 0; k < kernel.length; k++) {
+    const x = k - (halfTaps - 1) - fraction; // distance from the point to x[n - halfTaps + 1 + k]
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 + 0.5 * Math.cos(Math.PI * x / halfTaps);
+    kernel[k] = sinc * window;
+  }
+  return kernel;
+});
+
+// Largest magnitude between data[n] and data[n + 1], without the samples themselves.
+// `read` returns the sample at an index, so callers can pass ring buffers or pad the edges.
+const intersamplePeak = (read: (index: number) => number, n: number) => {
+  let peak = 0;
+  for (const kernel of interpolationKernels) {
+    let value = 0;
+    for (let k = 0; k < kernel.length; k++) value += read(n - halfTaps + 1 + k) * kernel[k];
+    peak = Math.max(peak, Math.abs(value));
+  }
+  return peak;
+}
+
+const samplePeak = (channels: Float32Array[]) => {
+  let peak = 0;
+  channels.forEach(data => {
+    for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  });
+  return peak;
+}
+
+const truePeak = (channels: Float32Array[]) => {
+  let peak = samplePeak(channels);
+  channels.forEach(data => {
+    const read = (index: number) => index >= 0 && index < data.length ? data[index] : 0;
+    for (let n = -1; n < data.length; n++) peak = Math.max(peak, intersamplePeak(read, n));
+  });
+  return peak;
+}
+
+// Biquad coefficients of the K-weighting filter stages for any sample rate
+const kWeightingStages = (sampleRate: number) => {
+  // Stage 1: high shelf (+4 dB above ~1.5 kHz)
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b: [(Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0],
+    a: [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]
+  };
+  // Stage 2: RLB high pass (~38 Hz)
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b: [1, -2, 1],
+    a: [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]
+  };
+  return [shelf, highPass];
+}
+
+const kWeight = (data: Float32Array, sampleRate: number) => {
+  const output = new Float32Array(data);
+  kWeightingStages(sampleRate).forEach(({ b, a }) => {
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < output.length; i++) {
+      const x = output[i];
+      const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      output[i] = y;
+    }
+  });
+  return output;
+}
+
+const blockLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+
+// Integrated loudness in LUFS, -Infinity when everything is below the absolute gate.
+// Left and right (and mono) channels have weight 1; surround channels are not used here.
+const integratedLoudness = (channels: Float32Array[], sampleRate: number) => {
+  const step = Math.round(sampleRate * 0.1); // 400 ms blocks overlapping by 75%
+  const segments = Math.floor((channels[0]?.length || 0) / step);
+  const segmentPower = new Float64Array(segments);
+  channels.forEach(data => {
+    const weighted = kWeight(data, sampleRate);
+    for (let s = 0; s < segments; s++) {
+      let sum = 0;
+      for (let i = s * step; i < (s + 1) * step; i++) sum += weighted[i] * weighted[i];
+      segmentPower[s] += sum;
+    }
+  });
+
+  const blocks: number[] = [];
+  for (let s = 0; s + 4 <= segments; s++) {
+    blocks.push((segmentPower[s] + segmentPower[s + 1] + segmentPower[s + 2] + segmentPower[s + 3]) / (step * 4));
+  }
+  const gated = (threshold: number) => blocks.filter(power => blockLoudness(power) > threshold);
+  const mean = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length;
+
+  const absolute = gated(-70);
+  if (absolute.length === 0) return -Infinity;
+  const relative = gated(blockLoudness(mean(absolute)) - 10);
+  return blockLoudness(mean(relative));
+}
+
+const gainToDb = (gain: number) => 20 * Math.log10(gain);
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export { defaultNormalizeSettings, halfTaps, intersamplePeak, samplePeak, truePeak, integratedLoudness, gainToDb, dbToGain };
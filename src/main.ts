@@ -2,7 +2,47 @@ import localForage from 'localforage';
 import i18next from 'i18next';
 import LanguageDetector from 'i18next-browser-languagedetector';
 import { MidiParser, MidiWriter, MidiConverter } from './midi';
-import { filenameToName, dispatchPointerPressEvent, resetAnimation, multipleFloor, minmax } from './utils';
+import { buildTempoSegments, beatToSeconds, secondsToBeat, bpmAt, flattenTempoSegments } from './tempo';
+import type { TempoSegment } from './tempo';
+import { timeSignatureDenominators, defaultTimeSignature, countLength, isSameTimeSignature, buildMeterSegments, barAt, nearestBarLine, barsBetween, barToBeat } from './meter';
+import type { TimeSignature } from './meter';
+import { detectInstruments, zonesForKey, pickVelocityLayer, midiToNoteName } from './instrument';
+import type { Instrument, SampleZone } from './instrument';
+import { defaultEnvelope, envelopeGainAt, scheduleEnvelope } from './envelope';
+import type { Envelope } from './envelope';
+import { defaultChannel, createMixerSettings, getChannelSettings, channelGain, panFrame } from './mixer';
+import type { ChannelKind, ChannelSettings, MixerSettings } from './mixer';
+import { filterTypes, effectParams, createEffect, createEffectSettings, connectEffectChain, chainLayout } from './effects';
+import type { Effect, EffectNode, EffectSettings, EffectType } from './effects';
+import { synthWaveforms, synthFilterTypes, defaultSynthSettings, synthLevels, getSynthWaveform, isBuiltInSound, createNoiseData, createNoiseBuffer, createSynthVoice, createSynthRenderer } from './synth';
+import type { SynthSettings, SynthWaveform } from './synth';
+import { resolveRegion, isLooping, regionPosition, applyRegion } from './sample';
+import type { SampleRegion } from './sample';
+import { detectPitch, pitchShiftToC4, formatPitch } from './pitch';
+import { defaultStretchSettings, timeStretch, quantizeStretchLength } from './stretch';
+import type { StretchSettings } from './stretch';
+import { createDefaultDrumLanes, createDrumLane, getDrumLaneForNote, getBeatFrequency, beatPlaybackModes, defaultBeatPlaybackSettings, chokeFadeTime, sineBeatDecay, sineBeatLength, getBeatHitTiming, beatHitGainAt, scheduleBeatHit, scheduleBeatChoke } from './drums';
+import type { BeatPlaybackSettings, DrumLane } from './drums';
+import { defaultLimiterSettings } from './limiter';
+import type { LimiterSettings } from './limiter';
+import { mpcSwingPercentages, builtInGrooves, defaultGrooveSettings, getGrooveTemplate, groovePosition, grooveVelocity, grooveGridLine, captureGroove } from './groove';
+import type { GrooveSettings, GrooveTemplate } from './groove';
+import { automationParams, getAutomationParamInfo, getAutomationParamByController, setAutomationPoints, sustainedEnd, getChannelAutomation, getBendRatios, createBendClock, bendRatioAt } from './automation';
+import type { AutomationLanes, AutomationParam, AutomationPoint } from './automation';
+import { getPattern, flattenArrangement, arrangementEnd } from './pattern';
+import type { Pattern, Clip } from './pattern';
+import { createHistory, pushHistory, canUndo, canRedo, undoHistory, redoHistory, serializeState } from './history';
+import type { History, HistoryStep } from './history';
+import { createClipboardData, parseClipboardData } from './clipboard';
+import type { ClipboardData, ClipboardLane } from './clipboard';
+import { transposeNotes, invertNotes, reverseNotes, stretchNotes, legatoNotes, fixNoteLength, quantizeNotes, quantizeBeats, humanizeNotes, humanizeBeats } from './transform';
+import type { QuantizeOptions, HumanizeOptions } from './transform';
+import { pitchClassNames, defaultScaleSettings, getScaleSteps, isInScale, snapToScale } from './scale';
+import type { ScaleName, ScaleSettings } from './scale';
+import { defaultNormalizeSettings } from './loudness';
+import type { NormalizeSettings } from './loudness';
+import limiterWorkletUrl from './limiter.worklet.ts?worker&url';
+import { filenameToName, dispatchPointerPressEvent, resetAnimation, multipleFloor, minmax, lowerBound } from './utils';
 
 import en from './locales/en.json';
 import ja from './locales/ja.json';
@@ -106,12 +146,17 @@ interface Beat {
 interface AudioFile {
   file: File;
   pitchShift: number; // for melody tracks
+  start?: number; // seconds, trimmed start
+  end?: number; // seconds, trimmed end
+  loop?: boolean;
+  loopStart?: number; // seconds
+  loopEnd?: number; // seconds
+  detectedPitch?: { midi: number; confidence: number } | null; // null when no pitch was found
 }
 
 interface Filenames {
   melody: Map<number, string>; // track -> filename
-  beat1: string | null;
-  beat2: string | null;
+  beat: Map<number, string>; // beat track -> filename
 }
 
 interface InstrumentCodes {
@@ -120,50 +165,176 @@ interface InstrumentCodes {
 
 interface AudioSample {
   buffer: AudioBuffer | null;
-  type: 'sine' | 'file' | 'silent';
+  type: 'sine' | 'file' | 'silent' | 'synth';
+  waveform?: SynthWaveform;
+  filename?: string; // source file, for its pitch shift
+  rootKey?: number; // MIDI note at which the buffer plays at its original pitch (C4 when omitted)
+  lowVelocity?: number;
+  highVelocity?: number;
 }
 
-type SoundTrackKey = 'melody' | 'beat1' | 'beat2';
+type SoundTrackKey = 'melody' | 'beat';
 
 interface SoundAssignmentTarget {
   track: SoundTrackKey;
   melodyTrack?: number;
+  beatTrack?: number;
 }
 
+// Project state kept by the undo history; the files are shared with the live state, not copied
+interface ProjectSnapshot {
+  title: string;
+  notes: Note[];
+  beats: Beat[];
+  patterns: Pattern<Note, Beat>[];
+  clips: Clip[];
+  bpm: number;
+  bpms: Map<number, number>;
+  tempoRamps: Set<number>;
+  timeSignatures: Map<number, TimeSignature>;
+  loopRegion: { start: number; end: number } | null;
+  playbackSpeed: number;
+  ignoreNoteValue: boolean;
+  quantization: number;
+  metronome: boolean;
+  countIn: number;
+  scale: ScaleSettings;
+  groove: GrooveSettings;
+  grooves: GrooveTemplate[];
+  automation: Map<number, AutomationLanes>;
+  files: AudioFile[];
+  filenames: Filenames;
+  instrumentCodes: InstrumentCodes;
+  instruments: Instrument[];
+  envelopes: { melody: Map<number, Envelope>; beat: Map<number, Envelope> };
+  synths: { melody: Map<number, SynthSettings>; beat: Map<number, SynthSettings> };
+  stretch: Map<number, StretchSettings>;
+  beatPlayback: Map<number, BeatPlaybackSettings>;
+  mixer: MixerSettings;
+  effects: EffectSettings;
+  limiter: LimiterSettings;
+  normalize: NormalizeSettings;
+  drumLanes: DrumLane[];
+}
+
+// Events as they are played, kept until the next edit so each scheduler tick only looks up its window
+interface PlaybackEvents {
+  notes: Array<{ stored: number; note: Note }>; // grooved and sustained, sorted by stored start
+  beats: Array<{ stored: number; beat: Beat }>; // grooved, sorted by stored position
+  changes: Array<{ track: number; position: number; gain: number; pan: number }>; // channel automation, sorted by position
+  shift: number; // the furthest the groove moves an event
+  end: number; // end of the track
+}
+
+// Each history step is saved under its own key, so recording an edit writes only that step
+interface StoredHistory {
+  ids: string[];
+  index: number;
+}
+
+// Saved history steps refer to sound files by name. A file is taken from the saved project,
+// or from its own `historyFile/<name>` key once only the history still has it.
+type StoredAudioFile = Omit<AudioFile, 'file'> & { file: string };
+type StoredParts = Omit<Partial<ProjectSnapshot>, 'files'> & { files?: Array<StoredAudioFile | AudioFile> };
+
 // Audio Manager Class
 class AudioManager {
   private context: AudioContext;
   private masterGain: GainNode;
-  private melodySamples: Map<string, Map<number, AudioSample>> = new Map();
+  private masterOutput: GainNode; // after the master effects, feeds the limiter
+  private clickGain: GainNode; // metronome, bypasses the mix so it never reaches the master chain
+  private limiterNode: AudioWorkletNode | null = null;
+  private limiter: LimiterSettings = { ...defaultLimiterSettings };
+  private melodySamples: Map<string, Map<number, AudioSample[]>> = new Map(); // filename or instrument id -> note -> velocity layers
   private melodyPitchShifts: Map<string, number> = new Map();
-  private beatSamples: Map<number, AudioSample> = new Map();
-  private previewSources: Map<string, { source: AudioBufferSourceNode; gain: GainNode }> = new Map();
+  private sampleRegions: Map<string, Partial<SampleRegion>> = new Map(); // filename -> trim and loop points
+  private fileBuffers: Map<string, Promise<AudioBuffer>> = new Map();
+  private melodyEnvelopes: Map<number, Envelope> = new Map(); // melody track -> envelope
+  private beatEnvelopes: Map<number, Envelope> = new Map(); // beat track -> envelope
+  private beatSamples: Map<number, AudioSample> = new Map(); // beat track -> sample, lanes without one play a sine
+  private previewSources: Map<string, { stop: (time: number) => void; gain: GainNode }> = new Map();
+  private scheduledSources: Set<{ source: AudioScheduledSourceNode; startTime: number }> = new Set();
+  private melodySynths: Map<number, SynthSettings> = new Map(); // melody track -> synth settings
+  private beatSynths: Map<number, SynthSettings> = new Map(); // beat track -> synth settings
+  private melodyStretch: Map<number, StretchSettings> = new Map(); // melody track -> time-stretch mode
+  private beatPlayback: Map<number, BeatPlaybackSettings> = new Map(); // beat track -> hit length and choke group
+  private chokeGroups: Map<number, Array<{ hitGain: GainNode; stop: (time: number) => void; settings: BeatPlaybackSettings; startTime: number; endTime: number }>> = new Map(); // choke group -> hits that may still sound
+  private stretchedBuffers: Map<string, AudioBuffer> = new Map();
+  private stretchJobs: Map<string, { promise: Promise<AudioBuffer | null>; resolve: (data: { channels?: ArrayBuffer[]; message?: string }) => void }> = new Map(); // stretched by the worker
+  private stretchWorker: Worker | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
+  private mixer: MixerSettings = createMixerSettings();
+  private channels: Map<string, { kind: ChannelKind; track: number; input: GainNode; volume: GainNode; panner: StereoPannerNode; automationGain: GainNode; automationPanner: StereoPannerNode; effects: EffectNode[]; layout: string }> = new Map();
+  private effects: EffectSettings = createEffectSettings();
+  private masterEffects: { nodes: EffectNode[]; layout: string } = { nodes: [], layout: '' };
 
   constructor() {
     this.context = new AudioContext();
+    this.masterOutput = this.context.createGain();
+    this.masterOutput.connect(this.context.destination);
     this.masterGain = this.context.createGain();
-    this.masterGain.connect(this.context.destination);
+    this.masterGain.connect(this.masterOutput);
     this.masterGain.gain.value = 0.7;
+    this.clickGain = this.context.createGain();
+    this.clickGain.connect(this.context.destination);
+    this.clickGain.gain.value = 0.5;
+    this.loadLimiter();
 
     // Initialize with sine waves
     this.initializeSineWaves();
   }
 
+  // ワークレットが読み込めるまではリミッターなしで鳴らす
+  private async loadLimiter() {
+    try {
+      await this.context.audioWorklet.addModule(limiterWorkletUrl);
+    } catch (error) {
+      console.error('Error loading limiter:', error);
+      return;
+    }
+    const node = new AudioWorkletNode(this.context, 'true-peak-limiter', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+      channelCount: 2,
+      channelCountMode: 'explicit'
+    });
+    node.port.postMessage(this.limiter);
+    this.masterOutput.disconnect();
+    this.masterOutput.connect(node);
+    node.connect(this.context.destination);
+    this.limiterNode = node;
+  }
+
+  setLimiter(limiter: LimiterSettings) {
+    this.limiter = limiter;
+    this.updateLimiter();
+  }
+
+  updateLimiter() {
+    this.limiterNode?.port.postMessage(this.limiter);
+  }
+
   private initializeSineWaves() {
     // Initialize melody sine waves for MIDI notes 21-108 (A0-C8)
     this.melodySamples.set('sine', new Map());
     for (let note = 21; note <= 108; note++) {
-      this.melodySamples.get('sine')?.set(note, { buffer: null, type: 'sine' });
+      this.melodySamples.get('sine')?.set(note, [{ buffer: null, type: 'sine' }]);
     }
 
-    // Initialize beat sine waves
-    this.beatSamples.set(0, { buffer: null, type: 'sine' }); // Beat 1
-    this.beatSamples.set(1, { buffer: null, type: 'sine' }); // Beat 2
+    // Synth voices share the same key range
+    synthWaveforms.forEach(waveform => {
+      const samples: Map<number, AudioSample[]> = new Map();
+      for (let note = 21; note <= 108; note++) {
+        samples.set(note, [{ buffer: null, type: 'synth', waveform }]);
+      }
+      this.melodySamples.set(`synth-${waveform}`, samples);
+    });
   }
 
-  private createSineWave(frequency: number, duration: number = 1): AudioBuffer {
+  private createSineWave(frequency: number, duration: number = 1, tail: number = 0): AudioBuffer {
     const sampleRate = this.context.sampleRate;
-    const length = sampleRate * duration;
+    const length = Math.ceil(sampleRate * (duration + tail));
     const buffer = this.context.createBuffer(1, length, sampleRate);
     const data = buffer.getChannelData(0);
 
@@ -178,8 +349,8 @@ class AudioManager {
     return 440 * Math.pow(2, (midiNote - 69) / 12);
   }
 
-  private midiToPercentage(midiNote: number, pitchShift: number = 0): number {
-    return Math.pow(2, (midiNote - 60 + pitchShift) / 12); // C4 as reference
+  private midiToPercentage(midiNote: number, pitchShift: number = 0, rootKey: number = 60): number {
+    return Math.pow(2, (midiNote - rootKey + pitchShift) / 12); // C4 as default reference
   }
 
   async loadFile(file: File): Promise<AudioBuffer> {
@@ -187,30 +358,178 @@ class AudioManager {
     return this.context.decodeAudioData(arrayBuffer);
   }
 
+  // 同じファイルを複数の音色から参照しても一度だけデコードする
+  private getFileBuffer(file: File): Promise<AudioBuffer> {
+    let buffer = this.fileBuffers.get(file.name);
+    if (!buffer) {
+      buffer = this.loadFile(file);
+      this.fileBuffers.set(file.name, buffer);
+    }
+    return buffer;
+  }
+
   async setMelodyAudio(file: File | null) {
     if (!file) return;
     const filename = file.name;
     this.melodySamples.set(filename, new Map());
-    return this.loadFile(file).then(buffer => {
+    return this.getFileBuffer(file).then(buffer => {
       for (let note = 21; note <= 108; note++) {
-        this.melodySamples.get(filename)?.set(note, { buffer, type: 'file' });
+        this.melodySamples.get(filename)?.set(note, [{ buffer, type: 'file', filename }]);
       }
     });
   }
 
+  async setInstrument(instrument: Instrument, files: Map<string, File>) {
+    const buffers = new Map<string, AudioBuffer>();
+    await Promise.all(instrument.zones.map(async zone => {
+      const file = files.get(zone.filename);
+      if (file) {
+        buffers.set(zone.filename, await this.getFileBuffer(file));
+      }
+    }));
+    const zones = instrument.zones.filter(zone => buffers.has(zone.filename));
+    const samples = new Map<number, AudioSample[]>();
+    for (let note = 21; note <= 108; note++) {
+      samples.set(note, zonesForKey(zones, note).map(zone => ({
+        buffer: buffers.get(zone.filename)!,
+        type: 'file',
+        filename: zone.filename,
+        rootKey: zone.rootKey,
+        lowVelocity: zone.lowVelocity,
+        highVelocity: zone.highVelocity,
+      })));
+    }
+    this.melodySamples.set(instrument.id, samples);
+  }
+
   deleteMelodyAudio(filename: string) {
     this.melodySamples.delete(filename);
     this.melodyPitchShifts.delete(filename);
+    this.sampleRegions.delete(filename);
+    this.fileBuffers.delete(filename);
+    this.stretchedBuffers.forEach((_, key) => {
+      if (key.startsWith(`${filename}:`)) this.stretchedBuffers.delete(key);
+    });
+    this.stretchJobs.forEach((_, key) => {
+      if (key.startsWith(`${filename}:`)) this.stretchJobs.delete(key);
+    });
+  }
+
+  private pickMelodySample(filename: string, note: Note): AudioSample | undefined {
+    const layers = this.melodySamples.get(filename)?.get(note.pitch);
+    return layers ? pickVelocityLayer(layers, note.velocity) : undefined;
+  }
+
+  private getPlaybackRate(sample: AudioSample, filename: string, pitch: number) {
+    return this.midiToPercentage(pitch, this.melodyPitchShifts.get(sample.filename ?? filename) || 0, sample.rootKey);
   }
 
   setMelodyPitchShift(filename: string, pitchShift: number) {
     this.melodyPitchShifts.set(filename, pitchShift);
   }
 
+  setSampleRegion(filename: string, region: Partial<SampleRegion>) {
+    this.sampleRegions.set(filename, region);
+  }
+
+  private getSampleRegion(sample: AudioSample, filename?: string) {
+    if (sample.type !== 'file' || !sample.buffer) return null;
+    return resolveRegion(this.sampleRegions.get(sample.filename ?? filename ?? ''), sample.buffer.duration);
+  }
+
+  // サンプルエディタの波形表示用
+  getSampleBuffer(file: File) {
+    return this.getFileBuffer(file);
+  }
+
+  setEnvelopes(melody: Map<number, Envelope>, beat: Map<number, Envelope>) {
+    this.melodyEnvelopes = melody;
+    this.beatEnvelopes = beat;
+  }
+
+  setMixer(mixer: MixerSettings) {
+    this.mixer = mixer;
+    this.updateMixer();
+  }
+
+  // ミキサーの設定をチャンネルに反映
+  updateMixer() {
+    const now = this.context.currentTime;
+    this.channels.forEach(channel => {
+      channel.volume.gain.setTargetAtTime(channelGain(this.mixer, channel.kind, channel.track), now, 0.01);
+      channel.panner.pan.setTargetAtTime(getChannelSettings(this.mixer, channel.kind, channel.track).pan, now, 0.01);
+    });
+  }
+
+  setEffects(effects: EffectSettings) {
+    this.effects = effects;
+    this.updateEffects();
+  }
+
+  // エフェクトの設定をチャンネルとマスターに反映（構成が変わったときだけ作り直す）
+  updateEffects() {
+    this.channels.forEach(channel => {
+      const effects = this.effects[channel.kind].get(channel.track) || [];
+      const layout = chainLayout(effects);
+      if (layout === channel.layout) {
+        this.updateEffectNodes(channel.effects, effects);
+        return;
+      }
+      channel.input.disconnect();
+      channel.effects.forEach(node => node.disconnect());
+      channel.effects = connectEffectChain(this.context, effects, channel.input, channel.volume);
+      channel.layout = layout;
+    });
+
+    const layout = chainLayout(this.effects.master);
+    if (layout === this.masterEffects.layout) {
+      this.updateEffectNodes(this.masterEffects.nodes, this.effects.master);
+      return;
+    }
+    this.masterGain.disconnect();
+    this.masterEffects.nodes.forEach(node => node.disconnect());
+    this.masterEffects = {
+      nodes: connectEffectChain(this.context, this.effects.master, this.masterGain, this.masterOutput),
+      layout
+    };
+  }
+
+  private updateEffectNodes(nodes: EffectNode[], effects: Effect[]) {
+    effects.filter(effect => !effect.bypass).forEach((effect, i) => nodes[i]?.update(effect));
+  }
+
+  // Channel strip (effects -> volume -> pan -> automation gain and pan) between a track's voices and the master gain
+  private getChannel(kind: ChannelKind, track: number) {
+    const key = `${kind}-${track}`;
+    let channel = this.channels.get(key);
+    if (!channel) {
+      const input = this.context.createGain();
+      // モノラルのサンプルも常にステレオとしてパンする（オフライン描画と同じ計算になる）
+      input.channelCount = 2;
+      input.channelCountMode = 'explicit';
+      const volume = this.context.createGain();
+      volume.gain.value = channelGain(this.mixer, kind, track);
+      const panner = this.context.createStereoPanner();
+      panner.pan.value = getChannelSettings(this.mixer, kind, track).pan;
+      const trackEffects = this.effects[kind].get(track) || [];
+      const effects = connectEffectChain(this.context, trackEffects, input, volume);
+      // オートメーションはミキサーの設定とは別のノードで動かす
+      const automationGain = this.context.createGain();
+      const automationPanner = this.context.createStereoPanner();
+      volume.connect(panner);
+      panner.connect(automationGain);
+      automationGain.connect(automationPanner);
+      automationPanner.connect(this.masterGain);
+      channel = { kind, track, input, volume, panner, automationGain, automationPanner, effects, layout: chainLayout(trackEffects) };
+      this.channels.set(key, channel);
+    }
+    return channel;
+  }
+
   async setBeatSample(track: number, file: File | null) {
     if (file) {
       return this.loadFile(file).then(buffer => {
-        this.beatSamples.set(track, { buffer, type: 'file' });
+        this.beatSamples.set(track, { buffer, type: 'file', filename: file.name });
       });
     } else {
       // Reset to sine wave
@@ -219,9 +538,133 @@ class AudioManager {
     }
   }
 
+  private getBeatSample(track: number): AudioSample {
+    return this.beatSamples.get(track) || { buffer: null, type: 'sine' };
+  }
+
+  deleteBeatSample(track: number) {
+    this.beatSamples.delete(track);
+  }
+
   setBeatSilence(track: number) {
     this.beatSamples.set(track, { buffer: null, type: 'silent' });
   }
+
+  setBeatSynth(track: number, waveform: SynthWaveform) {
+    this.beatSamples.set(track, { buffer: null, type: 'synth', waveform });
+  }
+
+  setSynthSettings(melody: Map<number, SynthSettings>, beat: Map<number, SynthSettings>) {
+    this.melodySynths = melody;
+    this.beatSynths = beat;
+  }
+
+  setStretchSettings(melody: Map<number, StretchSettings>) {
+    this.melodyStretch = melody;
+  }
+
+  setBeatPlaybackSettings(beat: Map<number, BeatPlaybackSettings>) {
+    this.beatPlayback = beat;
+  }
+
+  // 伸縮する範囲と長さ（長さはまとめて使い回せるよう丸める）
+  private getStretchJob(sample: AudioSample, region: SampleRegion, durationInSeconds: number) {
+    const buffer = sample.buffer!;
+    const length = quantizeStretchLength(durationInSeconds * buffer.sampleRate);
+    const from = Math.floor(region.start * buffer.sampleRate);
+    const to = Math.max(from + 1, Math.floor(region.end * buffer.sampleRate));
+    const readChannels = () => Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch).slice(from, to));
+    return { key: `${sample.filename}:${region.start}:${region.end}:${length}`, length, factor: length / (to - from), readChannels };
+  }
+
+  private storeStretchedBuffer(key: string, data: Float32Array[], length: number, sampleRate: number) {
+    const stretched = new AudioBuffer({ length, numberOfChannels: data.length, sampleRate });
+    data.forEach((channel, ch) => stretched.copyToChannel(channel.subarray(0, length), ch));
+    this.stretchedBuffers.delete(key);
+    // 音の長さや音程ごとに作られるので、しばらく使われていないものから捨てる
+    if (this.stretchedBuffers.size >= 64) {
+      this.stretchedBuffers.delete(this.stretchedBuffers.keys().next().value!);
+    }
+    this.stretchedBuffers.set(key, stretched);
+    return stretched;
+  }
+
+  private getCachedStretchedBuffer(key: string) {
+    const cached = this.stretchedBuffers.get(key);
+    if (cached) {
+      this.stretchedBuffers.delete(key);
+      this.stretchedBuffers.set(key, cached);
+    }
+    return cached;
+  }
+
+  // 切り出した範囲を durationInSeconds の長さに伸縮する（ピッチは変えない）。
+  // ワーカーの結果がまだなければその場で計算するので、プレビューとすぐに鳴らすノートだけに使う
+  private getStretchedBuffer(sample: AudioSample, region: SampleRegion, durationInSeconds: number) {
+    const { key, length, factor, readChannels } = this.getStretchJob(sample, region, durationInSeconds);
+    return this.getCachedStretchedBuffer(key)
+      ?? this.storeStretchedBuffer(key, timeStretch(readChannels(), sample.buffer!.sampleRate, factor), length, sample.buffer!.sampleRate);
+  }
+
+  // Stretches in the worker; the same length is stretched once however often it is asked for
+  private stretchInWorker(sample: AudioSample, region: SampleRegion, durationInSeconds: number): Promise<AudioBuffer | null> {
+    const { key, length, factor, readChannels } = this.getStretchJob(sample, region, durationInSeconds);
+    const cached = this.getCachedStretchedBuffer(key);
+    if (cached) return Promise.resolve(cached);
+    const pending = this.stretchJobs.get(key);
+    if (pending) return pending.promise;
+
+    if (!this.stretchWorker) {
+      this.stretchWorker = new Worker(new URL('./stretch.worker.ts', import.meta.url), { type: 'module' });
+      this.stretchWorker.addEventListener('message', (e) => {
+        const data = e.data;
+        if (data?.type === 'done' || data?.type === 'error') this.stretchJobs.get(data.key)?.resolve(data);
+      });
+    }
+    const sampleRate = sample.buffer!.sampleRate;
+    let resolve!: (data: { channels?: ArrayBuffer[]; message?: string }) => void;
+    const promise = new Promise<AudioBuffer | null>(done => {
+      resolve = (data) => {
+        const current = this.stretchJobs.get(key)?.promise === promise;
+        if (current) this.stretchJobs.delete(key);
+        if (!data.channels) {
+          console.error('Stretch worker error:', data.message);
+          done(null);
+          return;
+        }
+        const channels = data.channels.map(buffer => new Float32Array(buffer));
+        // 待っている間に音が差し替えられていれば残さない
+        done(current ? this.storeStretchedBuffer(key, channels, length, sampleRate) : null);
+      };
+    });
+    this.stretchJobs.set(key, { promise, resolve });
+    const channels = readChannels().map(channel => channel.buffer as ArrayBuffer);
+    this.stretchWorker.postMessage({ type: 'stretch', key, channels, sampleRate, factor }, { transfer: channels });
+    return promise;
+  }
+
+  // Starts stretching a note that is about to be scheduled, so the buffer is ready when it is played
+  prepareNote(note: Note, filename: string, durationInSeconds: number) {
+    const sample = this.pickMelodySample(filename, note);
+    if (sample?.type !== 'file' || !sample.buffer) return;
+    const region = this.getSampleRegion(sample, filename);
+    const stretch = region ? this.melodyStretch.get(note.track) : undefined;
+    if (!region || !stretch?.enabled) return;
+    const playbackRate = stretch.repitch ? this.getPlaybackRate(sample, filename, note.pitch) : 1;
+    this.stretchInWorker(sample, region, durationInSeconds * playbackRate);
+  }
+
+  // ノイズは一度だけ生成してすべてのボイスで共有する
+  private getNoiseBuffer() {
+    if (!this.noiseBuffer) {
+      this.noiseBuffer = createNoiseBuffer(this.context);
+    }
+    return this.noiseBuffer;
+  }
+
+  private createSynthVoice(sample: AudioSample, settings: SynthSettings, frequency: number) {
+    return createSynthVoice(this.context, sample.waveform!, settings, frequency, this.getNoiseBuffer());
+  }
   
   stopPreview(previewId: string) {
     const preview = this.previewSources.get(previewId);
@@ -230,7 +673,7 @@ class AudioManager {
         // フェードアウトしてから停止
         preview.gain.gain.setValueAtTime(preview.gain.gain.value, this.context.currentTime);
         preview.gain.gain.linearRampToValueAtTime(0, this.context.currentTime + 0.05);
-        preview.source.stop(this.context.currentTime + 0.05);
+        preview.stop(this.context.currentTime + 0.05);
       } catch (e) {
         // すでに停止している場合のエラーを無視
       }
@@ -245,99 +688,319 @@ class AudioManager {
     });
   }
 
-  playNote(note: Note, filename: string, bpm: number, when: number = 0, ignoreNoteValue: boolean = false) {
-    const sample = this.melodySamples.get(filename)?.get(note.pitch);
+  get currentTime() {
+    return this.context.currentTime;
+  }
+
+  private trackScheduledSource(source: AudioScheduledSourceNode, startTime: number) {
+    const voice = { source, startTime };
+    this.scheduledSources.add(voice);
+    source.addEventListener('ended', () => {
+      this.scheduledSources.delete(voice);
+    });
+  }
+
+  // Gain and pan of a melody track's automation from `time` on
+  scheduleChannelAutomation(track: number, gain: number, pan: number, time: number) {
+    const channel = this.getChannel('melody', track);
+    channel.automationGain.gain.setValueAtTime(gain, time);
+    channel.automationPanner.pan.setValueAtTime(pan, time);
+  }
+
+  // Back to no automation from `time` on, for tracks whose automation was removed
+  resetChannelAutomation(time: number) {
+    this.channels.forEach(channel => {
+      channel.automationGain.gain.cancelScheduledValues(time);
+      channel.automationGain.gain.setValueAtTime(1, time);
+      channel.automationPanner.pan.cancelScheduledValues(time);
+      channel.automationPanner.pan.setValueAtTime(0, time);
+    });
+  }
+
+  // メトロノームのクリック（小節の頭は高い音）
+  playClick(startTime: number, accent: boolean) {
+    const oscillator = this.context.createOscillator();
+    oscillator.frequency.value = accent ? 1500 : 1000;
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(0, startTime);
+    gain.gain.linearRampToValueAtTime(accent ? 1 : 0.6, startTime + 0.001);
+    gain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.05);
+    oscillator.connect(gain);
+    gain.connect(this.clickGain);
+    oscillator.start(startTime);
+    oscillator.stop(startTime + 0.06);
+    this.trackScheduledSource(oscillator, startTime);
+  }
+
+  // まだ鳴り始めていない予約済みの音をキャンセル
+  cancelScheduled(after: number = this.context.currentTime) {
+    this.scheduledSources.forEach(voice => {
+      if (voice.startTime <= after) return;
+      try {
+        voice.source.stop();
+      } catch (e) {
+        // すでに停止している場合のエラーを無視
+      }
+      this.scheduledSources.delete(voice);
+    });
+    this.chokeGroups.forEach((hits, group) => {
+      this.chokeGroups.set(group, hits.filter(hit => hit.startTime <= after));
+    });
+    this.channels.forEach(channel => {
+      channel.automationGain.gain.cancelScheduledValues(after);
+      channel.automationPanner.pan.cancelScheduledValues(after);
+    });
+  }
+
+  // bend: pitch-bend ratios from the given audio clock times on
+  playNote(note: Note, filename: string, startTime: number, durationInSeconds: number, ignoreNoteValue: boolean = false, bend: Array<{ time: number; ratio: number }> = []) {
+    const sample = this.pickMelodySample(filename, note);
     if (!sample) return;
 
+    const envelope = this.melodyEnvelopes.get(note.track) || defaultEnvelope;
+
+    if (sample.type === 'synth') {
+      const settings = this.melodySynths.get(note.track) || defaultSynthSettings;
+      const voice = this.createSynthVoice(sample, settings, this.midiToFrequency(note.pitch));
+      bend.forEach(({ time, ratio }) => voice.bend(time, ratio));
+      const gain = this.context.createGain();
+      const endTime = scheduleEnvelope(gain.gain, envelope, startTime, durationInSeconds, (note.velocity / 127) * 0.5 * synthLevels[sample.waveform!]);
+      voice.output.connect(gain);
+      gain.connect(this.getChannel('melody', note.track).input);
+      voice.start(startTime);
+      voice.stop(endTime);
+      voice.sources.forEach(source => this.trackScheduledSource(source, startTime));
+      return;
+    }
+
     const source = this.context.createBufferSource();
     const gain = this.context.createGain();
 
-    const durationInSeconds = this.beatsToSeconds(note.length, bpm);
+    const region = this.getSampleRegion(sample, filename);
+    const stretch = region ? this.melodyStretch.get(note.track) : undefined;
+    // 音価を無視する場合はサンプルの終わりまで鳴らすのでリリースしない（ループするサンプルは音価で止める）
+    const releaseAt = region && ignoreNoteValue && !isLooping(region) && !stretch?.enabled ? Infinity : durationInSeconds;
 
     if (sample.type === 'sine') {
       const frequency = this.midiToFrequency(note.pitch);
-      source.buffer = this.createSineWave(frequency, durationInSeconds);
+      source.buffer = this.createSineWave(frequency, durationInSeconds, envelope.release);
+    } else if (region && stretch?.enabled) {
+      // 伸縮したサンプルは音価ちょうどの長さで鳴り終わる。
+      // 先読みで用意できていない再生開始直後のノートだけはその場で伸縮する
+      const playbackRate = stretch.repitch ? this.getPlaybackRate(sample, filename, note.pitch) : 1;
+      source.buffer = this.getStretchedBuffer(sample, region, durationInSeconds * playbackRate);
+      source.playbackRate.value = playbackRate;
     } else {
       source.buffer = sample.buffer;
-      source.playbackRate.value = this.midiToPercentage(note.pitch, this.melodyPitchShifts.get(filename) || 0);
+      source.playbackRate.value = this.getPlaybackRate(sample, filename, note.pitch);
+      if (region) applyRegion(source, region);
     }
 
-    gain.gain.value = (note.velocity / 127) * 0.5;
+    const endTime = scheduleEnvelope(gain.gain, envelope, startTime, releaseAt, (note.velocity / 127) * 0.5);
+    const baseRate = source.playbackRate.value;
+    bend.forEach(({ time, ratio }) => source.playbackRate.setValueAtTime(baseRate * ratio, time));
 
     source.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.getChannel('melody', note.track).input);
 
-    const startTime = this.context.currentTime + when;
-    source.start(startTime);
+    if (stretch?.enabled) {
+      source.start(startTime);
+      source.stop(endTime);
+      this.trackScheduledSource(source, startTime);
+      return;
+    }
+
+    source.start(startTime, region?.start ?? 0);
+    this.trackScheduledSource(source, startTime);
 
-    if (sample.type === 'file' && !ignoreNoteValue) {
-      source.stop(startTime + durationInSeconds);
+    if (region) {
+      const stopTime = Math.min(endTime, this.getRegionEndTime(region, startTime, source.playbackRate.value));
+      if (stopTime !== Infinity) source.stop(stopTime);
     }
   }
 
+  // 切り出した範囲の終わり（ループする場合は終わらない）
+  private getRegionEndTime(region: SampleRegion, startTime: number, playbackRate: number) {
+    return isLooping(region) ? Infinity : startTime + (region.end - region.start) / playbackRate;
+  }
+
   // プレビュー音を再生（前の音は自動停止）
   playNotePreview(note: Note, filename: string, bpm: number, previewId: string, when: number = 0) {
     // 前のプレビュー音を停止
     this.stopPreview(previewId);
 
-    const sample = this.melodySamples.get(filename)?.get(note.pitch);
+    const sample = this.pickMelodySample(filename, note);
     if (!sample) return;
 
-    const source = this.context.createBufferSource();
     const gain = this.context.createGain();
-
     const durationInSeconds = this.beatsToSeconds(note.length, bpm);
+    const startTime = this.context.currentTime + when;
+
+    if (sample.type === 'synth') {
+      const settings = this.melodySynths.get(note.track) || defaultSynthSettings;
+      const voice = this.createSynthVoice(sample, settings, this.midiToFrequency(note.pitch));
+      const peak = (note.velocity / 127) * 0.3 * synthLevels[sample.waveform!];
+      gain.gain.setValueAtTime(0, startTime);
+      gain.gain.linearRampToValueAtTime(peak, startTime + 0.02);
+      gain.gain.setValueAtTime(peak, startTime + durationInSeconds);
+      gain.gain.linearRampToValueAtTime(0, startTime + durationInSeconds + 0.05);
+      voice.output.connect(gain);
+      gain.connect(this.masterGain);
+      voice.start(startTime);
+      voice.stop(startTime + durationInSeconds + 0.05);
+      this.previewSources.set(previewId, { stop: voice.stop, gain });
+      return previewId;
+    }
+
+    const source = this.context.createBufferSource();
+    const region = this.getSampleRegion(sample, filename);
+    const stretch = region ? this.melodyStretch.get(note.track) : undefined;
 
     if (sample.type === 'sine') {
       const frequency = this.midiToFrequency(note.pitch);
       source.buffer = this.createSineWave(frequency, durationInSeconds);
+    } else if (region && stretch?.enabled) {
+      const playbackRate = stretch.repitch ? this.getPlaybackRate(sample, filename, note.pitch) : 1;
+      source.buffer = this.getStretchedBuffer(sample, region, durationInSeconds * playbackRate);
+      source.playbackRate.value = playbackRate;
     } else {
       source.buffer = sample.buffer;
-      source.playbackRate.value = this.midiToPercentage(note.pitch, this.melodyPitchShifts.get(filename) || 0);
+      source.playbackRate.value = this.getPlaybackRate(sample, filename, note.pitch);
+      if (region) applyRegion(source, region);
     }
 
     // フェードインで開始
+    const peak = (note.velocity / 127) * 0.3;
     gain.gain.setValueAtTime(0, this.context.currentTime + when);
-    gain.gain.linearRampToValueAtTime((note.velocity / 127) * 0.3, this.context.currentTime + when + 0.02);
+    gain.gain.linearRampToValueAtTime(peak, this.context.currentTime + when + 0.02);
 
     source.connect(gain);
     gain.connect(this.masterGain);
 
-    const startTime = this.context.currentTime + when;
-    source.start(startTime);
+    source.start(startTime, stretch?.enabled ? 0 : region?.start ?? 0);
+    if (region && !stretch?.enabled) {
+      const regionEndTime = this.getRegionEndTime(region, startTime, source.playbackRate.value);
+      if (regionEndTime !== Infinity) {
+        source.stop(regionEndTime);
+      } else {
+        // ループするサンプルは音価の長さでフェードアウト
+        gain.gain.setValueAtTime(peak, startTime + durationInSeconds);
+        gain.gain.linearRampToValueAtTime(0, startTime + durationInSeconds + 0.05);
+        source.stop(startTime + durationInSeconds + 0.05);
+      }
+    }
 
     // プレビュー音源を管理マップに追加
-    this.previewSources.set(previewId, { source, gain });
+    this.previewSources.set(previewId, { stop: (time: number) => source.stop(time), gain });
 
     return previewId;
   }
   
+  // サンプルエディタの試聴（ループする場合は数秒で止める）
+  playSamplePreview(buffer: AudioBuffer, filename: string, previewId: string) {
+    this.stopPreview(previewId);
+
+    const region = resolveRegion(this.sampleRegions.get(filename), buffer.duration);
+    const source = this.context.createBufferSource();
+    const gain = this.context.createGain();
+    source.buffer = buffer;
+    applyRegion(source, region);
+    source.connect(gain);
+    gain.connect(this.masterGain);
+
+    const startTime = this.context.currentTime;
+    const endTime = Math.min(this.getRegionEndTime(region, startTime, 1), startTime + 4);
+    gain.gain.setValueAtTime(0.5, startTime);
+    gain.gain.setValueAtTime(0.5, endTime - 0.05);
+    gain.gain.linearRampToValueAtTime(0, endTime);
+    source.start(startTime, region.start);
+    source.stop(endTime);
+
+    this.previewSources.set(previewId, { stop: (time: number) => source.stop(time), gain });
+  }
+
   private beatsToSeconds(beats: number, bpm: number): number {
     return (60 / bpm) * beats;
   }
 
-  playBeat(beat: Beat, when: number = 0) {
-    const sample = this.beatSamples.get(beat.track);
-    if (!sample || sample.type === 'silent') return;
+  playBeat(beat: Beat, startTime: number = this.context.currentTime) {
+    const sample = this.getBeatSample(beat.track);
+    if (sample.type === 'silent') return;
+
+    const envelope = this.beatEnvelopes.get(beat.track) || defaultEnvelope;
+    const playback = this.beatPlayback.get(beat.track) || defaultBeatPlaybackSettings;
+    const region = this.getSampleRegion(sample);
+    const timing = getBeatHitTiming(playback, this.getBeatNaturalLength(sample, region), envelope.release);
+
+    // 減衰とチョークは別のゲインでかける
+    const hitGain = this.context.createGain();
+    scheduleBeatHit(hitGain.gain, playback, startTime);
+    hitGain.connect(this.getChannel('beat', beat.track).input);
+
+    if (sample.type === 'synth') {
+      const settings = this.beatSynths.get(beat.track) || defaultSynthSettings;
+      const voice = this.createSynthVoice(sample, settings, getBeatFrequency(beat.track));
+      const gain = this.context.createGain();
+      const endTime = scheduleEnvelope(gain.gain, envelope, startTime, timing.releaseAt, (beat.velocity / 127) * 0.7 * synthLevels[sample.waveform!]);
+      const stopTime = Math.min(endTime, startTime + timing.length);
+      voice.output.connect(gain);
+      gain.connect(hitGain);
+      voice.start(startTime);
+      voice.stop(stopTime);
+      voice.sources.forEach(source => this.trackScheduledSource(source, startTime));
+      this.chokeHit(playback, hitGain, voice.stop, startTime, stopTime);
+      return;
+    }
 
     const source = this.context.createBufferSource();
     const gain = this.context.createGain();
 
     if (sample.type === 'sine') {
-      const frequency = beat.track === 0 ? 200 : 150; // Different frequencies for different beats
-      source.buffer = this.createSineWave(frequency, 0.2);
+      const frequency = getBeatFrequency(beat.track); // Different frequencies for different beats
+      source.buffer = this.createSineWave(frequency, sineBeatDecay, Math.max(0, timing.length - sineBeatDecay));
     } else {
       source.buffer = sample.buffer;
     }
+    if (region) applyRegion(source, region);
 
-    gain.gain.value = (beat.velocity / 127) * 0.7;
+    const endTime = scheduleEnvelope(gain.gain, envelope, startTime, timing.releaseAt, (beat.velocity / 127) * 0.7);
+    const stopTime = Math.min(endTime, startTime + timing.length);
 
     source.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(hitGain);
 
-    const startTime = this.context.currentTime + when;
-    source.start(startTime);
-    source.stop(startTime + 0.2);
+    source.start(startTime, region?.start ?? 0);
+    source.stop(stopTime);
+    this.trackScheduledSource(source, startTime);
+    this.chokeHit(playback, hitGain, (time: number) => source.stop(time), startTime, stopTime);
+  }
+
+  // Seconds a beat sound lasts by itself
+  private getBeatNaturalLength(sample: AudioSample, region: SampleRegion | null) {
+    if (sample.type === 'sine') return sineBeatLength;
+    if (!region || isLooping(region)) return Infinity;
+    return region.end - region.start;
+  }
+
+  // 同じチョークグループで鳴っている音を止める。先に予約された後の音があれば、この音もそこで止める
+  private chokeHit(settings: BeatPlaybackSettings, hitGain: GainNode, stop: (time: number) => void, startTime: number, endTime: number) {
+    if (!settings.chokeGroup) return;
+    const now = this.context.currentTime;
+    const hits = (this.chokeGroups.get(settings.chokeGroup) || []).filter(hit => hit.endTime > now);
+    const hit = { hitGain, stop, settings, startTime, endTime };
+    const choke = (target: typeof hit, time: number) => {
+      target.endTime = scheduleBeatChoke(target.hitGain.gain, target.settings, target.startTime, time);
+      target.stop(target.endTime);
+    };
+
+    hits.forEach(other => {
+      if (other.startTime < startTime && other.endTime > startTime) choke(other, startTime);
+    });
+    const next = Math.min(...hits.filter(other => other.startTime > startTime).map(other => other.startTime));
+    if (next < hit.endTime) choke(hit, next);
+
+    hits.push(hit);
+    this.chokeGroups.set(settings.chokeGroup, hits);
   }
 
   async resume() {
@@ -353,8 +1016,11 @@ class AudioManager {
     files: AudioFile[];
     bpm: number;
     bpms: Map<number, number>; // beat position -> bpm
+    tempoRamps: Set<number>; // beat positions in bpms that ramp to the next tempo
     playbackSpeed: number;
     ignoreNoteValue: boolean;
+    automation?: Map<number, AutomationLanes>; // melody track -> automation lanes
+    startBeat?: number; // render from this beat position instead of 0
     duration: number;
     sampleRate?: number;
     numChannels?: number;
@@ -366,41 +1032,48 @@ class AudioManager {
     const totalSamples = Math.ceil(params.duration * sampleRate);
 
     // Prepare output buffers
-    const outputs: Float32Array[] = [];
-    for (let ch = 0; ch < numChannels; ch++) outputs.push(new Float32Array(totalSamples));
+    const dryBuffer = new AudioBuffer({ length: totalSamples, numberOfChannels: numChannels, sampleRate });
+    const dryOutputs: Float32Array[] = [];
+    for (let ch = 0; ch < numChannels; ch++) dryOutputs.push(dryBuffer.getChannelData(ch));
+
+    // Tracks with insert effects are rendered pre-fader into their own bus and processed by the effect nodes afterwards
+    const buses: Map<string, { kind: ChannelKind; track: number; buffer: AudioBuffer; outputs: Float32Array[] }> = new Map();
+    const getOutputs = (kind: ChannelKind, track: number) => {
+      const effects = this.effects[kind].get(track) || [];
+      if (chainLayout(effects) === '') return dryOutputs;
+      const key = `${kind}-${track}`;
+      let bus = buses.get(key);
+      if (!bus) {
+        const buffer = new AudioBuffer({ length: totalSamples, numberOfChannels: numChannels, sampleRate });
+        const busOutputs: Float32Array[] = [];
+        for (let ch = 0; ch < numChannels; ch++) busOutputs.push(buffer.getChannelData(ch));
+        bus = { kind, track, buffer, outputs: busOutputs };
+        buses.set(key, bus);
+      }
+      return bus.outputs;
+    };
 
     // Convert a beat position to seconds, taking into account tempo changes in params.bpms
-    const bpmEntries = ((): Array<{ beat: number; bpm: number }> => {
-      const entries: Array<{ beat: number; bpm: number }> = [];
-      // Ensure there's an initial entry at beat 0
-      entries.push({ beat: 0, bpm: params.bpm });
-      if (params.bpms && params.bpms.size) {
-        Array.from(params.bpms.entries()).forEach(([beat, bpm]) => {
-          if (beat === 0) {
-            entries[0].bpm = bpm;
-          } else {
-            entries.push({ beat, bpm });
-          }
-        });
+    const tempoSegments = buildTempoSegments(params.bpm, params.bpms, params.tempoRamps);
+    // 途中から書き出すときは開始位置を 0 秒にする（それより前のノートは負の位置になる）
+    const startOffset = beatToSeconds(tempoSegments, params.startBeat ?? 0, params.playbackSpeed);
+    const beatPosToSeconds = (beatPos: number): number => beatToSeconds(tempoSegments, beatPos, params.playbackSpeed) - startOffset;
+
+    // Gain and pan automation of the melody tracks, in samples
+    const channelAutomation: Map<number, Array<{ sample: number; gain: number; pan: number }>> = new Map();
+    params.automation?.forEach((lanes, track) => {
+      const changes = getChannelAutomation(lanes);
+      if (changes.every(change => change.gain === 1 && change.pan === 0)) return;
+      channelAutomation.set(track, changes.map(change => ({ sample: Math.floor(beatPosToSeconds(change.position) * sampleRate), gain: change.gain, pan: change.pan })));
+    });
+    const automationAt = (changes: Array<{ sample: number; gain: number; pan: number }>, i: number) => {
+      let low = 0;
+      let high = changes.length - 1;
+      while (low < high) {
+        const middle = (low + high + 1) >> 1;
+        if (changes[middle].sample <= i) low = middle; else high = middle - 1;
       }
-      entries.sort((a, b) => a.beat - b.beat);
-      return entries;
-    })();
-
-    const beatPosToSeconds = (beatPos: number): number => {
-      if (beatPos <= 0) return 0;
-      let seconds = 0;
-      for (let i = 0; i < bpmEntries.length; i++) {
-        const segStart = bpmEntries[i].beat;
-        const segBpm = bpmEntries[i].bpm;
-        const segEnd = i + 1 < bpmEntries.length ? bpmEntries[i + 1].beat : Infinity;
-        if (beatPos <= segStart) break;
-        const endBeat = Math.min(beatPos, segEnd);
-        const deltaBeats = endBeat - segStart;
-        seconds += (60 / (segBpm * params.playbackSpeed)) * deltaBeats;
-        if (beatPos <= segEnd) break;
-      }
-      return seconds;
+      return changes[low];
     };
 
     const beatRangeToSeconds = (startBeat: number, lengthBeats: number) => {
@@ -419,33 +1092,90 @@ class AudioManager {
       sourceData?: Float32Array[];
       sourceSampleRate?: number;
       playbackRate?: number;
+      region?: SampleRegion;
+      synth?: (rate?: number) => number; // next sample of a synth voice
       gain: number;
+      pan: number;
+      outputs: Float32Array[];
+      envelope: Envelope;
+      releaseAt: number; // seconds after note on
+      automation?: Array<{ sample: number; gain: number; pan: number }>; // channel gain and pan, when mixed without a bus
+      bend: Array<{ time: number; ratio: number }>; // seconds after note on
+      clock: (time: number) => number; // source time under the pitch bend
     };
 
     const noteInfos: NoteInfo[] = [];
 
+    // Synth voices loop the same seeded noise as live playback
+    let noiseData: Float32Array | null = null;
+    const createSynth = (sample: AudioSample, settings: SynthSettings, frequency: number) => {
+      noiseData ??= createNoiseData(sampleRate);
+      return createSynthRenderer(sample.waveform!, settings, frequency, sampleRate, noiseData);
+    };
+
+    // 伸縮するノートは先にワーカーで伸縮しておく（メモリを使いすぎないよう一つずつ）
+    const stretchedNotes: Map<Note, AudioBuffer> = new Map();
+    for (const note of params.notes) {
+      const filename = params.filenames.melody.get(note.track) || 'sine';
+      const sample = this.pickMelodySample(filename, note);
+      const stretch = this.melodyStretch.get(note.track);
+      if (sample?.type !== 'file' || !(sample.buffer instanceof AudioBuffer) || !stretch?.enabled) continue;
+      const playbackRate = stretch.repitch ? this.getPlaybackRate(sample, filename, note.pitch) : 1;
+      const stretched = await this.stretchInWorker(sample, this.getSampleRegion(sample, filename)!, beatRangeToSeconds(note.start, note.length) * playbackRate);
+      if (stretched) stretchedNotes.set(note, stretched);
+    }
+
     params.notes.forEach(note => {
       const filename = params.filenames.melody.get(note.track) || 'sine';
-      const sample = this.melodySamples.get(filename)?.get(note.pitch);
+      const sample = this.pickMelodySample(filename, note);
       if (!sample) return;
       const startSec = beatPosToSeconds(note.start);
       const durationSec = beatRangeToSeconds(note.start, note.length);
       const startSample = Math.floor(startSec * sampleRate);
-      let endSample = Math.min(totalSamples, startSample + Math.ceil(durationSec * sampleRate));
-      const gain = masterGain * (note.velocity / 127) * 0.5;
+      const envelope = this.melodyEnvelopes.get(note.track) || defaultEnvelope;
+      let endSample = Math.min(totalSamples, startSample + Math.ceil((durationSec + envelope.release) * sampleRate));
+      const volume = channelGain(this.mixer, 'melody', note.track);
+      if (volume === 0) return;
+      const outputs = getOutputs('melody', note.track);
+      const isBus = outputs !== dryOutputs;
+      const gain = (isBus ? 1 : volume) * (note.velocity / 127) * 0.5;
+      const pan = isBus ? 0 : getChannelSettings(this.mixer, 'melody', note.track).pan;
+      const automation = isBus ? undefined : channelAutomation.get(note.track);
+      const lanes = params.automation?.get(note.track);
+      // 音が鳴り終わるまでのピッチベンド（endSample が決まってから呼ぶ）
+      const noteAutomation = () => {
+        const endBeat = secondsToBeat(tempoSegments, startOffset + endSample / sampleRate, params.playbackSpeed);
+        const bend = getBendRatios(lanes, note.start, endBeat).map(({ position, ratio }) => ({ time: Math.max(0, beatPosToSeconds(position) - startSec), ratio }));
+        return { automation, bend, clock: createBendClock(bend) };
+      };
 
-      if (sample.type === 'file' && sample.buffer instanceof AudioBuffer) {
+      const stretch = this.melodyStretch.get(note.track);
+      if (sample.type === 'file' && sample.buffer instanceof AudioBuffer && stretch?.enabled) {
+        // ライブ再生と同じ伸縮済みのバッファを先頭から読む
+        const playbackRate = stretch.repitch ? this.getPlaybackRate(sample, filename, note.pitch) : 1;
+        const srcBuf = stretchedNotes.get(note) ?? this.getStretchedBuffer(sample, this.getSampleRegion(sample, filename)!, durationSec * playbackRate);
+        const srcChannels: Float32Array[] = [];
+        for (let c = 0; c < srcBuf.numberOfChannels; c++) srcChannels.push(srcBuf.getChannelData(c));
+        const region = resolveRegion(undefined, srcBuf.duration);
+        noteInfos.push({ note, startSample, endSample, isSine: false, sourceData: srcChannels, sourceSampleRate: srcBuf.sampleRate, playbackRate, region, gain, pan, outputs, envelope, releaseAt: durationSec, ...noteAutomation() });
+      } else if (sample.type === 'file' && sample.buffer instanceof AudioBuffer) {
         const srcBuf = sample.buffer;
         const srcChannels: Float32Array[] = [];
         for (let c = 0; c < srcBuf.numberOfChannels; c++) srcChannels.push(srcBuf.getChannelData(c));
-        const playbackRate = this.midiToPercentage(note.pitch, this.melodyPitchShifts.get(filename) || 0);
-        if (params.ignoreNoteValue) {
-          const sourceDurationSec = (srcBuf.length / srcBuf.sampleRate) / Math.max(playbackRate, 0.0001);
+        const playbackRate = this.getPlaybackRate(sample, filename, note.pitch);
+        const region = this.getSampleRegion(sample, filename)!;
+        let releaseAt = durationSec;
+        if (params.ignoreNoteValue && !isLooping(region)) {
+          const sourceDurationSec = (region.end - region.start) / Math.max(playbackRate, 0.0001);
           endSample = Math.min(totalSamples, startSample + Math.ceil(sourceDurationSec * sampleRate));
+          releaseAt = Infinity;
         }
-        noteInfos.push({ note, startSample, endSample, isSine: false, sourceData: srcChannels, sourceSampleRate: srcBuf.sampleRate, playbackRate, gain });
+        noteInfos.push({ note, startSample, endSample, isSine: false, sourceData: srcChannels, sourceSampleRate: srcBuf.sampleRate, playbackRate, region, gain, pan, outputs, envelope, releaseAt, ...noteAutomation() });
+      } else if (sample.type === 'synth') {
+        const synth = createSynth(sample, this.melodySynths.get(note.track) || defaultSynthSettings, this.midiToFrequency(note.pitch));
+        noteInfos.push({ note, startSample, endSample, isSine: false, synth, gain: gain * synthLevels[sample.waveform!], pan, outputs, envelope, releaseAt: durationSec, ...noteAutomation() });
       } else {
-        noteInfos.push({ note, startSample, endSample, isSine: true, frequency: this.midiToFrequency(note.pitch), durationSec, gain });
+        noteInfos.push({ note, startSample, endSample, isSine: true, frequency: this.midiToFrequency(note.pitch), durationSec, gain, pan, outputs, envelope, releaseAt: durationSec, ...noteAutomation() });
       }
     });
 
@@ -457,30 +1187,93 @@ class AudioManager {
       frequency?: number;
       sourceData?: Float32Array[];
       sourceSampleRate?: number;
+      region?: SampleRegion;
+      synth?: () => number; // next sample of a synth voice
       gain: number;
+      pan: number;
+      outputs: Float32Array[];
+      envelope: Envelope;
+      releaseAt: number; // seconds after note on
+      playback: BeatPlaybackSettings;
+      chokeAt: number; // seconds after note on
     };
 
     const beatInfos: BeatInfo[] = [];
+    const chokeHits: Map<number, number[]> = new Map(); // choke group -> start samples
     params.beats.forEach(beat => {
-      const sample = this.beatSamples.get(beat.track);
-      if (!sample || sample.type === 'silent') return;
+      const sample = this.getBeatSample(beat.track);
+      if (sample.type === 'silent') return;
       const startSec = beatPosToSeconds(beat.position);
-      const durationSec = 0.2;
+      const envelope = this.beatEnvelopes.get(beat.track) || defaultEnvelope;
+      const playback = this.beatPlayback.get(beat.track) || defaultBeatPlaybackSettings;
+      const region = this.getSampleRegion(sample);
+      const { releaseAt, length } = getBeatHitTiming(playback, this.getBeatNaturalLength(sample, region), envelope.release);
       const startSample = Math.floor(startSec * sampleRate);
-      const endSample = Math.min(totalSamples, startSample + Math.ceil(durationSec * sampleRate));
-      const gain = masterGain * (beat.velocity / 127) * 0.7;
+      const endSample = Math.min(totalSamples, startSample + Math.ceil(length * sampleRate));
+      // ミュートしたトラックの音もチョークはする（ライブ再生と同じ）
+      if (playback.chokeGroup) {
+        chokeHits.set(playback.chokeGroup, [...(chokeHits.get(playback.chokeGroup) || []), startSample]);
+      }
+      const volume = channelGain(this.mixer, 'beat', beat.track);
+      if (volume === 0) return;
+      const outputs = getOutputs('beat', beat.track);
+      const isBus = outputs !== dryOutputs;
+      const gain = (isBus ? 1 : volume) * (beat.velocity / 127) * 0.7;
+      const pan = isBus ? 0 : getChannelSettings(this.mixer, 'beat', beat.track).pan;
 
       if (sample.type === 'file' && sample.buffer instanceof AudioBuffer) {
         const srcBuf = sample.buffer;
         const srcChannels: Float32Array[] = [];
         for (let c = 0; c < srcBuf.numberOfChannels; c++) srcChannels.push(srcBuf.getChannelData(c));
-        beatInfos.push({ beat, startSample, endSample, isSine: false, sourceData: srcChannels, sourceSampleRate: srcBuf.sampleRate, gain });
+        beatInfos.push({ beat, startSample, endSample, isSine: false, sourceData: srcChannels, sourceSampleRate: srcBuf.sampleRate, region: region!, gain, pan, outputs, envelope, releaseAt, playback, chokeAt: Infinity });
+      } else if (sample.type === 'synth') {
+        const synth = createSynth(sample, this.beatSynths.get(beat.track) || defaultSynthSettings, getBeatFrequency(beat.track));
+        beatInfos.push({ beat, startSample, endSample, isSine: false, synth, gain: gain * synthLevels[sample.waveform!], pan, outputs, envelope, releaseAt, playback, chokeAt: Infinity });
       } else {
-        const frequency = beat.track === 0 ? 200 : 150;
-        beatInfos.push({ beat, startSample, endSample, isSine: true, frequency, gain });
+        const frequency = getBeatFrequency(beat.track);
+        beatInfos.push({ beat, startSample, endSample, isSine: true, frequency, gain, pan, outputs, envelope, releaseAt, playback, chokeAt: Infinity });
       }
     });
 
+    // Hits are cut off by the next hit of the same choke group
+    chokeHits.forEach(starts => starts.sort((a, b) => a - b));
+    beatInfos.forEach(bi => {
+      const starts = chokeHits.get(bi.playback.chokeGroup);
+      const next = starts?.find(start => start > bi.startSample);
+      if (next === undefined) return;
+      bi.chokeAt = (next - bi.startSample) / sampleRate;
+      bi.endSample = Math.min(bi.endSample, next + Math.ceil(chokeFadeTime * sampleRate));
+    });
+
+    // Mixes one frame into the outputs through the track's pan, as the live channel strip does
+    const mixFrame = (outputs: Float32Array[], i: number, left: number, right: number, gain: number, pan: number, automationPan: number = 0) => {
+      if (numChannels === 1) {
+        outputs[0][i] += (left + right) / 2 * gain;
+        return;
+      }
+      let [l, r] = panFrame(left, right, pan);
+      if (automationPan !== 0) [l, r] = panFrame(l, r, automationPan);
+      outputs[0][i] += l * gain;
+      outputs[1][i] += r * gain;
+    };
+
+    // Linear interpolation of a source channel
+    const readSource = (data: Float32Array, index: number, frac: number) => {
+      const s0 = data[index] || 0;
+      const s1 = data[index + 1] || 0;
+      return s0 * (1 - frac) + s1 * frac;
+    };
+
+    // Mixes a note frame through its track's automation
+    const mixNoteFrame = (ni: NoteInfo, i: number, left: number, right: number, gain: number) => {
+      if (!ni.automation) {
+        mixFrame(ni.outputs, i, left, right, gain, ni.pan);
+        return;
+      }
+      const automation = automationAt(ni.automation, i);
+      mixFrame(ni.outputs, i, left, right, gain * automation.gain, ni.pan, automation.pan);
+    };
+
     const blockSize = 16384;
     for (let blockStart = 0; blockStart < totalSamples; blockStart += blockSize) {
       const blockEnd = Math.min(totalSamples, blockStart + blockSize);
@@ -491,13 +1284,19 @@ class AudioManager {
         const sStart = Math.max(blockStart, ni.startSample);
         const sEnd = Math.min(blockEnd, ni.endSample);
 
-        if (ni.isSine) {
+        if (ni.synth) {
+          for (let i = sStart; i < sEnd; i++) {
+            const t = (i - ni.startSample) / sampleRate;
+            const val = ni.synth(bendRatioAt(ni.bend, t)) * envelopeGainAt(ni.envelope, t, ni.releaseAt);
+            mixNoteFrame(ni, i, val, val, ni.gain);
+          }
+        } else if (ni.isSine) {
           const freq = ni.frequency!;
           const dur = ni.durationSec || ((ni.endSample - ni.startSample) / sampleRate);
           for (let i = sStart; i < sEnd; i++) {
             const t = (i - ni.startSample) / sampleRate;
-            const val = Math.sin(2 * Math.PI * freq * t) * Math.exp(-t / Math.max(0.001, dur));
-            for (let ch = 0; ch < numChannels; ch++) outputs[ch][i] += val * ni.gain;
+            const val = Math.sin(2 * Math.PI * freq * ni.clock(t)) * Math.exp(-t / Math.max(0.001, dur)) * envelopeGainAt(ni.envelope, t, ni.releaseAt);
+            mixNoteFrame(ni, i, val, val, ni.gain);
           }
         } else {
           const srcRate = ni.sourceSampleRate || sampleRate;
@@ -505,17 +1304,16 @@ class AudioManager {
           const srcLen = ni.sourceData![0].length;
           for (let i = sStart; i < sEnd; i++) {
             const timeSinceStart = (i - ni.startSample) / sampleRate;
-            const srcIndex = timeSinceStart * playbackRate * srcRate;
+            const position = regionPosition(ni.region!, ni.clock(timeSinceStart) * playbackRate);
+            if (position === null) continue;
+            const srcIndex = position * srcRate;
             if (srcIndex < 0 || srcIndex >= srcLen) continue;
             const idx0 = Math.floor(srcIndex);
             const frac = srcIndex - idx0;
-            for (let ch = 0; ch < numChannels; ch++) {
-              const srcCh = ni.sourceData![Math.min(ch, ni.sourceData!.length - 1)];
-              const s0 = srcCh[idx0] || 0;
-              const s1 = srcCh[idx0 + 1] || 0;
-              const val = s0 * (1 - frac) + s1 * frac;
-              outputs[ch][i] += val * ni.gain;
-            }
+            const envelopeGain = envelopeGainAt(ni.envelope, timeSinceStart, ni.releaseAt);
+            const left = readSource(ni.sourceData![0], idx0, frac);
+            const right = ni.sourceData!.length > 1 ? readSource(ni.sourceData![1], idx0, frac) : left;
+            mixNoteFrame(ni, i, left, right, ni.gain * envelopeGain);
           }
         }
       }
@@ -526,30 +1324,34 @@ class AudioManager {
         const sStart = Math.max(blockStart, bi.startSample);
         const sEnd = Math.min(blockEnd, bi.endSample);
 
-        if (bi.isSine) {
+        if (bi.synth) {
+          for (let i = sStart; i < sEnd; i++) {
+            const t = (i - bi.startSample) / sampleRate;
+            const val = bi.synth() * envelopeGainAt(bi.envelope, t, bi.releaseAt) * beatHitGainAt(bi.playback, t, bi.chokeAt);
+            mixFrame(bi.outputs, i, val, val, bi.gain, bi.pan);
+          }
+        } else if (bi.isSine) {
           const freq = bi.frequency!;
-          const dur = (bi.endSample - bi.startSample) / sampleRate;
           for (let i = sStart; i < sEnd; i++) {
             const t = (i - bi.startSample) / sampleRate;
-            const val = Math.sin(2 * Math.PI * freq * t) * Math.exp(-t / Math.max(0.001, dur));
-            for (let ch = 0; ch < numChannels; ch++) outputs[ch][i] += val * bi.gain;
+            const val = Math.sin(2 * Math.PI * freq * t) * Math.exp(-t / sineBeatDecay) * envelopeGainAt(bi.envelope, t, bi.releaseAt) * beatHitGainAt(bi.playback, t, bi.chokeAt);
+            mixFrame(bi.outputs, i, val, val, bi.gain, bi.pan);
           }
         } else {
           const srcRate = bi.sourceSampleRate || sampleRate;
           const srcLen = bi.sourceData![0].length;
           for (let i = sStart; i < sEnd; i++) {
             const timeSinceStart = (i - bi.startSample) / sampleRate;
-            const srcIndex = timeSinceStart * srcRate;
+            const position = regionPosition(bi.region!, timeSinceStart);
+            if (position === null) continue;
+            const srcIndex = position * srcRate;
             if (srcIndex < 0 || srcIndex >= srcLen) continue;
             const idx0 = Math.floor(srcIndex);
             const frac = srcIndex - idx0;
-            for (let ch = 0; ch < numChannels; ch++) {
-              const srcCh = bi.sourceData![Math.min(ch, bi.sourceData!.length - 1)];
-              const s0 = srcCh[idx0] || 0;
-              const s1 = srcCh[idx0 + 1] || 0;
-              const val = s0 * (1 - frac) + s1 * frac;
-              outputs[ch][i] += val * bi.gain;
-            }
+            const envelopeGain = envelopeGainAt(bi.envelope, timeSinceStart, bi.releaseAt) * beatHitGainAt(bi.playback, timeSinceStart, bi.chokeAt);
+            const left = readSource(bi.sourceData![0], idx0, frac);
+            const right = bi.sourceData!.length > 1 ? readSource(bi.sourceData![1], idx0, frac) : left;
+            mixFrame(bi.outputs, i, left, right, bi.gain * envelopeGain, bi.pan);
           }
         }
       }
@@ -561,12 +1363,49 @@ class AudioManager {
       await new Promise(resolve => setTimeout(resolve, 0));
     }
 
-    // Create AudioBuffer and copy outputs
-    const audioBuffer = new AudioBuffer({ length: totalSamples, numberOfChannels: numChannels, sampleRate });
-    for (let ch = 0; ch < numChannels; ch++) {
-      audioBuffer.getChannelData(ch).set(outputs[ch]);
+    if (buses.size === 0 && chainLayout(this.effects.master) === '') {
+      dryOutputs.forEach(output => {
+        for (let i = 0; i < output.length; i++) output[i] *= masterGain;
+      });
+      return dryBuffer;
     }
-    return audioBuffer;
+
+    // Run the effect chains through the same nodes as live playback
+    const offline = new OfflineAudioContext({ numberOfChannels: numChannels, length: totalSamples, sampleRate });
+    const master = offline.createGain();
+    master.gain.value = masterGain;
+    connectEffectChain(offline, this.effects.master, master, offline.destination);
+
+    const drySource = offline.createBufferSource();
+    drySource.buffer = dryBuffer;
+    drySource.connect(master);
+    drySource.start();
+
+    buses.forEach(bus => {
+      const source = offline.createBufferSource();
+      source.buffer = bus.buffer;
+      const volume = offline.createGain();
+      volume.gain.value = channelGain(this.mixer, bus.kind, bus.track);
+      const panner = offline.createStereoPanner();
+      panner.pan.value = getChannelSettings(this.mixer, bus.kind, bus.track).pan;
+      const automationGain = offline.createGain();
+      const automationPanner = offline.createStereoPanner();
+      if (bus.kind === 'melody') {
+        channelAutomation.get(bus.track)?.forEach(change => {
+          const time = Math.max(0, change.sample / sampleRate);
+          automationGain.gain.setValueAtTime(change.gain, time);
+          automationPanner.pan.setValueAtTime(change.pan, time);
+        });
+      }
+      connectEffectChain(offline, this.effects[bus.kind].get(bus.track) || [], source, volume);
+      volume.connect(panner);
+      panner.connect(automationGain);
+      automationGain.connect(automationPanner);
+      automationPanner.connect(master);
+      source.start();
+    });
+
+    return offline.startRendering();
   }
 }
 
@@ -577,6 +1416,12 @@ class Sequencer {
   private static readonly minGridScale = 0.5;
   private static readonly maxGridScale = 3;
   private static readonly gridScaleSnapThreshold = 0.06;
+  private static readonly scheduleAheadTime = 0.1; // seconds
+  private static readonly prepareAheadTime = 2; // seconds, stretched samples are made this far ahead
+  private static readonly editorParts: Array<keyof ProjectSnapshot> = ['notes', 'beats', 'patterns', 'automation']; // what the piano roll, rhythm grid and automation lane edit
+  private static readonly schedulerInterval = 25; // milliseconds
+  private static readonly automationStep = 1 / 16; // beats per drawn automation point
+  private static readonly tempoRampStep = 1 / 4; // beats per tempo change when a ramp is exported to MIDI
   private audioManager: AudioManager;
   private viewPort: {
     startBeat: number | null;
@@ -590,36 +1435,85 @@ class Sequencer {
     endPitch: null
   }
   private title: string = '';
-  private notes: Note[] = [];
-  private beats: Beat[] = [];
+  private songNotes: Note[] = [];
+  private songBeats: Beat[] = [];
+  private patterns: Pattern<Note, Beat>[] = [];
+  private clips: Clip[] = []; // pattern instances on the song timeline
+  private editingPattern: string | null = null; // pattern id shown in the editor, null for the song
+  private clipPattern: string | null = null; // pattern placed by clicking the arrangement lane
   private files: AudioFile[] = [];
   private filenames: Filenames = {
     melody: new Map(),
-    beat1: null,
-    beat2: null
+    beat: new Map()
   };
+  private drumLanes: DrumLane[] = createDefaultDrumLanes();
   private instrumentCodes: InstrumentCodes = {};
+  private instruments: Instrument[] = [];
+  private editingInstrumentId: string | null = null;
+  private envelopes: { melody: Map<number, Envelope>; beat: Map<number, Envelope> } = {
+    melody: new Map(), // melody track -> envelope
+    beat: new Map() // beat track -> envelope
+  };
+  private synths: { melody: Map<number, SynthSettings>; beat: Map<number, SynthSettings> } = {
+    melody: new Map(), // melody track -> synth settings
+    beat: new Map() // beat track -> synth settings
+  };
+  private stretch: Map<number, StretchSettings> = new Map(); // melody track -> time-stretch mode
+  private beatPlayback: Map<number, BeatPlaybackSettings> = new Map(); // beat track -> hit length and choke group
+  private trackSettingsTarget: SoundAssignmentTarget = { track: 'melody', melodyTrack: 0 };
+  private sampleEditor: { filename: string; buffer: AudioBuffer | null } = { filename: '', buffer: null };
+  private mixer: MixerSettings = createMixerSettings();
+  private effects: EffectSettings = createEffectSettings();
+  private effectsTarget: { kind: ChannelKind; track: number } | 'master' = 'master';
+  private limiter: LimiterSettings = { ...defaultLimiterSettings };
+  private normalize: NormalizeSettings = { ...defaultNormalizeSettings }; // loudness normalization on WAV export
+  private exportWorker: Worker | null = null;
   private currentTrack: number = 0;
   private bpm: number = 120;
   private bpms: Map<number, number> = new Map(); // beat position -> bpm
+  private tempoRamps: Set<number> = new Set(); // beat positions in bpms whose tempo ramps linearly to the next change
+  private timeSignatures: Map<number, TimeSignature> = new Map(); // beat position -> time signature
+  private loopRegion: { start: number; end: number } | null = null; // beat positions, the whole song loops without it
   private playbackSpeed: number = 1; // 0.5x, 1x, 2x
   private ignoreNoteValue: boolean = false;
   private quantization: number = 0.5; // in beats
+  private metronome: boolean = false;
+  private countIn: number = 0; // bars clicked before playback starts
+  private scale: ScaleSettings = { ...defaultScaleSettings };
+  private groove: GrooveSettings = { ...defaultGrooveSettings };
+  private grooves: GrooveTemplate[] = []; // grooves captured from MIDI files
+  private automation: Map<number, AutomationLanes> = new Map(); // melody track -> controller and pitch-bend lanes
+  private automationParam: AutomationParam = 'volume'; // lane shown under the piano roll
+  private velocityLane: 'notes' | number | null = null; // velocities shown in the lane instead: notes of the current track or a drum lane track
   private defaultNoteLength: number = 1;
   private paused: boolean = true;
   private ended: boolean = true;
   private gridSize: number = 128; // 128 beats
   private visibleNoteElements: Map<string, HTMLElement> = new Map(); // noteId -> element
   private saveTimeout: number | null = null;
-  private bpmChanged: { time: number; beat: number; } = {
-    time: 0,
-    beat: 0
+  private history: History<ProjectSnapshot> = createHistory();
+  private historyParts: Map<keyof ProjectSnapshot, { text: string; value: unknown }> = new Map(); // current step, serialized and copied part by part
+  private dirtyParts: Set<keyof ProjectSnapshot> | 'all' = 'all'; // parts that may have changed since the last step
+  private historyFiles: Set<string> = new Set(); // names of the files saved for the history
+  private restoringHistory: boolean = false;
+  private pointerEditing: boolean = false; // a drag is recorded as one step when the pointer is released
+  private playbackEvents: PlaybackEvents | null = null;
+  private transport: {
+    segments: TempoSegment[];
+    anchors: Array<{ time: number; beat: number }>; // audio clock time -> beat position
+    scheduledUntil: number; // beat position up to which notes have been scheduled
+  } = {
+    segments: [],
+    anchors: [],
+    scheduledUntil: 0
   };
+  private schedulerWorker: Worker | null = null;
   private currentBeat: number = 0;
   private playedNotes: Set<string> = new Set();
   private autoScroll: boolean = true;
   private selectedNotes: Set<string> = new Set();
   private isRectangleSelecting: boolean = false;
+  private pointerBeat: number | null = null; // beat position under the pointer on the grids, where pastes land
   private selectionStartX: number = 0;
   private selectionStartY: number = 0;
   private multiTouched: boolean = false; // true when 2+ touch points are active
@@ -635,6 +1529,27 @@ class Sequencer {
   private gridScaleY: number = 1;
   private activeBulkSoundTarget: SoundAssignmentTarget = { track: 'melody', melodyTrack: 0 };
 
+  // エディタで編集中のノートとビート（パターンを開いているときはそのパターンの中身）
+  private get notes() {
+    return getPattern(this.patterns, this.editingPattern)?.notes ?? this.songNotes;
+  }
+
+  private set notes(notes: Note[]) {
+    const pattern = getPattern(this.patterns, this.editingPattern);
+    if (pattern) pattern.notes = notes; else this.songNotes = notes;
+    this.invalidatePlayback();
+  }
+
+  private get beats() {
+    return getPattern(this.patterns, this.editingPattern)?.beats ?? this.songBeats;
+  }
+
+  private set beats(beats: Beat[]) {
+    const pattern = getPattern(this.patterns, this.editingPattern);
+    if (pattern) pattern.beats = beats; else this.songBeats = beats;
+    this.invalidatePlayback();
+  }
+
   private get noteWidth() {
     return Sequencer.baseNoteWidth * this.gridScaleX;
   }
@@ -708,11 +1623,24 @@ class Sequencer {
 
   constructor() {
     this.audioManager = new AudioManager();
+    this.audioManager.setEnvelopes(this.envelopes.melody, this.envelopes.beat);
+    this.audioManager.setSynthSettings(this.synths.melody, this.synths.beat);
+    this.audioManager.setStretchSettings(this.stretch);
+    this.audioManager.setBeatPlaybackSettings(this.beatPlayback);
+    this.audioManager.setMixer(this.mixer);
+    this.audioManager.setEffects(this.effects);
+    this.audioManager.setLimiter(this.limiter);
 
     this.setupEventListeners();
     this.setupDragAndDrop();
     this.initializePianoRoll();
     this.initializeRhythmSection();
+    this.setupClipboard();
+    this.setupTempoLane();
+    this.setupLoopRuler();
+    this.setupPatterns();
+    this.setupAutomationLane();
+    this.setupVelocityLane();
     this.setupNoteDragResize();
     this.setupTrackScrolling();
     this.updateViewPort();
@@ -721,6 +1649,14 @@ class Sequencer {
 
   private setupEventListeners() {
     this.setupBulkSoundDialog();
+    this.setupInstrumentDialog();
+    this.setupTrackSettingsDialog();
+    this.setupSampleEditorDialog();
+    this.setupMixerDialog();
+    this.setupExportDialog();
+    this.setupTransformDialog();
+    this.setupScaleControls();
+    this.setupEffectsDialog();
 
     document.getElementById('title-input')?.addEventListener('input', (e) => {
       this.title = (e.target as HTMLInputElement).value.trim();
@@ -743,11 +1679,45 @@ class Sequencer {
     document.addEventListener('pointerdown', (e) => {
       if (!e.isPrimary || e.button !== 0) return;
       window.clearTimeout(this.saveTimeout!);
+      // ノートやビート、オートメーションの編集はドラッグを終えるまで記録しない
+      this.pointerEditing = !!(e.target as HTMLElement).closest('.piano-roll-grid, .rhythm-tracks, .automation-lane');
     });
 
+    // ドラッグ中の変更は離したときにまとめて一段にする
+    const endPointerEditing = () => {
+      if (!this.pointerEditing) return;
+      this.pointerEditing = false;
+      this.recordHistory();
+    };
     document.addEventListener('pointerup', (e) => {
-      if (!e.isPrimary || e.button !== 0) return; // 左クリックのみ
-      this.saveTimeout = window.setTimeout(() => this.saveData(), 1000);
+      if (!e.isPrimary) return;
+      // エディタでの編集ならその部分だけを履歴と比べる
+      const parts = this.pointerEditing ? Sequencer.editorParts : undefined;
+      if (parts) this.markHistoryParts(parts);
+      endPointerEditing();
+      // ドラッグで変えたノートやオートメーションをこの先の予約に使う
+      this.invalidatePlayback();
+      if (e.button !== 0) return; // 左クリックのみ
+      this.saveTimeout = window.setTimeout(() => this.saveData(parts), 1000);
+    });
+    document.addEventListener('pointercancel', (e) => {
+      if (!e.isPrimary) return;
+      endPointerEditing();
+    });
+
+    // Undo / redo (text fields keep their own undo)
+    document.getElementById('undo-btn')?.addEventListener('click', () => this.undo());
+    document.getElementById('redo-btn')?.addEventListener('click', () => this.redo());
+    document.addEventListener('keydown', (e) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).closest('input[type="text"], input[type="number"], textarea')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        this.undo();
+      } else if (key === 'z' && e.shiftKey || key === 'y') {
+        e.preventDefault();
+        this.redo();
+      }
     });
 
     const sequencerContainer = document.querySelector('.sequencer-container') as HTMLElement;
@@ -769,14 +1739,14 @@ class Sequencer {
         const newBpm = minmax(input.valueAsNumber, input.min ? parseInt(input.min) : 60, input.max ? parseInt(input.max) : 300);
         const currentBpmBeat = this.getCurrentBpm(this.currentBeat).beat;
 
-        // 再生中の場合、現在のビート位置を記録してからBPMを変更
-        if (!this.paused) {
-          this.recordBpmChanged();
-        }
-        if (currentBpmBeat !== null) {
-          this.bpms.set(currentBpmBeat, newBpm);
-        }
-        this.bpm = newBpm;
+        // 再生中の場合、現在のビート位置を保ったままBPMを変更
+        this.changeTempo(() => {
+          if (currentBpmBeat !== null) {
+            this.bpms.set(currentBpmBeat, newBpm);
+          }
+          this.bpm = newBpm;
+        });
+        this.renderTempoLane();
 
         if (element === bpmSlider) {
           if (bpmValue) bpmValue.valueAsNumber = newBpm;
@@ -798,6 +1768,7 @@ class Sequencer {
     const menuContent = document.querySelector('.menu-content') as HTMLElement;
     menuBtn.addEventListener('click', () => {
       menu.classList.toggle('is-open');
+      this.renderTimeSignatureControls();
     });
     document.addEventListener('click', (e) => {
       if (menuContent.contains(e.target as Node) && (e.target as Element).tagName === 'BUTTON'
@@ -813,20 +1784,67 @@ class Sequencer {
     speedSelect?.addEventListener('change', (e) => {
       const newPlaybackSpeed = parseFloat((e.target as HTMLSelectElement).value);
       
-      // 再生中の場合、現在のビート位置を記録してから再生速度を変更
-      if (!this.paused) {
-        this.recordBpmChanged();
-      }
-      this.playbackSpeed = newPlaybackSpeed;
+      // 再生中の場合、現在のビート位置を保ったまま再生速度を変更
+      this.changeTempo(() => {
+        this.playbackSpeed = newPlaybackSpeed;
+      });
+    });
+    document.getElementById('metronome-toggle')?.addEventListener('change', (e) => {
+      this.metronome = (e.target as HTMLInputElement).checked;
+      this.saveData(['metronome']);
+    });
+    const numeratorInput = document.getElementById('time-signature-numerator') as HTMLInputElement;
+    const denominatorSelect = document.getElementById('time-signature-denominator') as HTMLSelectElement;
+    [numeratorInput, denominatorSelect].forEach(element => {
+      element?.addEventListener('change', () => {
+        if (!numeratorInput.value || !numeratorInput.checkValidity()) {
+          this.renderTimeSignatureControls();
+          return;
+        }
+        this.setTimeSignature({ numerator: numeratorInput.valueAsNumber, denominator: parseInt(denominatorSelect.value) });
+      });
+    });
+    document.getElementById('remove-time-signature-btn')?.addEventListener('click', () => {
+      const { start } = barAt(buildMeterSegments(this.timeSignatures), this.currentBeat);
+      this.timeSignatures.delete(start);
+      this.timeSignaturesChanged();
+    });
+    document.getElementById('insert-bar-btn')?.addEventListener('click', () => this.changeBars('insert'));
+    document.getElementById('delete-bar-btn')?.addEventListener('click', () => this.changeBars('delete'));
+    document.getElementById('count-in-select')?.addEventListener('change', (e) => {
+      this.countIn = parseInt((e.target as HTMLSelectElement).value);
+      this.saveData(['countIn']);
     });
     const quantizationSelect = document.getElementById('quantization-select') as HTMLSelectElement;
     quantizationSelect?.addEventListener('change', (e) => {
       const newQuantization = parseFloat((e.target as HTMLSelectElement).value);
       this.quantization = newQuantization;
+      this.invalidatePlayback();
       document.querySelectorAll('.beat').forEach(beat => beat.remove());
       this.createBeats();
       this.beats.forEach(beat => this.renderBeat(beat));
     });
+    document.getElementById('groove-select')?.addEventListener('change', (e) => {
+      this.groove.template = (e.target as HTMLSelectElement).value;
+      this.grooveChanged();
+    });
+    document.getElementById('groove-amount-range')?.addEventListener('input', (e) => {
+      this.groove.amount = (e.target as HTMLInputElement).valueAsNumber;
+      this.grooveChanged();
+    });
+    document.getElementById('import-groove-btn')?.addEventListener('click', () => {
+      this.importGroove();
+    });
+    document.getElementById('delete-groove-btn')?.addEventListener('click', () => {
+      const groove = this.grooves.find(groove => groove.id === this.groove.template);
+      if (!groove || !confirm(i18next.t('confirm_delete_groove', { name: groove.name }))) {
+        return;
+      }
+      this.grooves = this.grooves.filter(item => item !== groove);
+      this.groove.template = defaultGrooveSettings.template;
+      this.grooveChanged();
+    });
+    this.renderGrooveControls();
     const widthScaleRange = document.getElementById('width-scale-range') as HTMLInputElement | null;
     const heightScaleRange = document.getElementById('height-scale-range') as HTMLInputElement | null;
     if (widthScaleRange && heightScaleRange) {
@@ -847,73 +1865,12 @@ class Sequencer {
     const ignoreNoteValueToggle = document.getElementById('ignore-note-value-toggle') as HTMLInputElement;
     ignoreNoteValueToggle?.addEventListener('change', (e) => {
       this.ignoreNoteValue = (e.target as HTMLInputElement).checked;
-      this.saveData();
+      this.saveData(['ignoreNoteValue']);
     });
 
     // Audio file inputs
-    const soundButtonsContainers = document.querySelectorAll('.sound');
-    soundButtonsContainers.forEach(container => {
-      const track = (container as HTMLElement).dataset.track as SoundTrackKey;
-      const soundSelect = container.querySelector('.sound-select') as HTMLSelectElement;
-      const removeSoundBtn = container.querySelector('.remove-sound') as HTMLButtonElement;
-      const addSoundBtn = container.querySelector('.add-sound') as HTMLButtonElement;
-      const soundPreview = (filename: string) => {
-        const noteId = `preview-sound-select-${Date.now()}`
-        const note: Note = {
-          id: noteId,
-          track: this.currentTrack,
-          pitch: 60, // C4
-          start: 0,
-          length: this.defaultNoteLength,
-          velocity: 100
-        };
-        this.audioManager.playNotePreview(note, filename, this.bpm * this.playbackSpeed, noteId);
-      };
-      soundSelect.addEventListener('change', async (e) => {
-        const value = (e.target as HTMLSelectElement).value;
-        if (value === 'sine') {
-          // 正弦波を選択
-          await this.setSine(track);
-          if (this.paused) soundPreview('sine');
-        } else if (value === 'silent') {
-          await this.setAudio(track, null, value);
-        } else {
-          // 既存の音源ファイルを選択
-          const filename = value;
-          const file = this.files.find(f => f.file.name === filename)?.file || null;
-          await this.setAudio(track, file, filename);
-          if (this.paused) soundPreview(filename);
-        }
-      });
-
-      removeSoundBtn.addEventListener('click', async () => {
-        const filename = soundSelect.value;
-        if (filename === 'sine' || filename === 'silent') return;
-        if (filename && confirm(i18next.t('confirm_remove_sound_file', { filename: filenameToName(filename) }))) {
-          this.removeAudioFile(filename);
-        }
-      });
-
-      addSoundBtn.addEventListener('click', async () => {
-        const files = await this.selectAudioFiles();
-        if (!files || files.length === 0) {
-          this.syncMainSoundControls();
-          return;
-        }
-        const isAudio = Array.from(files).every(file => file.type.startsWith('audio/'));
-        if (!isAudio) {
-          alert(i18next.t('error_not_audio_file'));
-          return;
-        }
-        [...files].forEach(file => {
-          const pitchShift = this.extractPitchShiftFromFilename(file.name);
-          this.addAudioFile(file, pitchShift);
-        });
-        const file = files[0];
-        await this.setAudio(track, file, file.name);
-        if (this.paused) soundPreview(file.name);
-      });
-    });
+    const melodySoundContainer = document.querySelector('.sound[data-track="melody"]') as HTMLElement | null;
+    if (melodySoundContainer) this.setupSoundContainer(melodySoundContainer, 'melody');
 
     let currentPreviewId: string | null = null;
     document.getElementById('melody-pitch-shift')?.addEventListener('input', (e) => {
@@ -924,6 +1881,7 @@ class Sequencer {
         audioFile.pitchShift = pitchShift;
       }
       this.audioManager.setMelodyPitchShift(filename, pitchShift);
+      this.updateDetectedPitch(audioFile);
 
       if (!this.paused) return;
 
@@ -942,6 +1900,15 @@ class Sequencer {
       };
       this.audioManager.playNotePreview(note, filename, this.bpm * this.playbackSpeed, currentPreviewId);
     });
+    document.getElementById('apply-detected-pitch-btn')?.addEventListener('click', () => {
+      const filename = this.filenames.melody.get(this.currentTrack) || 'sine';
+      const detected = this.files.find(f => f.file.name === filename)?.detectedPitch;
+      const pitchShiftInput = document.getElementById('melody-pitch-shift') as HTMLInputElement | null;
+      if (!detected || !pitchShiftInput) return;
+      pitchShiftInput.valueAsNumber = pitchShiftToC4(detected.midi);
+      pitchShiftInput.dispatchEvent(new Event('input'));
+      this.saveData();
+    });
 
     const rolls = document.querySelector('.rolls') as HTMLElement;
     document.getElementById('app')!.style.setProperty('--scrollbar-width', `${rolls.offsetHeight - rolls.clientHeight}px`);
@@ -1101,8 +2068,8 @@ class Sequencer {
       this.exportMidi();
     });
 
-    document.getElementById('export-wav-btn')?.addEventListener('click', async () => {
-      await this.exportWav();
+    document.getElementById('export-wav-btn')?.addEventListener('click', () => {
+      this.openExportDialog();
     });
 
     if ('mediaSession' in navigator) {
@@ -1120,6 +2087,77 @@ class Sequencer {
     }
   }
 
+  // 音源欄（メロディとドラムレーン）の操作。beatTrack はドラムレーンのときだけ渡す
+  private setupSoundContainer(container: HTMLElement, track: SoundTrackKey, beatTrack?: number) {
+    const soundSelect = container.querySelector('.sound-select') as HTMLSelectElement;
+    const removeSoundBtn = container.querySelector('.remove-sound') as HTMLButtonElement;
+    const addSoundBtn = container.querySelector('.add-sound') as HTMLButtonElement;
+    const soundPreview = (filename: string) => {
+      const noteId = `preview-sound-select-${Date.now()}`
+      const note: Note = {
+        id: noteId,
+        track: this.currentTrack,
+        pitch: 60, // C4
+        start: 0,
+        length: this.defaultNoteLength,
+        velocity: 100
+      };
+      this.audioManager.playNotePreview(note, filename, this.bpm * this.playbackSpeed, noteId);
+    };
+    soundSelect.addEventListener('change', async (e) => {
+      const value = (e.target as HTMLSelectElement).value;
+      if (value === 'sine') {
+        // 正弦波を選択
+        await this.setSine(track, beatTrack);
+        if (this.paused) soundPreview('sine');
+      } else if (value === 'silent') {
+        await this.setAudio(track, null, value, beatTrack);
+      } else {
+        // 既存の音源ファイルを選択
+        const filename = value;
+        const file = this.files.find(f => f.file.name === filename)?.file || null;
+        await this.setAudio(track, file, filename, beatTrack);
+        if (this.paused) soundPreview(filename);
+      }
+    });
+
+    removeSoundBtn.addEventListener('click', async () => {
+      const filename = soundSelect.value;
+      if (isBuiltInSound(filename)) return;
+      if (this.getInstrument(filename)) {
+        this.confirmDeleteInstrument(filename);
+      } else if (filename && confirm(i18next.t('confirm_remove_sound_file', { filename: filenameToName(filename) }))) {
+        this.removeAudioFile(filename);
+      }
+    });
+
+    addSoundBtn.addEventListener('click', async () => {
+      const files = await this.selectAudioFiles();
+      if (!files || files.length === 0) {
+        this.syncMainSoundControls();
+        return;
+      }
+      const isAudio = Array.from(files).every(file => file.type.startsWith('audio/'));
+      if (!isAudio) {
+        alert(i18next.t('error_not_audio_file'));
+        return;
+      }
+      const instruments = this.addAudioFiles([...files]);
+      if (track === 'melody' && instruments.length > 0) {
+        await this.setAudio(track, null, instruments[0].id);
+        if (this.paused) soundPreview(instruments[0].id);
+        return;
+      }
+      const file = files[0];
+      await this.setAudio(track, file, file.name, beatTrack);
+      if (this.paused) soundPreview(file.name);
+    });
+
+    container.querySelector('.track-settings')?.addEventListener('click', () => {
+      this.openTrackSettingsDialog(track === 'melody' ? { track, melodyTrack: this.currentTrack } : { track, beatTrack });
+    });
+  }
+
   private setupBulkSoundDialog() {
     const dialog = document.getElementById('sound-sources-dialog') as HTMLDialogElement | null;
     const melodyGrid = document.getElementById('sound-sources-melody') as HTMLDivElement | null;
@@ -1133,8 +2171,11 @@ class Sequencer {
       melodyGrid.appendChild(row);
     }
 
-    beatGrid.appendChild(this.createBulkSoundRow('B1.', { track: 'beat1' }, false));
-    beatGrid.appendChild(this.createBulkSoundRow('B2.', { track: 'beat2' }, false));
+    document.getElementById('drum-lane-add-btn')?.addEventListener('click', () => {
+      this.drumLanes.push(createDrumLane(this.drumLanes));
+      this.renderDrumLanes();
+      this.saveData();
+    });
 
     document.getElementById('sound-sources-settings-btn')?.addEventListener('click', () => {
       this.syncBulkSoundDialog();
@@ -1157,204 +2198,1149 @@ class Sequencer {
         alert(i18next.t('error_not_audio_file'));
         return;
       }
-      [...files].forEach(file => {
-        const pitchShift = this.extractPitchShiftFromFilename(file.name);
-        this.addAudioFile(file, pitchShift);
-      });
+      const instruments = this.addAudioFiles([...files]);
+      if (this.activeBulkSoundTarget.track === 'melody' && instruments.length > 0) {
+        await this.setAudio('melody', null, instruments[0].id, this.activeBulkSoundTarget.melodyTrack);
+        return;
+      }
       const file = files[0];
-      await this.setAudio(this.activeBulkSoundTarget.track, file, file.name, this.activeBulkSoundTarget.melodyTrack);
+      await this.setAudio(this.activeBulkSoundTarget.track, file, file.name, this.getTargetTrackNumber(this.activeBulkSoundTarget));
     });
 
     this.syncBulkSoundDialog();
   }
 
-  private createBulkSoundRow(indexLabel: string, target: SoundAssignmentTarget, showInstrument: boolean) {
-    const row = document.createElement('div');
-    row.className = 'sound-sources-row';
-    row.dataset.track = target.track;
-    if (typeof target.melodyTrack === 'number') {
-      row.dataset.melodyTrack = target.melodyTrack.toString();
+  private setupTrackSettingsDialog() {
+    const dialog = document.getElementById('track-settings-dialog') as HTMLDialogElement | null;
+    if (!dialog) {
+      return;
     }
 
-    const index = document.createElement('span');
-    index.className = 'sound-sources-index';
-    index.textContent = indexLabel;
+    const envelopeKeys = ['attack', 'decay', 'sustain', 'release'] as const;
+    envelopeKeys.forEach(key => {
+      const input = document.getElementById(`envelope-${key}`) as HTMLInputElement | null;
+      input?.addEventListener('input', () => {
+        const envelope = { ...this.getEnvelope(this.trackSettingsTarget), [key]: input.valueAsNumber };
+        this.setEnvelope(this.trackSettingsTarget, envelope);
+        this.renderTrackSettingsDialog();
+      });
+      input?.addEventListener('change', () => {
+        this.saveData();
+      });
+    });
+    document.getElementById('envelope-reset-btn')?.addEventListener('click', () => {
+      this.setEnvelope(this.trackSettingsTarget, { ...defaultEnvelope });
+      this.renderTrackSettingsDialog();
+      this.saveData();
+    });
 
-    const control = document.createElement('div');
-    control.className = 'sound-sources-control';
+    const synthInputs = {
+      detune: (value: number) => value,
+      cutoff: (value: number) => Math.round(Math.pow(2, value)),
+      resonance: (value: number) => value,
+      fmRatio: (value: number) => value,
+      fmIndex: (value: number) => value,
+    };
+    (Object.keys(synthInputs) as Array<keyof typeof synthInputs>).forEach(key => {
+      const input = document.getElementById(`synth-${this.toKebabCase(key)}`) as HTMLInputElement | null;
+      input?.addEventListener('input', () => {
+        const settings = { ...this.getSynthSettings(this.trackSettingsTarget), [key]: synthInputs[key](input.valueAsNumber) };
+        this.setSynthSettings(this.trackSettingsTarget, settings);
+        this.renderTrackSettingsDialog();
+      });
+      input?.addEventListener('change', () => {
+        this.saveData();
+      });
+    });
+    const filterTypeSelect = document.getElementById('synth-filter-type') as HTMLSelectElement | null;
+    filterTypeSelect?.addEventListener('change', () => {
+      const filterType = filterTypeSelect.value as SynthSettings['filterType'];
+      if (!synthFilterTypes.includes(filterType)) return;
+      this.setSynthSettings(this.trackSettingsTarget, { ...this.getSynthSettings(this.trackSettingsTarget), filterType });
+      this.saveData();
+    });
+    document.getElementById('synth-reset-btn')?.addEventListener('click', () => {
+      this.setSynthSettings(this.trackSettingsTarget, { ...defaultSynthSettings });
+      this.renderTrackSettingsDialog();
+      this.saveData();
+    });
 
-    const selectLabel = document.createElement('label');
-    selectLabel.className = 'sound-select-label';
+    const stretchKeys = ['enabled', 'repitch'] as const;
+    stretchKeys.forEach(key => {
+      const checkbox = document.getElementById(`stretch-${key}`) as HTMLInputElement | null;
+      checkbox?.addEventListener('change', () => {
+        const melodyTrack = this.trackSettingsTarget.melodyTrack ?? this.currentTrack;
+        const settings = { ...(this.stretch.get(melodyTrack) || defaultStretchSettings), [key]: checkbox.checked };
+        this.stretch.set(melodyTrack, settings);
+        this.renderTrackSettingsDialog();
+        this.saveData();
+      });
+    });
 
-    const select = document.createElement('select');
-    select.className = 'sound-select';
-    this.cloneBaseSoundOptions().forEach(option => {
-      select.appendChild(option);
+    const playbackModeSelect = document.getElementById('beat-playback-mode') as HTMLSelectElement | null;
+    playbackModeSelect?.addEventListener('change', () => {
+      const mode = playbackModeSelect.value as BeatPlaybackSettings['mode'];
+      if (!beatPlaybackModes.includes(mode)) return;
+      this.setBeatPlaybackSettings(this.trackSettingsTarget, { ...this.getBeatPlaybackSettings(this.trackSettingsTarget), mode });
+      this.renderTrackSettingsDialog();
+      this.saveData();
+    });
+    const playbackKeys = ['gate', 'decay'] as const;
+    playbackKeys.forEach(key => {
+      const input = document.getElementById(`beat-playback-${key}`) as HTMLInputElement | null;
+      input?.addEventListener('input', () => {
+        this.setBeatPlaybackSettings(this.trackSettingsTarget, { ...this.getBeatPlaybackSettings(this.trackSettingsTarget), [key]: input.valueAsNumber });
+        this.renderTrackSettingsDialog();
+      });
+      input?.addEventListener('change', () => {
+        this.saveData();
+      });
+    });
+    const chokeGroupSelect = document.getElementById('beat-playback-choke-group') as HTMLSelectElement | null;
+    chokeGroupSelect?.addEventListener('change', () => {
+      this.setBeatPlaybackSettings(this.trackSettingsTarget, { ...this.getBeatPlaybackSettings(this.trackSettingsTarget), chokeGroup: Number(chokeGroupSelect.value) });
+      this.saveData();
+    });
+    document.getElementById('beat-playback-reset-btn')?.addEventListener('click', () => {
+      this.setBeatPlaybackSettings(this.trackSettingsTarget, { ...defaultBeatPlaybackSettings });
+      this.renderTrackSettingsDialog();
+      this.saveData();
     });
+  }
 
-    const removeButton = document.createElement('button');
-    removeButton.type = 'button';
-    removeButton.className = 'remove-sound material-icons danger';
-    removeButton.textContent = 'delete';
+  private openTrackSettingsDialog(target: SoundAssignmentTarget) {
+    const dialog = document.getElementById('track-settings-dialog') as HTMLDialogElement | null;
+    if (!dialog) {
+      return;
+    }
+    this.trackSettingsTarget = target;
+    this.renderTrackSettingsDialog();
+    dialog.showModal();
+  }
 
-    const instrumentName = document.createElement('output');
-    instrumentName.className = 'bulk-instrument-name';
-    instrumentName.hidden = !showInstrument;
+  private toKebabCase(key: string) {
+    return key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+  }
 
-    selectLabel.appendChild(select);
-    selectLabel.appendChild(removeButton);
-    control.appendChild(selectLabel);
-    control.appendChild(instrumentName);
-    row.appendChild(index);
-    row.appendChild(control);
-    select.addEventListener('change', async () => {
-      const filename = select.value;
-      await this.setAudio(target.track, this.getAudioFile(filename), filename, target.melodyTrack);
-      const soundPreview = (filename: string) => {
-        const noteId = `preview-sound-select-${Date.now()}`
-        const note: Note = {
-          id: noteId,
-          track: this.currentTrack,
-          pitch: 60, // C4
-          start: 0,
-          length: this.defaultNoteLength,
-          velocity: 100
-        };
-        this.audioManager.playNotePreview(note, filename, this.bpm * this.playbackSpeed, noteId);
-      };
-      if (this.paused) soundPreview(filename);
+  private renderTrackSettingsDialog() {
+    const target = this.trackSettingsTarget;
+    const title = document.getElementById('track-settings-title') as HTMLElement | null;
+    if (title) {
+      title.textContent = target.track === 'melody'
+        ? `${i18next.t('track')} ${(target.melodyTrack ?? this.currentTrack) + 1}`
+        : this.getDrumLane(target.beatTrack ?? 0)?.name || '';
+    }
+
+    const envelope = this.getEnvelope(target);
+    const formatters = {
+      attack: (value: number) => `${Math.round(value * 1000)} ms`,
+      decay: (value: number) => `${Math.round(value * 1000)} ms`,
+      sustain: (value: number) => `${Math.round(value * 100)}%`,
+      release: (value: number) => `${Math.round(value * 1000)} ms`,
+    };
+    (Object.keys(formatters) as Array<keyof typeof formatters>).forEach(key => {
+      const input = document.getElementById(`envelope-${key}`) as HTMLInputElement | null;
+      const output = document.getElementById(`envelope-${key}-value`) as HTMLOutputElement | null;
+      if (input) input.valueAsNumber = envelope[key];
+      if (output) output.value = formatters[key](envelope[key]);
     });
-    removeButton.addEventListener('click', () => {
-      const filename = this.getAssignedFilename(target.track, target.melodyTrack);
-      if (filename === 'sine' || filename === 'silent') {
-        return;
-      }
-      if (confirm(i18next.t('confirm_remove_sound_file', { filename: filenameToName(filename) }))) {
-        this.removeAudioFile(filename);
-      }
+
+    // シンセの設定は音源がシンセのときだけ表示する
+    const waveform = getSynthWaveform(this.getAssignedFilename(target.track, this.getTargetTrackNumber(target)));
+    const synthSection = document.getElementById('synth-settings') as HTMLElement | null;
+    if (synthSection) synthSection.hidden = !waveform;
+    document.querySelectorAll('.synth-fm-param').forEach(element => {
+      (element as HTMLElement).hidden = waveform !== 'fm';
+    });
+    const synth = this.getSynthSettings(target);
+    const synthFormatters = {
+      detune: (value: number) => `${value > 0 ? '+' : ''}${value} ct`,
+      cutoff: (value: number) => value >= 1000 ? `${(value / 1000).toFixed(1)} kHz` : `${value} Hz`,
+      resonance: (value: number) => `${value} dB`,
+      fmRatio: (value: number) => `×${value}`,
+      fmIndex: (value: number) => value.toFixed(1),
+    };
+    (Object.keys(synthFormatters) as Array<keyof typeof synthFormatters>).forEach(key => {
+      const input = document.getElementById(`synth-${this.toKebabCase(key)}`) as HTMLInputElement | null;
+      const output = document.getElementById(`synth-${this.toKebabCase(key)}-value`) as HTMLOutputElement | null;
+      if (input) input.valueAsNumber = key === 'cutoff' ? Math.log2(synth.cutoff) : synth[key];
+      if (output) output.value = synthFormatters[key](synth[key]);
     });
+    const filterTypeSelect = document.getElementById('synth-filter-type') as HTMLSelectElement | null;
+    if (filterTypeSelect) filterTypeSelect.value = synth.filterType;
+
+    // タイムストレッチはメロディトラックのサンプル音源だけ
+    const filename = this.getAssignedFilename(target.track, this.getTargetTrackNumber(target));
+    const stretchSection = document.getElementById('stretch-settings') as HTMLElement | null;
+    if (stretchSection) stretchSection.hidden = target.track !== 'melody' || isBuiltInSound(filename);
+    const stretch = this.stretch.get(target.melodyTrack ?? this.currentTrack) || defaultStretchSettings;
+    const enabledCheckbox = document.getElementById('stretch-enabled') as HTMLInputElement | null;
+    const repitchCheckbox = document.getElementById('stretch-repitch') as HTMLInputElement | null;
+    if (enabledCheckbox) enabledCheckbox.checked = stretch.enabled;
+    if (repitchCheckbox) {
+      repitchCheckbox.checked = stretch.repitch;
+      repitchCheckbox.disabled = !stretch.enabled;
+    }
 
-    return row;
+    // 発音の長さとチョークグループはドラムレーンだけ
+    const playbackSection = document.getElementById('beat-playback-settings') as HTMLElement | null;
+    if (playbackSection) playbackSection.hidden = target.track !== 'beat';
+    const playback = this.getBeatPlaybackSettings(target);
+    const playbackModeSelect = document.getElementById('beat-playback-mode') as HTMLSelectElement | null;
+    if (playbackModeSelect) playbackModeSelect.value = playback.mode;
+    (['gate', 'decay'] as const).forEach(key => {
+      const input = document.getElementById(`beat-playback-${key}`) as HTMLInputElement | null;
+      const output = document.getElementById(`beat-playback-${key}-value`) as HTMLOutputElement | null;
+      if (input) {
+        input.valueAsNumber = playback[key];
+        // ゲートはワンショットでも終わらない音（ループ・シンセ）に使う
+        input.disabled = key === 'gate' ? playback.mode === 'decay' : playback.mode !== 'decay';
+      }
+      if (output) output.value = `${Math.round(playback[key] * 1000)} ms`;
+    });
+    const chokeGroupSelect = document.getElementById('beat-playback-choke-group') as HTMLSelectElement | null;
+    if (chokeGroupSelect) chokeGroupSelect.value = playback.chokeGroup.toString();
   }
 
-  private cloneBaseSoundOptions() {
-    const template = document.querySelector('.sound[data-track="melody"] .sound-select') as HTMLSelectElement | null;
-    return template ? Array.from(template.options).map(option => option.cloneNode(true) as HTMLOptionElement) : [];
+  private getEnvelope(target: SoundAssignmentTarget): Envelope {
+    if (target.track === 'melody') {
+      return this.envelopes.melody.get(target.melodyTrack ?? this.currentTrack) || defaultEnvelope;
+    }
+    return this.envelopes.beat.get(target.beatTrack ?? 0) || defaultEnvelope;
   }
 
-  private selectAudioFiles() {
-    const input = document.createElement('input');
-    input.type = 'file';
-    input.accept = '.wav,.mp3,.ogg,.flac,.aac,.m4a';
-    input.multiple = true;
+  private setEnvelope(target: SoundAssignmentTarget, envelope: Envelope) {
+    if (target.track === 'melody') {
+      this.envelopes.melody.set(target.melodyTrack ?? this.currentTrack, envelope);
+    } else {
+      this.envelopes.beat.set(target.beatTrack ?? 0, envelope);
+    }
+  }
 
-    const promise = new Promise<FileList | null>((resolve) => {
-      input.onchange = (event) => {
-        const files = (event.target as HTMLInputElement).files || null;
-        resolve(files && files.length > 0 ? files : null);
-      };
-      input.oncancel = () => {
-        resolve(null);
-      };
-    });
+  private getSynthSettings(target: SoundAssignmentTarget): SynthSettings {
+    if (target.track === 'melody') {
+      return this.synths.melody.get(target.melodyTrack ?? this.currentTrack) || defaultSynthSettings;
+    }
+    return this.synths.beat.get(target.beatTrack ?? 0) || defaultSynthSettings;
+  }
 
-    input.click();
-    return promise;
+  private setSynthSettings(target: SoundAssignmentTarget, settings: SynthSettings) {
+    if (target.track === 'melody') {
+      this.synths.melody.set(target.melodyTrack ?? this.currentTrack, settings);
+    } else {
+      this.synths.beat.set(target.beatTrack ?? 0, settings);
+    }
   }
 
-  private setupDragAndDrop() {
-    // Prevent default drag behaviors on the entire document
-    ['dragenter', 'dragover', 'dragleave', 'drop'].forEach(eventName => {
-      document.addEventListener(eventName, (e) => {
-        e.preventDefault();
-        e.stopPropagation();
-      }, false);
-    });
+  private getBeatPlaybackSettings(target: SoundAssignmentTarget): BeatPlaybackSettings {
+    return this.beatPlayback.get(target.beatTrack ?? 0) || defaultBeatPlaybackSettings;
+  }
 
-    // Handle drag events for all drop zones
-    const dropZones = document.querySelectorAll('.drop-zone') as NodeListOf<HTMLElement>;
-    
-    dropZones.forEach(dropZone => {
-      dropZone.addEventListener('dragenter', (e) => {
-        e.preventDefault();
-        dropZone.classList.add('drag-over');
-      });
+  private setBeatPlaybackSettings(target: SoundAssignmentTarget, settings: BeatPlaybackSettings) {
+    this.beatPlayback.set(target.beatTrack ?? 0, settings);
+  }
 
-      dropZone.addEventListener('dragleave', (e) => {
-        e.preventDefault();
-        // Only remove drag-over if we're leaving the drop zone entirely
-        if (!dropZone.contains(e.relatedTarget as Node)) {
-          dropZone.classList.remove('drag-over');
-        }
-      });
+  private setupSampleEditorDialog() {
+    const dialog = document.getElementById('sample-editor-dialog') as HTMLDialogElement | null;
+    const canvas = document.getElementById('sample-editor-waveform') as HTMLCanvasElement | null;
+    if (!dialog || !canvas) {
+      return;
+    }
 
-      dropZone.addEventListener('dragover', (e) => {
-        e.preventDefault();
-        e.dataTransfer!.dropEffect = 'copy';
+    const markerKeys = ['start', 'end', 'loopStart', 'loopEnd'] as const;
+    markerKeys.forEach(key => {
+      const input = document.getElementById(`sample-${this.toKebabCase(key)}`) as HTMLInputElement | null;
+      input?.addEventListener('change', () => {
+        if (isNaN(input.valueAsNumber)) return;
+        this.updateSampleRegion({ [key]: input.valueAsNumber });
+        this.saveData();
       });
+    });
+    const loopCheckbox = document.getElementById('sample-loop') as HTMLInputElement | null;
+    loopCheckbox?.addEventListener('change', () => {
+      this.updateSampleRegion({ loop: loopCheckbox.checked });
+      this.saveData();
+    });
 
-      dropZone.addEventListener('drop', (e) => {
-        e.preventDefault();
-        dropZone.classList.remove('drag-over');
-        
-        const files = e.dataTransfer!.files;
-        if (files.length === 0) return;
+    // 波形上でいちばん近いマーカーをドラッグする
+    let dragging: typeof markerKeys[number] | null = null;
+    const pointerToTime = (e: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const duration = this.sampleEditor.buffer?.duration || 0;
+      return minmax((e.clientX - rect.left) / rect.width, 0, 1) * duration;
+    };
+    canvas.addEventListener('pointerdown', (e) => {
+      const region = this.getEditingSampleRegion();
+      if (!region) return;
+      const time = pointerToTime(e);
+      const candidates = markerKeys.filter(key => region.loop || (key !== 'loopStart' && key !== 'loopEnd'));
+      dragging = candidates.reduce((nearest, key) => Math.abs(region[key] - time) < Math.abs(region[nearest] - time) ? key : nearest);
+      canvas.setPointerCapture(e.pointerId);
+      this.updateSampleRegion({ [dragging]: time });
+    });
+    canvas.addEventListener('pointermove', (e) => {
+      if (!dragging) return;
+      this.updateSampleRegion({ [dragging]: pointerToTime(e) });
+    });
+    const endDrag = () => {
+      if (!dragging) return;
+      dragging = null;
+      this.saveData();
+    };
+    canvas.addEventListener('pointerup', endDrag);
+    canvas.addEventListener('pointercancel', endDrag);
 
-        this.handleFilesDrop(files, dropZone);
-      });
+    document.getElementById('sample-editor-preview-btn')?.addEventListener('click', () => {
+      const buffer = this.sampleEditor.buffer;
+      if (!buffer) return;
+      this.audioManager.playSamplePreview(buffer, this.sampleEditor.filename, 'preview-sample-editor');
+    });
+    document.getElementById('sample-editor-reset-btn')?.addEventListener('click', () => {
+      const audioFile = this.files.find(f => f.file.name === this.sampleEditor.filename);
+      if (!audioFile) return;
+      delete audioFile.start;
+      delete audioFile.end;
+      delete audioFile.loop;
+      delete audioFile.loopStart;
+      delete audioFile.loopEnd;
+      this.updateSampleRegion({});
+      this.saveData();
+    });
+    dialog.addEventListener('close', () => {
+      this.audioManager.stopPreview('preview-sample-editor');
     });
   }
 
-  private handleFilesDrop(files: FileList, dropZone: HTMLElement) {
-    const trackType = this.getTrackTypeFromDropZone(dropZone);
-    const midiFiles = [...files].filter(file => file.type === 'audio/midi' || file.type === 'audio/x-midi' || file.name.toLowerCase().endsWith('.mid') || file.name.toLowerCase().endsWith('.midi'));
-    const audioFiles = [...files].filter(file => file.type.startsWith('audio/') || ['mp3', 'wav', 'ogg', 'aac', 'm4a', 'flac'].some(ext => file.name.toLowerCase().endsWith(`.${ext}`)));
-    if (midiFiles.length > 0) {
-      this.importMidiFromFile(midiFiles[0]);
-    }
-    if (audioFiles.length > 0) {
-      audioFiles.forEach(file => {
-        const pitchShift = this.extractPitchShiftFromFilename(file.name);
-        this.addAudioFile(file, pitchShift);
-      });
-      if (trackType) {
-        this.setAudio(trackType, audioFiles[0]);
-      }
+  private async openSampleEditor(filename: string) {
+    const dialog = document.getElementById('sample-editor-dialog') as HTMLDialogElement | null;
+    const audioFile = this.files.find(f => f.file.name === filename);
+    if (!dialog || !audioFile) {
+      return;
     }
-    if (midiFiles.length === 0 && audioFiles.length === 0) {
-      alert(i18next.t('import_error_invalid_audio_file'));
+    this.sampleEditor = { filename, buffer: null };
+    const title = document.getElementById('sample-editor-title') as HTMLElement | null;
+    if (title) title.textContent = filenameToName(filename);
+    dialog.showModal();
+    this.renderSampleEditor();
+
+    const buffer = await this.audioManager.getSampleBuffer(audioFile.file);
+    if (this.sampleEditor.filename !== filename) return;
+    this.sampleEditor.buffer = buffer;
+    this.renderSampleEditor();
+  }
+
+  private getEditingSampleRegion() {
+    const audioFile = this.files.find(f => f.file.name === this.sampleEditor.filename);
+    const buffer = this.sampleEditor.buffer;
+    return audioFile && buffer ? resolveRegion(audioFile, buffer.duration) : null;
+  }
+
+  private updateSampleRegion(changes: Partial<SampleRegion>) {
+    const audioFile = this.files.find(f => f.file.name === this.sampleEditor.filename);
+    const buffer = this.sampleEditor.buffer;
+    if (!audioFile || !buffer) {
+      return;
     }
+    // 開始・終了を動かしたときはループ範囲をその内側に収める
+    Object.assign(audioFile, resolveRegion({ ...audioFile, ...changes }, buffer.duration));
+    this.audioManager.setSampleRegion(audioFile.file.name, audioFile);
+    this.renderSampleEditor();
   }
 
-  private getTrackTypeFromDropZone(dropZone: HTMLElement): SoundTrackKey | null {
-    // Check if it's the piano roll section (melody track)
-    if (dropZone.classList.contains('piano-roll-section')) {
-      return 'melody';
+  private renderSampleEditor() {
+    const region = this.getEditingSampleRegion();
+    const buffer = this.sampleEditor.buffer;
+
+    const values = {
+      start: region?.start,
+      end: region?.end,
+      loopStart: region?.loopStart,
+      loopEnd: region?.loopEnd,
+    };
+    (Object.keys(values) as Array<keyof typeof values>).forEach(key => {
+      const input = document.getElementById(`sample-${this.toKebabCase(key)}`) as HTMLInputElement | null;
+      if (!input) return;
+      const value = values[key];
+      input.value = value === undefined ? '' : value.toFixed(3);
+      input.max = buffer ? buffer.duration.toFixed(3) : '';
+      input.disabled = !region || ((key === 'loopStart' || key === 'loopEnd') && !region.loop);
+    });
+    const loopCheckbox = document.getElementById('sample-loop') as HTMLInputElement | null;
+    if (loopCheckbox) {
+      loopCheckbox.checked = !!region?.loop;
+      loopCheckbox.disabled = !region;
     }
-    
-    // Check if it's a rhythm track
-    if (dropZone.classList.contains('rhythm-track')) {
-      const trackIndex = dropZone.dataset.track;
-      if (trackIndex === '0') {
-        return 'beat1';
-      } else if (trackIndex === '1') {
-        return 'beat2';
+
+    const canvas = document.getElementById('sample-editor-waveform') as HTMLCanvasElement | null;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) {
+      return;
+    }
+    canvas.width = Math.round(canvas.clientWidth * window.devicePixelRatio) || canvas.width;
+    canvas.height = Math.round(canvas.clientHeight * window.devicePixelRatio) || canvas.height;
+    const { width, height } = canvas;
+    ctx.fillStyle = '#1e1e1e';
+    ctx.fillRect(0, 0, width, height);
+    if (!buffer || !region) {
+      return;
+    }
+
+    const timeToX = (time: number) => time / buffer.duration * width;
+    if (region.loop) {
+      ctx.fillStyle = 'rgba(240, 192, 64, 0.2)';
+      ctx.fillRect(timeToX(region.loopStart), 0, timeToX(region.loopEnd) - timeToX(region.loopStart), height);
+    }
+
+    // 各ピクセル列の最小値と最大値を描く
+    const data = buffer.getChannelData(0);
+    const samplesPerPixel = data.length / width;
+    ctx.fillStyle = '#66ccff';
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor(x * samplesPerPixel);
+      const to = Math.max(from + 1, Math.floor((x + 1) * samplesPerPixel));
+      let min = 0;
+      let max = 0;
+      for (let i = from; i < to && i < data.length; i++) {
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
       }
+      ctx.fillRect(x, (1 - max) * height / 2, 1, Math.max(1, (max - min) * height / 2));
     }
-    
-    return null;
+
+    // 切り取られる範囲を暗くする
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, 0, timeToX(region.start), height);
+    ctx.fillRect(timeToX(region.end), 0, width - timeToX(region.end), height);
+
+    const markers: Array<[number, string]> = [[region.start, '#ffffff'], [region.end, '#ffffff']];
+    if (region.loop) {
+      markers.push([region.loopStart, '#f0c040'], [region.loopEnd, '#f0c040']);
+    }
+    ctx.lineWidth = Math.max(1, window.devicePixelRatio);
+    markers.forEach(([time, color]) => {
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(timeToX(time), 0);
+      ctx.lineTo(timeToX(time), height);
+      ctx.stroke();
+    });
   }
 
-  private addAudioFile(file: File, pitchShift: number = 0) {
-    // すでに同じ名前のファイルがある場合は追加しない
-    if (this.files.find(f => f.file.name === file.name)) {
+  private setupMixerDialog() {
+    const dialog = document.getElementById('mixer-dialog') as HTMLDialogElement | null;
+    const channels = dialog?.querySelector('.mixer-channels') as HTMLElement | null;
+    if (!dialog || !channels) {
       return;
     }
-    this.files.push({ file, pitchShift });
 
-    // すべてのサウンドセレクトにオプションを追加
-    const soundSelects = document.querySelectorAll('.sound-select') as NodeListOf<HTMLSelectElement>;
-    soundSelects.forEach(soundSelect => {
+    for (let track = 0; track < 16; track++) {
+      channels.appendChild(this.createMixerChannelRow(`${track + 1}.`, 'melody', track));
+    }
+
+    document.getElementById('mixer-btn')?.addEventListener('click', () => {
+      this.renderMixerDialog();
+      dialog.showModal();
+    });
+    document.getElementById('limiter-enabled')?.addEventListener('change', (e) => {
+      this.limiter.enabled = (e.target as HTMLInputElement).checked;
+      this.limiterChanged();
+    });
+    document.getElementById('limiter-ceiling')?.addEventListener('change', (e) => {
+      const input = e.target as HTMLInputElement;
+      if (!isNaN(input.valueAsNumber)) {
+        this.limiter.ceiling = minmax(input.valueAsNumber, parseFloat(input.min), parseFloat(input.max));
+      }
+      this.limiterChanged();
+    });
+    document.getElementById('mixer-reset-btn')?.addEventListener('click', () => {
+      this.mixer.melody.clear();
+      this.mixer.beat.clear();
+      Object.assign(this.limiter, defaultLimiterSettings);
+      this.audioManager.updateLimiter();
+      this.audioManager.updateMixer();
+      this.renderMixerDialog();
+      this.saveData(['mixer', 'limiter']);
+    });
+  }
+
+  private createMixerChannelRow(indexLabel: string, kind: ChannelKind, track: number) {
+    const row = document.createElement('div');
+    row.className = 'mixer-channel';
+    row.dataset.kind = kind;
+    row.dataset.track = track.toString();
+
+    const index = document.createElement('span');
+    index.className = 'mixer-channel-index';
+    index.textContent = indexLabel;
+
+    const volume = document.createElement('input');
+    volume.type = 'range';
+    volume.className = 'mixer-volume';
+    volume.min = '0';
+    volume.max = '2';
+    volume.step = '0.01';
+
+    const volumeValue = document.createElement('output');
+    volumeValue.className = 'mixer-volume-value';
+
+    const pan = document.createElement('input');
+    pan.type = 'range';
+    pan.className = 'mixer-pan';
+    pan.min = '-1';
+    pan.max = '1';
+    pan.step = '0.01';
+
+    const panValue = document.createElement('output');
+    panValue.className = 'mixer-pan-value';
+
+    const mute = document.createElement('button');
+    mute.type = 'button';
+    mute.className = 'mixer-mute';
+    mute.title = 'Mute';
+    mute.dataset.i18n = 'mute';
+    mute.textContent = 'M';
+
+    const solo = document.createElement('button');
+    solo.type = 'button';
+    solo.className = 'mixer-solo';
+    solo.title = 'Solo';
+    solo.dataset.i18n = 'solo';
+    solo.textContent = 'S';
+
+    const effects = document.createElement('button');
+    effects.type = 'button';
+    effects.className = 'mixer-effects';
+    effects.title = 'Effects';
+    effects.dataset.i18n = 'effects';
+    effects.textContent = 'FX';
+
+    row.append(index, volume, volumeValue, pan, panValue, mute, solo, effects);
+
+    volume.addEventListener('input', () => {
+      this.setChannelSettings(kind, track, { volume: volume.valueAsNumber });
+    });
+    // ダブルクリックで初期値に戻す
+    volume.addEventListener('dblclick', () => {
+      this.setChannelSettings(kind, track, { volume: defaultChannel.volume });
+      this.saveData(['mixer']);
+    });
+    pan.addEventListener('input', () => {
+      this.setChannelSettings(kind, track, { pan: pan.valueAsNumber });
+    });
+    pan.addEventListener('dblclick', () => {
+      this.setChannelSettings(kind, track, { pan: defaultChannel.pan });
+      this.saveData(['mixer']);
+    });
+    [volume, pan].forEach(input => {
+      input.addEventListener('change', () => {
+        this.saveData(['mixer']);
+      });
+    });
+    mute.addEventListener('click', () => {
+      this.setChannelSettings(kind, track, { mute: !getChannelSettings(this.mixer, kind, track).mute });
+      this.saveData(['mixer']);
+    });
+    solo.addEventListener('click', () => {
+      this.setChannelSettings(kind, track, { solo: !getChannelSettings(this.mixer, kind, track).solo });
+      this.saveData(['mixer']);
+    });
+    effects.addEventListener('click', () => {
+      this.openEffectsDialog({ kind, track }, indexLabel.replace(/\.$/, ''));
+    });
+
+    return row;
+  }
+
+  private setChannelSettings(kind: ChannelKind, track: number, settings: Partial<ChannelSettings>) {
+    this.mixer[kind].set(track, { ...getChannelSettings(this.mixer, kind, track), ...settings });
+    this.audioManager.updateMixer();
+    this.renderMixerDialog();
+  }
+
+  private renderMixerDialog() {
+    const anySolo = [...this.mixer.melody.values(), ...this.mixer.beat.values()].some(channel => channel.solo);
+    document.querySelectorAll('.mixer-channel').forEach(element => {
+      const row = element as HTMLElement;
+      const kind = row.dataset.kind as ChannelKind;
+      const track = parseInt(row.dataset.track || '0');
+      const channel = getChannelSettings(this.mixer, kind, track);
+
+      (row.querySelector('.mixer-volume') as HTMLInputElement).valueAsNumber = channel.volume;
+      (row.querySelector('.mixer-volume-value') as HTMLOutputElement).value = `${Math.round(channel.volume * 100)}%`;
+      (row.querySelector('.mixer-pan') as HTMLInputElement).valueAsNumber = channel.pan;
+      const panPercent = Math.round(Math.abs(channel.pan) * 100);
+      (row.querySelector('.mixer-pan-value') as HTMLOutputElement).value = panPercent === 0 ? 'C' : `${channel.pan < 0 ? 'L' : 'R'}${panPercent}`;
+      row.querySelector('.mixer-mute')?.classList.toggle('active', channel.mute);
+      row.querySelector('.mixer-solo')?.classList.toggle('active', channel.solo);
+      row.querySelector('.mixer-effects')?.classList.toggle('active', chainLayout(this.effects[kind].get(track) || []) !== '');
+      row.classList.toggle('silent', channel.mute || (anySolo && !channel.solo));
+    });
+    document.getElementById('mixer-master-effects-btn')?.classList.toggle('active', chainLayout(this.effects.master) !== '');
+    (document.getElementById('limiter-enabled') as HTMLInputElement).checked = this.limiter.enabled;
+    const ceiling = document.getElementById('limiter-ceiling') as HTMLInputElement;
+    ceiling.valueAsNumber = this.limiter.ceiling;
+    ceiling.disabled = !this.limiter.enabled;
+  }
+
+  private limiterChanged() {
+    this.audioManager.updateLimiter();
+    this.renderMixerDialog();
+    this.saveData(['limiter']);
+  }
+
+  private setupEffectsDialog() {
+    const dialog = document.getElementById('effects-dialog') as HTMLDialogElement | null;
+    if (!dialog) {
+      return;
+    }
+
+    document.getElementById('mixer-master-effects-btn')?.addEventListener('click', () => {
+      this.openEffectsDialog('master', i18next.t('master'));
+    });
+    document.getElementById('effect-add-btn')?.addEventListener('click', () => {
+      const typeSelect = document.getElementById('effect-type-select') as HTMLSelectElement | null;
+      const type = (typeSelect?.value || 'filter') as EffectType;
+      this.getTargetEffects().push(createEffect(type));
+      this.effectsChanged(true);
+    });
+    dialog.addEventListener('close', () => {
+      this.renderMixerDialog();
+    });
+  }
+
+  private openEffectsDialog(target: { kind: ChannelKind; track: number } | 'master', title: string) {
+    const dialog = document.getElementById('effects-dialog') as HTMLDialogElement | null;
+    if (!dialog) {
+      return;
+    }
+    this.effectsTarget = target;
+    const titleElement = document.getElementById('effects-title') as HTMLElement | null;
+    if (titleElement) titleElement.textContent = title;
+    this.renderEffectsDialog();
+    dialog.showModal();
+  }
+
+  private getTargetEffects() {
+    const target = this.effectsTarget;
+    if (target === 'master') {
+      return this.effects.master;
+    }
+    if (!this.effects[target.kind].has(target.track)) {
+      this.effects[target.kind].set(target.track, []);
+    }
+    return this.effects[target.kind].get(target.track)!;
+  }
+
+  // 構成が変わったときは一覧を描き直す
+  private effectsChanged(rerender: boolean) {
+    this.audioManager.updateEffects();
+    if (rerender) {
+      this.renderEffectsDialog();
+    }
+    this.saveData(['effects']);
+  }
+
+  private renderEffectsDialog() {
+    const list = document.getElementById('effects-list') as HTMLElement | null;
+    if (!list) {
+      return;
+    }
+    const effects = this.getTargetEffects();
+    list.innerHTML = '';
+    if (effects.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'effects-empty';
+      empty.textContent = i18next.t('no_effects');
+      list.appendChild(empty);
+      return;
+    }
+    effects.forEach((effect, index) => {
+      list.appendChild(this.createEffectCard(effect, index, effects));
+    });
+  }
+
+  private createEffectCard(effect: Effect, index: number, effects: Effect[]) {
+    const card = document.createElement('fieldset');
+    card.className = 'effect-card';
+    card.classList.toggle('bypassed', effect.bypass);
+
+    const header = document.createElement('legend');
+    header.className = 'effect-card__header';
+
+    const name = document.createElement('span');
+    name.textContent = i18next.t(effect.type);
+    header.appendChild(name);
+
+    const bypassLabel = document.createElement('label');
+    bypassLabel.className = 'checkbox-label';
+    const bypass = document.createElement('input');
+    bypass.type = 'checkbox';
+    bypass.checked = effect.bypass;
+    const bypassText = document.createElement('span');
+    bypassText.textContent = i18next.t('bypass');
+    bypassLabel.append(bypass, bypassText);
+    header.appendChild(bypassLabel);
+    bypass.addEventListener('change', () => {
+      effect.bypass = bypass.checked;
+      this.effectsChanged(true);
+    });
+
+    const actions: Array<[string, string, boolean, () => void]> = [
+      ['arrow_upward', 'move_up', index > 0, () => {
+        effects.splice(index - 1, 0, ...effects.splice(index, 1));
+      }],
+      ['arrow_downward', 'move_down', index < effects.length - 1, () => {
+        effects.splice(index + 1, 0, ...effects.splice(index, 1));
+      }],
+      ['delete', 'remove_effect', true, () => {
+        effects.splice(index, 1);
+      }]
+    ];
+    actions.forEach(([icon, label, enabled, action]) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = `material-icons${icon === 'delete' ? ' danger' : ''}`;
+      button.title = i18next.t(label);
+      button.textContent = icon;
+      button.disabled = !enabled;
+      button.addEventListener('click', () => {
+        action();
+        this.effectsChanged(true);
+      });
+      header.appendChild(button);
+    });
+    card.appendChild(header);
+
+    if (effect.type === 'filter') {
+      const label = document.createElement('label');
+      label.textContent = i18next.t('filter');
+      const select = document.createElement('select');
+      filterTypes.forEach(filterType => {
+        const option = document.createElement('option');
+        option.value = filterType;
+        option.textContent = i18next.t(filterType);
+        select.appendChild(option);
+      });
+      select.value = effect.filterType || 'lowpass';
+      select.addEventListener('change', () => {
+        effect.filterType = select.value as BiquadFilterType;
+        this.effectsChanged(false);
+      });
+      card.append(label, select, document.createElement('span'));
+    }
+
+    effectParams[effect.type].forEach(param => {
+      const label = document.createElement('label');
+      label.textContent = i18next.t(param.key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`));
+      const input = document.createElement('input');
+      input.type = 'range';
+      input.min = param.min.toString();
+      input.max = param.max.toString();
+      input.step = param.step.toString();
+      input.valueAsNumber = effect.params[param.key] ?? param.default;
+      const output = document.createElement('output');
+      const format = (value: number) => {
+        if (param.unit === 's') return `${Math.round(value * 1000)} ms`;
+        if (param.unit === '' && param.max <= 1) return `${Math.round(value * 100)}%`;
+        return `${value} ${param.unit}`.trim();
+      };
+      output.value = format(input.valueAsNumber);
+      input.addEventListener('input', () => {
+        effect.params[param.key] = input.valueAsNumber;
+        output.value = format(input.valueAsNumber);
+        this.audioManager.updateEffects();
+      });
+      input.addEventListener('change', () => {
+        this.saveData();
+      });
+      card.append(label, input, output);
+    });
+
+    return card;
+  }
+
+  private setupInstrumentDialog() {
+    const dialog = document.getElementById('instrument-dialog') as HTMLDialogElement | null;
+    const select = document.getElementById('instrument-select') as HTMLSelectElement | null;
+    const nameInput = document.getElementById('instrument-name-input') as HTMLInputElement | null;
+    if (!dialog || !select || !nameInput) {
+      return;
+    }
+
+    document.getElementById('sound-sources-instruments-btn')?.addEventListener('click', () => {
+      this.renderInstrumentDialog();
+      dialog.showModal();
+    });
+    select.addEventListener('change', () => {
+      this.editingInstrumentId = select.value || null;
+      this.renderInstrumentDialog();
+    });
+    nameInput.addEventListener('input', () => {
+      const instrument = this.getInstrument(this.editingInstrumentId);
+      if (!instrument) return;
+      instrument.name = nameInput.value.trim() || i18next.t('untitled_instrument');
+      const option = Array.from(select.options).find(opt => opt.value === instrument.id);
+      if (option) option.text = instrument.name;
+      this.renderInstrumentOptions();
+    });
+    nameInput.addEventListener('change', () => {
+      this.saveData();
+    });
+    document.getElementById('instrument-new-btn')?.addEventListener('click', () => {
+      const instrument: Instrument = {
+        id: `instrument-${Date.now()}-${Math.random()}`,
+        name: i18next.t('untitled_instrument'),
+        zones: []
+      };
+      this.instruments.push(instrument);
+      this.editingInstrumentId = instrument.id;
+      this.renderInstrumentOptions();
+      this.renderInstrumentDialog();
+      this.saveData();
+    });
+    document.getElementById('instrument-delete-btn')?.addEventListener('click', () => {
+      if (this.editingInstrumentId) {
+        this.confirmDeleteInstrument(this.editingInstrumentId);
+      }
+    });
+    document.getElementById('instrument-add-zone-btn')?.addEventListener('click', () => {
+      const instrument = this.getInstrument(this.editingInstrumentId);
+      if (!instrument || this.files.length === 0) return;
+      instrument.zones.push({
+        filename: this.files[0].file.name,
+        rootKey: 60,
+        lowKey: 0,
+        highKey: 127,
+        lowVelocity: 0,
+        highVelocity: 127
+      });
+      this.renderInstrumentDialog();
+      this.updateInstrument(instrument);
+    });
+  }
+
+  private renderInstrumentDialog() {
+    const select = document.getElementById('instrument-select') as HTMLSelectElement | null;
+    const nameInput = document.getElementById('instrument-name-input') as HTMLInputElement | null;
+    const zonesGrid = document.getElementById('instrument-zones') as HTMLDivElement | null;
+    const deleteButton = document.getElementById('instrument-delete-btn') as HTMLButtonElement | null;
+    const addZoneButton = document.getElementById('instrument-add-zone-btn') as HTMLButtonElement | null;
+    if (!select || !nameInput || !zonesGrid) {
+      return;
+    }
+
+    if (!this.getInstrument(this.editingInstrumentId)) {
+      this.editingInstrumentId = this.instruments[0]?.id ?? null;
+    }
+    const instrument = this.getInstrument(this.editingInstrumentId);
+
+    select.textContent = '';
+    this.instruments.forEach(({ id, name }) => {
+      const option = document.createElement('option');
+      option.value = id;
+      option.text = name;
+      select.appendChild(option);
+    });
+    select.value = instrument?.id ?? '';
+    select.disabled = !instrument;
+    nameInput.value = instrument?.name ?? '';
+    nameInput.disabled = !instrument;
+    if (deleteButton) deleteButton.disabled = !instrument;
+    if (addZoneButton) addZoneButton.disabled = !instrument || this.files.length === 0;
+
+    zonesGrid.querySelectorAll('.instrument-zone-row').forEach(row => row.remove());
+    instrument?.zones.forEach(zone => {
+      zonesGrid.appendChild(this.createInstrumentZoneRow(instrument, zone));
+    });
+  }
+
+  private createInstrumentZoneRow(instrument: Instrument, zone: SampleZone) {
+    const row = document.createElement('div');
+    row.className = 'instrument-zone-row';
+
+    const fileSelect = document.createElement('select');
+    fileSelect.className = 'instrument-zone-file';
+    this.files.forEach(({ file }) => {
+      const option = document.createElement('option');
+      option.value = file.name;
+      option.text = filenameToName(file.name);
+      fileSelect.appendChild(option);
+    });
+    fileSelect.value = zone.filename;
+    fileSelect.addEventListener('change', () => {
+      zone.filename = fileSelect.value;
+      this.updateInstrument(instrument);
+    });
+    row.appendChild(fileSelect);
+
+    const rootName = document.createElement('output');
+    rootName.className = 'instrument-zone-root-name';
+    rootName.value = midiToNoteName(zone.rootKey);
+
+    const fields: Array<{ key: 'rootKey' | 'lowKey' | 'highKey' | 'lowVelocity' | 'highVelocity'; min: number; max: number }> = [
+      { key: 'rootKey', min: 0, max: 127 },
+      { key: 'lowKey', min: 0, max: 127 },
+      { key: 'highKey', min: 0, max: 127 },
+      { key: 'lowVelocity', min: 0, max: 127 },
+      { key: 'highVelocity', min: 0, max: 127 },
+    ];
+    fields.forEach(({ key, min, max }) => {
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = min.toString();
+      input.max = max.toString();
+      input.valueAsNumber = zone[key];
+      input.addEventListener('change', () => {
+        if (!input.value) {
+          input.valueAsNumber = zone[key];
+          return;
+        }
+        zone[key] = minmax(Math.round(input.valueAsNumber), min, max);
+        input.valueAsNumber = zone[key];
+        if (key === 'rootKey') rootName.value = midiToNoteName(zone.rootKey);
+        this.updateInstrument(instrument);
+      });
+      row.appendChild(input);
+      if (key === 'rootKey') row.appendChild(rootName);
+    });
+
+    const removeButton = document.createElement('button');
+    removeButton.type = 'button';
+    removeButton.className = 'material-icons danger';
+    removeButton.textContent = 'remove';
+    removeButton.addEventListener('click', () => {
+      instrument.zones = instrument.zones.filter(z => z !== zone);
+      row.remove();
+      this.updateInstrument(instrument);
+    });
+    row.appendChild(removeButton);
+
+    return row;
+  }
+
+  private createBulkSoundRow(indexLabel: string, target: SoundAssignmentTarget, showInstrument: boolean) {
+    const row = document.createElement('div');
+    row.className = 'sound-sources-row';
+    row.dataset.track = target.track;
+    if (typeof target.melodyTrack === 'number') {
+      row.dataset.melodyTrack = target.melodyTrack.toString();
+    }
+    if (typeof target.beatTrack === 'number') {
+      row.dataset.beatTrack = target.beatTrack.toString();
+    }
+
+    const index = document.createElement('span');
+    index.className = 'sound-sources-index';
+    index.textContent = indexLabel;
+
+    const control = document.createElement('div');
+    control.className = 'sound-sources-control';
+
+    const selectLabel = document.createElement('label');
+    selectLabel.className = 'sound-select-label';
+
+    const select = document.createElement('select');
+    select.className = 'sound-select';
+    this.cloneBaseSoundOptions(target.track === 'melody').forEach(option => {
+      select.appendChild(option);
+    });
+
+    const removeButton = document.createElement('button');
+    removeButton.type = 'button';
+    removeButton.className = 'remove-sound material-icons danger';
+    removeButton.textContent = 'delete';
+
+    const editButton = document.createElement('button');
+    editButton.type = 'button';
+    editButton.className = 'edit-sample material-icons';
+    editButton.textContent = 'content_cut';
+    editButton.title = i18next.t('edit_sample');
+    editButton.dataset.i18n = 'edit_sample';
+
+    const instrumentName = document.createElement('output');
+    instrumentName.className = 'bulk-instrument-name';
+    instrumentName.hidden = !showInstrument;
+
+    selectLabel.appendChild(select);
+    selectLabel.appendChild(editButton);
+    selectLabel.appendChild(removeButton);
+    control.appendChild(selectLabel);
+    control.appendChild(instrumentName);
+    row.appendChild(index);
+    row.appendChild(control);
+    select.addEventListener('change', async () => {
+      const filename = select.value;
+      await this.setAudio(target.track, this.getAudioFile(filename), filename, this.getTargetTrackNumber(target));
+      const soundPreview = (filename: string) => {
+        const noteId = `preview-sound-select-${Date.now()}`
+        const note: Note = {
+          id: noteId,
+          track: this.currentTrack,
+          pitch: 60, // C4
+          start: 0,
+          length: this.defaultNoteLength,
+          velocity: 100
+        };
+        this.audioManager.playNotePreview(note, filename, this.bpm * this.playbackSpeed, noteId);
+      };
+      if (this.paused) soundPreview(filename);
+    });
+    editButton.addEventListener('click', () => {
+      this.openSampleEditor(this.getAssignedFilename(target.track, this.getTargetTrackNumber(target)));
+    });
+    removeButton.addEventListener('click', () => {
+      const filename = this.getAssignedFilename(target.track, this.getTargetTrackNumber(target));
+      if (isBuiltInSound(filename)) {
+        return;
+      }
+      if (this.getInstrument(filename)) {
+        this.confirmDeleteInstrument(filename);
+      } else if (confirm(i18next.t('confirm_remove_sound_file', { filename: filenameToName(filename) }))) {
+        this.removeAudioFile(filename);
+      }
+    });
+
+    return row;
+  }
+
+  private cloneBaseSoundOptions(includeInstruments: boolean = true) {
+    const template = document.querySelector('.sound[data-track="melody"] .sound-select') as HTMLSelectElement | null;
+    return template ? Array.from(template.options)
+      .filter(option => includeInstruments || !option.classList.contains('instrument-option'))
+      .map(option => option.cloneNode(true) as HTMLOptionElement) : [];
+  }
+
+  private selectAudioFiles() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.wav,.mp3,.ogg,.flac,.aac,.m4a';
+    input.multiple = true;
+
+    const promise = new Promise<FileList | null>((resolve) => {
+      input.onchange = (event) => {
+        const files = (event.target as HTMLInputElement).files || null;
+        resolve(files && files.length > 0 ? files : null);
+      };
+      input.oncancel = () => {
+        resolve(null);
+      };
+    });
+
+    input.click();
+    return promise;
+  }
+
+  private setupDragAndDrop() {
+    // Prevent default drag behaviors on the entire document
+    ['dragenter', 'dragover', 'dragleave', 'drop'].forEach(eventName => {
+      document.addEventListener(eventName, (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+      }, false);
+    });
+
+    // Handle drag events for all drop zones
+    // ドラムレーンのドロップゾーンは renderDrumLanes で追加する
+    const dropZones = document.querySelectorAll('.drop-zone') as NodeListOf<HTMLElement>;
+    
+    dropZones.forEach(dropZone => this.setupDropZone(dropZone));
+  }
+
+  private setupDropZone(dropZone: HTMLElement) {
+    dropZone.addEventListener('dragenter', (e) => {
+      e.preventDefault();
+      dropZone.classList.add('drag-over');
+    });
+
+    dropZone.addEventListener('dragleave', (e) => {
+      e.preventDefault();
+      // Only remove drag-over if we're leaving the drop zone entirely
+      if (!dropZone.contains(e.relatedTarget as Node)) {
+        dropZone.classList.remove('drag-over');
+      }
+    });
+
+    dropZone.addEventListener('dragover', (e) => {
+      e.preventDefault();
+      e.dataTransfer!.dropEffect = 'copy';
+    });
+
+    dropZone.addEventListener('drop', (e) => {
+      e.preventDefault();
+      dropZone.classList.remove('drag-over');
+      
+      const files = e.dataTransfer!.files;
+      if (files.length === 0) return;
+
+      this.handleFilesDrop(files, dropZone);
+    });
+  }
+
+  private handleFilesDrop(files: FileList, dropZone: HTMLElement) {
+    const target = this.getTrackTypeFromDropZone(dropZone);
+    const midiFiles = [...files].filter(file => file.type === 'audio/midi' || file.type === 'audio/x-midi' || file.name.toLowerCase().endsWith('.mid') || file.name.toLowerCase().endsWith('.midi'));
+    const audioFiles = [...files].filter(file => file.type.startsWith('audio/') || ['mp3', 'wav', 'ogg', 'aac', 'm4a', 'flac'].some(ext => file.name.toLowerCase().endsWith(`.${ext}`)));
+    if (midiFiles.length > 0) {
+      this.importMidiFromFile(midiFiles[0]);
+    }
+    if (audioFiles.length > 0) {
+      const instruments = this.addAudioFiles(audioFiles);
+      if (target?.track === 'melody' && instruments.length > 0) {
+        this.setAudio(target.track, null, instruments[0].id);
+      } else if (target) {
+        this.setAudio(target.track, audioFiles[0], undefined, this.getTargetTrackNumber(target));
+      }
+    }
+    if (midiFiles.length === 0 && audioFiles.length === 0) {
+      alert(i18next.t('import_error_invalid_audio_file'));
+    }
+  }
+
+  private getTrackTypeFromDropZone(dropZone: HTMLElement): SoundAssignmentTarget | null {
+    // Check if it's the piano roll section (melody track)
+    if (dropZone.classList.contains('piano-roll-section')) {
+      return { track: 'melody', melodyTrack: this.currentTrack };
+    }
+    
+    // Check if it's a rhythm track (drum lane)
+    if (dropZone.classList.contains('rhythm-track') && dropZone.dataset.track) {
+      return { track: 'beat', beatTrack: Number(dropZone.dataset.track) };
+    }
+    
+    return null;
+  }
+
+  // ファイル名から音名・ベロシティを読み取れる複数ファイルはマルチサンプル音色としてまとめる
+  private addAudioFiles(files: File[]): Instrument[] {
+    files.forEach(file => {
+      const pitchShift = this.extractPitchShiftFromFilename(file.name);
+      this.addAudioFile(file, pitchShift);
+    });
+
+    const instruments = detectInstruments(files.map(file => file.name)).map(({ name, zones }) => ({
+      id: `instrument-${Date.now()}-${Math.random()}`,
+      name,
+      zones
+    }));
+    if (instruments.length > 0) {
+      this.instruments.push(...instruments);
+      this.renderInstrumentOptions();
+    }
+    return instruments;
+  }
+
+  private addAudioFile(file: File, pitchShift: number = 0) {
+    // すでに同じ名前のファイルがある場合は追加しない
+    if (this.files.find(f => f.file.name === file.name)) {
+      return;
+    }
+    const audioFile: AudioFile = { file, pitchShift };
+    this.files.push(audioFile);
+    this.detectRootPitch(audioFile);
+
+    // すべてのサウンドセレクトにオプションを追加
+    const soundSelects = document.querySelectorAll('.sound-select') as NodeListOf<HTMLSelectElement>;
+    soundSelects.forEach(soundSelect => {
       const option = document.createElement('option');
       option.value = file.name;
       option.text = filenameToName(file.name);
@@ -1366,7 +3352,7 @@ class Sequencer {
   }
 
   private removeAudioFile(filename: string) {
-    if (filename === 'sine' || filename === 'silent') return;
+    if (isBuiltInSound(filename)) return;
     const soundSelects = document.querySelectorAll('.sound-select') as NodeListOf<HTMLSelectElement>;
     soundSelects.forEach(soundSelect => {
       // 指定のオプションを削除
@@ -1378,6 +3364,18 @@ class Sequencer {
 
     // ファイルリストから削除
     this.files = this.files.filter(f => f.file.name !== filename);
+    this.audioManager.deleteMelodyAudio(filename);
+
+    // このファイルを使うゾーンを音色から外し、空になった音色は削除
+    this.instruments.forEach(instrument => {
+      if (!instrument.zones.some(zone => zone.filename === filename)) return;
+      instrument.zones = instrument.zones.filter(zone => zone.filename !== filename);
+      if (instrument.zones.length === 0) {
+        this.deleteInstrument(instrument.id);
+      } else {
+        this.applyInstrument(instrument);
+      }
+    });
     
     this.filenames.melody.forEach((name, track) => {
       if (name === filename) {
@@ -1388,45 +3386,43 @@ class Sequencer {
         }
       }
     });
-    if (this.filenames.beat1 === filename) {
-      this.setSine('beat1');
-    }
-    if (this.filenames.beat2 === filename) {
-      this.setSine('beat2');
-    }
+    this.filenames.beat.forEach((name, track) => {
+      if (name === filename) {
+        this.setSine('beat', track);
+      }
+    });
 
     this.syncMainSoundControls();
     this.syncBulkSoundDialog();
   }
 
-  private async setAudio(track: SoundTrackKey, file: File | null = null, filename: string = file?.name || 'sine', melodyTrack: number = this.currentTrack) {
+  // trackNumber はメロディのトラック番号、またはドラムレーンのビートトラック番号
+  private async setAudio(track: SoundTrackKey, file: File | null = null, filename: string = file?.name || 'sine', trackNumber: number = this.currentTrack) {
     const audioFile = this.files.find(f => f.file.name === filename) || null;
     const pitchShift = audioFile ? audioFile.pitchShift : 0;
-    const isSine = filename === 'sine';
     const isSilent = filename === 'silent';
-    const isCustomSound = !isSine && !isSilent;
+    const synthWaveform = getSynthWaveform(filename);
+    const isCustomSound = !isBuiltInSound(filename);
     
     if (track === 'melody') {
-      this.filenames.melody.set(melodyTrack, filename);
-      if (file) {
+      this.filenames.melody.set(trackNumber, filename);
+      const instrument = this.getInstrument(filename);
+      if (instrument) {
+        await this.applyInstrument(instrument);
+      } else if (file) {
         await this.audioManager.setMelodyAudio(file);
       }
       if (pitchShift && isCustomSound) {
         this.audioManager.setMelodyPitchShift(filename, pitchShift);
       }
-    } else if (track === 'beat1') {
-      this.filenames.beat1 = filename;
-      if (isSilent) {
-        this.audioManager.setBeatSilence(0);
-      } else {
-        await this.audioManager.setBeatSample(0, file);
-      }
-    } else if (track === 'beat2') {
-      this.filenames.beat2 = filename;
+    } else {
+      this.filenames.beat.set(trackNumber, filename);
       if (isSilent) {
-        this.audioManager.setBeatSilence(1);
+        this.audioManager.setBeatSilence(trackNumber);
+      } else if (synthWaveform) {
+        this.audioManager.setBeatSynth(trackNumber, synthWaveform);
       } else {
-        await this.audioManager.setBeatSample(1, file);
+        await this.audioManager.setBeatSample(trackNumber, file);
       }
     }
 
@@ -1434,14 +3430,93 @@ class Sequencer {
     this.syncBulkSoundDialog();
   }
 
-  private setSine(track: SoundTrackKey, melodyTrack?: number) {
-    return this.setAudio(track, null, 'sine', melodyTrack);
+  // Loads a beat track's sound without touching the controls
+  private applyBeatSound(track: number, filename: string) {
+    const file = this.files.find(f => f.file.name === filename)?.file || null;
+    const synthWaveform = getSynthWaveform(filename);
+    if (filename === 'silent') {
+      this.audioManager.setBeatSilence(track);
+    } else if (synthWaveform) {
+      this.audioManager.setBeatSynth(track, synthWaveform);
+    } else if (file) {
+      this.audioManager.setBeatSample(track, file);
+    }
+  }
+
+  private setSine(track: SoundTrackKey, trackNumber?: number) {
+    return this.setAudio(track, null, 'sine', trackNumber);
+  }
+
+  private getInstrument(id: string | null) {
+    return this.instruments.find(instrument => instrument.id === id) || null;
+  }
+
+  private applyInstrument(instrument: Instrument) {
+    const files = new Map(this.files.map(({ file }) => [file.name, file]));
+    return this.audioManager.setInstrument(instrument, files);
+  }
+
+  private async updateInstrument(instrument: Instrument) {
+    await this.applyInstrument(instrument);
+    this.saveData();
+  }
+
+  private deleteInstrument(id: string) {
+    this.instruments = this.instruments.filter(instrument => instrument.id !== id);
+    this.audioManager.deleteMelodyAudio(id);
+    this.filenames.melody.forEach((name, track) => {
+      if (name === id) {
+        this.filenames.melody.set(track, 'sine');
+      }
+    });
+    this.renderInstrumentOptions();
+  }
+
+  private confirmDeleteInstrument(id: string) {
+    const instrument = this.getInstrument(id);
+    if (instrument && confirm(i18next.t('confirm_delete_instrument', { name: instrument.name }))) {
+      this.deleteInstrument(id);
+      this.renderInstrumentDialog();
+      this.saveData();
+    }
+  }
+
+  // 音色はメロディートラックのサウンドセレクトにのみ表示する
+  private renderInstrumentOptions() {
+    const soundSelects = document.querySelectorAll('.sound[data-track="melody"] .sound-select, .sound-sources-row[data-track="melody"] .sound-select') as NodeListOf<HTMLSelectElement>;
+    soundSelects.forEach(soundSelect => {
+      soundSelect.querySelectorAll('.instrument-option').forEach(option => option.remove());
+      this.instruments.forEach(instrument => {
+        const option = document.createElement('option');
+        option.className = 'instrument-option';
+        option.value = instrument.id;
+        option.text = instrument.name;
+        soundSelect.appendChild(option);
+      });
+    });
+    this.syncMainSoundControls();
+    this.syncBulkSoundDialog();
   }
 
   private getFilenameByTrack(track: number): string {
     return this.filenames.melody.get(track) || 'sine';
   }
 
+  // 基音を推定して C4 に合わせるピッチシフトを提案する（適用はユーザーが選ぶ）
+  private async detectRootPitch(audioFile: AudioFile) {
+    try {
+      const buffer = await this.audioManager.getSampleBuffer(audioFile.file);
+      const estimate = detectPitch(buffer);
+      audioFile.detectedPitch = estimate ? { midi: estimate.midi, confidence: estimate.confidence } : null;
+    } catch (error) {
+      console.error('Failed to detect pitch:', error);
+      audioFile.detectedPitch = null;
+    }
+    if (!this.files.includes(audioFile)) return;
+    this.syncMainSoundControls();
+    this.saveData();
+  }
+
   private extractPitchShiftFromFilename(filename: string): number {
     const name = filenameToName(filename);
     const match = name.match(/ps([-+]?\d+(\.\d+)?)$/);
@@ -1468,6 +3543,11 @@ class Sequencer {
         trackNotes.forEach(note => this.selectedNotes.add(note.id));
         this.updateSelectedNotesVisual();
       }
+      // [ and ] set the loop start and end at the nearest bar line to the playback position
+      if ((e.key === '[' || e.key === ']') && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        e.preventDefault();
+        this.setLoopPoint(e.key === '[' ? 'start' : 'end', this.currentBeat);
+      }
       // Delete or Backspace to remove selected notes
       if ((e.key === 'Delete' || e.key === 'Backspace') && this.selectedNotes.size > 0) {
         e.preventDefault();
@@ -1475,6 +3555,7 @@ class Sequencer {
         notesToDelete.forEach(noteId => this.removeNote(noteId));
         this.selectedNotes.clear();
         this.updateSelectedNotesVisual();
+        this.saveData();
       }
     });
 
@@ -1500,7 +3581,7 @@ class Sequencer {
         pointerNotePosition = multipleFloor(x / this.noteWidth, this.quantization);
       }
       const pointerNoteIndex = Math.floor(y / this.noteHeight);
-      const pointerMidiNote = 108 - pointerNoteIndex; // C8 at top
+      const pointerMidiNote = this.snapPitch(108 - pointerNoteIndex); // C8 at top
       const isPointerDown = e.type === 'pointerdown';
       if (isPointerDown) {
         firstPointer.notePos = pointerNotePosition;
@@ -1532,7 +3613,7 @@ class Sequencer {
         const deltaNotePos = pointerNotePosition - firstPointer.notePos;
         const deltaPitch = pointerMidiNote - firstPointer.pitch;
         const newNotePos = firstCurrent.notePos + deltaNotePos;
-        const newPitch = firstCurrent.pitch + deltaPitch;
+        const newPitch = deltaPitch === 0 ? firstCurrent.pitch : this.snapPitch(firstCurrent.pitch + deltaPitch, deltaPitch);
         if (!isPointerDown && newNotePos === currentNote.start && newPitch === currentNote.pitch) {
           return;
         }
@@ -1640,96 +3721,1041 @@ class Sequencer {
       }
     });
 
-    pianoRoll.addEventListener('pointerup', (e) => {
-      if (!e.isPrimary || e.button !== 0) return; // 左クリックのみ
-      if ((e as PointerEvent).pointerType === 'touch') {
-        if (!this.paused) return;
-        if (this.multiTouched) {
-          const noteId = currentNote?.id || null;
-          if (noteId) {
-            this.removeNote(noteId);
-            currentNote = null;
-          }
-          if (currentPreviewId) {
-            this.audioManager.stopPreview(currentPreviewId);
-            currentPreviewId = null;
-          }
-          return; // マルチタッチ中の移動は無視
-        }
-      }
-      const target = e.target as HTMLElement;
-      target.classList.remove('dragging');
-      
-      if (this.isRectangleSelecting) {
-        this.endRectangleSelection(pianoRoll);
-        return;
+    pianoRoll.addEventListener('pointerup', (e) => {
+      if (!e.isPrimary || e.button !== 0) return; // 左クリックのみ
+      if ((e as PointerEvent).pointerType === 'touch') {
+        if (!this.paused) return;
+        if (this.multiTouched) {
+          const noteId = currentNote?.id || null;
+          if (noteId) {
+            this.removeNote(noteId);
+            currentNote = null;
+          }
+          if (currentPreviewId) {
+            this.audioManager.stopPreview(currentPreviewId);
+            currentPreviewId = null;
+          }
+          return; // マルチタッチ中の移動は無視
+        }
+      }
+      const target = e.target as HTMLElement;
+      target.classList.remove('dragging');
+      
+      if (this.isRectangleSelecting) {
+        this.endRectangleSelection(pianoRoll);
+        return;
+      }
+      
+      if (!isDragging) {
+        return;
+      }
+      isDragging = false;
+      this.audioManager.stopAllPreviews();
+    });
+
+    const removeNoteByEvent = (e: MouseEvent | CustomEvent) => {
+      const target = (e?.detail?.originalTarget as HTMLElement) || (e.target as HTMLElement);
+      const noteId = target.dataset.noteId || null;
+      const isCurrentNote = target.dataset.track === String(this.currentTrack);
+      // 非アクティブなノートは削除できない
+      if (noteId && isCurrentNote) {
+        this.removeNote(noteId);
+      }
+    };
+    dispatchPointerPressEvent(pianoRoll);
+    pianoRoll.addEventListener('dblclick', removeNoteByEvent);
+    pianoRoll.addEventListener('pointerpress', (e) => {
+      removeNoteByEvent(e as CustomEvent);
+    });
+  }
+
+  private initializeRhythmSection() {
+    const section = document.querySelector('.rhythm-section') as HTMLElement;
+    this.renderDrumLanes();
+
+    let isPointerDown = false;
+    let shoudRemove = false
+    section.addEventListener('pointerdown', (e: PointerEvent) => {
+      if (!e.isPrimary || e.button !== 0) return; // 左クリックのみ
+      const target = e.target as HTMLElement;
+      target.setPointerCapture(e.pointerId);
+      if (target.classList.contains('beat')) {
+        const position = parseFloat(target.dataset.position!);
+        const track = parseInt(target.dataset.track!);
+        if (target.classList.contains('active')) {
+          this.removeBeat(track, position);
+          shoudRemove = true;
+        } else {
+          this.addBeat(track, position);
+          shoudRemove = false;
+        }
+      }
+      isPointerDown = true;
+    });
+
+    section.addEventListener('pointermove', (e: PointerEvent) => {
+      if (!isPointerDown) return;
+      const target = e.target as HTMLElement;
+      if (target.classList.contains('beat')) {
+        const position = parseFloat(target.dataset.position!);
+        const track = parseInt(target.dataset.track!);
+        if (shoudRemove) {
+          this.removeBeat(track, position);
+        } else {
+          this.addBeat(track, position);
+        }
+      }
+    });
+
+    section.addEventListener('pointerup', (e: PointerEvent) => {
+      if (!e.isPrimary || e.button !== 0) return; // 左クリックのみ
+      isPointerDown = false;
+    });
+  }
+
+  // Copy, cut, paste and duplicate with the system clipboard.
+  // The piano roll works on the selected notes, and the rhythm section on the beats of the loop region or the bar at the playback position.
+  private setupClipboard() {
+    ['.piano-roll-grid', '.rhythm-tracks'].forEach(selector => {
+      const grid = document.querySelector(selector) as HTMLElement | null;
+      grid?.addEventListener('pointermove', (e) => {
+        this.pointerBeat = (e.clientX - grid.getBoundingClientRect().left) / this.noteWidth;
+      });
+      grid?.addEventListener('pointerleave', () => {
+        this.pointerBeat = null;
+      });
+    });
+
+    ['.piano-roll-section', '.rhythm-section'].forEach(selector => {
+      const section = document.querySelector(selector) as HTMLElement | null;
+      if (!section) return;
+      const source = selector === '.piano-roll-section' ? 'notes' : 'beats';
+      section.addEventListener('copy', (e) => {
+        const data = this.copyEvents(source);
+        if (!data) return;
+        e.preventDefault();
+        e.clipboardData?.setData('text/plain', JSON.stringify(data));
+      });
+      section.addEventListener('cut', (e) => {
+        const data = this.copyEvents(source);
+        if (!data) return;
+        e.preventDefault();
+        e.clipboardData?.setData('text/plain', JSON.stringify(data));
+        this.removeEvents(source);
+      });
+      section.addEventListener('paste', (e) => {
+        const data = parseClipboardData(e.clipboardData?.getData('text/plain') ?? '');
+        if (!data) return;
+        e.preventDefault();
+        this.pasteEvents(data, this.pointerBeat ?? this.currentBeat);
+      });
+      // Ctrl+D (Cmd+D on Mac) to duplicate right after the copied span
+      section.addEventListener('keydown', (e) => {
+        if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'd') return;
+        e.preventDefault();
+        const data = this.copyEvents(source);
+        if (!data) return;
+        const start = source === 'notes' ? this.getSelectionStart() : this.getBeatClipboardRange().start;
+        this.pasteEvents(data, start + this.snapLength(data.length));
+      });
+    });
+  }
+
+  // 選択中のノート、またはループ範囲（なければ再生位置の小節）のビート
+  private copyEvents(source: 'notes' | 'beats'): ClipboardData | null {
+    if (source === 'notes') {
+      const notes = this.notes.filter(note => this.selectedNotes.has(note.id));
+      if (notes.length === 0) return null;
+      const start = this.getSelectionStart();
+      const end = notes.reduce((end, note) => Math.max(end, note.start + note.length), 0);
+      return createClipboardData(notes, [], start, end - start);
+    }
+    const { start, end } = this.getBeatClipboardRange();
+    const beats = this.beats.filter(beat => beat.position >= start && beat.position < end);
+    if (beats.length === 0) return null;
+    return createClipboardData([], beats, start, end - start, this.drumLanes);
+  }
+
+  private removeEvents(source: 'notes' | 'beats') {
+    if (source === 'notes') {
+      Array.from(this.selectedNotes).forEach(noteId => this.removeNote(noteId));
+      this.selectedNotes.clear();
+      this.updateSelectedNotesVisual();
+    } else {
+      const { start, end } = this.getBeatClipboardRange();
+      this.beats.filter(beat => beat.position >= start && beat.position < end).forEach(beat => this.removeBeat(beat.track, beat.position));
+    }
+    this.saveData();
+  }
+
+  // Notes go to the current melody track and become the selection; beats go to their own drum lanes
+  private pasteEvents(data: ClipboardData, beat: number) {
+    const start = Math.max(0, this.quantization > 0 ? multipleFloor(beat, this.quantization) : beat);
+    const notes: Note[] = data.notes
+      .filter(note => note.pitch >= 21 && note.pitch <= 108)
+      .map(note => ({
+        id: `note-${Date.now()}-${Math.random()}`,
+        track: this.currentTrack,
+        pitch: note.pitch,
+        start: start + note.start,
+        length: note.length,
+        velocity: note.velocity
+      }));
+    // 貼り付け先のレーンを決め、ステップが埋まっているビートは貼らない
+    const steps = new Set(this.beats.map(b => `${b.track}/${this.getBeatStep(b.position)}`));
+    const beats: Beat[] = data.beats.flatMap(b => {
+      const lane = this.findPasteLane(b.track, data.lanes);
+      const position = start + b.position;
+      const step = `${lane?.track}/${this.getBeatStep(position)}`;
+      if (!lane || steps.has(step)) return [];
+      steps.add(step);
+      return [{ id: `beat-${Date.now()}-${Math.random()}`, track: lane.track, position, velocity: b.velocity }];
+    });
+    if (notes.length === 0 && beats.length === 0) return;
+
+    this.notes = this.notes.concat(notes);
+    this.beats = this.beats.concat(beats);
+    beats.forEach(b => this.renderBeat(b));
+    if (notes.length > 0) {
+      this.selectedNotes.clear();
+      notes.forEach(note => this.selectedNotes.add(note.id));
+      this.renderTracks();
+    }
+    this.saveData();
+  }
+
+  // The drum lane for a copied lane: the same lane when it still plays the same key, else a lane with that key.
+  // Beats whose lane has no match are dropped.
+  private findPasteLane(track: number, lanes: ClipboardLane[] | undefined) {
+    const source = lanes?.find(lane => lane.track === track);
+    if (!source) return lanes ? null : this.getDrumLane(track);
+    return this.drumLanes.find(lane => lane.track === source.track && lane.note === source.note)
+      ?? this.drumLanes.find(lane => lane.note === source.note && lane.name === source.name)
+      ?? this.drumLanes.find(lane => lane.note === source.note)
+      ?? null;
+  }
+
+  private getSelectionStart() {
+    const start = this.notes.filter(note => this.selectedNotes.has(note.id)).reduce((start, note) => Math.min(start, note.start), Infinity);
+    // 量子化の格子からのずれを貼り付け先でも保つ
+    return this.quantization > 0 ? multipleFloor(start, this.quantization) : start;
+  }
+
+  private getBeatClipboardRange() {
+    const pattern = getPattern(this.patterns, this.editingPattern);
+    if (pattern) return { start: 0, end: pattern.length };
+    if (this.loopRegion) return this.loopRegion;
+    const bar = barAt(buildMeterSegments(this.timeSignatures), this.currentBeat);
+    return { start: bar.start, end: bar.start + bar.length };
+  }
+
+  // A length rounded up to the quantization grid
+  private snapLength(length: number) {
+    return this.quantization > 0 ? Math.ceil(length / this.quantization - 1e-9) * this.quantization : length;
+  }
+
+  // Changes the time signature from the bar at the playback position on
+  private setTimeSignature(signature: TimeSignature) {
+    const segments = buildMeterSegments(this.timeSignatures);
+    const { start } = barAt(segments, this.currentBeat);
+    const before = segments.findLast(segment => segment.beat < start)?.signature ?? defaultTimeSignature;
+    if (isSameTimeSignature(signature, before)) {
+      this.timeSignatures.delete(start);
+    } else {
+      this.timeSignatures.set(start, signature);
+    }
+    this.timeSignaturesChanged();
+  }
+
+  // Inserts a bar before the bar at the playback position or deletes that bar, moving everything after it by the bar's real length.
+  // While a pattern is edited only its notes, beats and length change.
+  private changeBars(mode: 'insert' | 'delete') {
+    const segments = buildMeterSegments(this.timeSignatures);
+    const bar = barAt(segments, this.currentBeat);
+    const start = bar.start;
+    const end = barToBeat(segments, bar.bar + 1);
+    const length = end - start;
+    // 削除した小節の中の位置は小節の頭に寄せる
+    const move = (position: number) => {
+      if (position < start) return position;
+      return mode === 'insert' ? position + length : Math.max(start, position - length);
+    };
+    const removed = (position: number) => mode === 'delete' && position >= start && position < end;
+    // 挿入した小節は再生位置の小節の拍子とテンポを引き継ぐ
+    const moveChange = (position: number) => mode === 'insert' && position === start ? position : move(position);
+    // 削除した小節の中の変化点は、後ろの小節にかかっていれば小節の頭に残す
+    const moveChanges = <V>(changes: Map<number, V>) => {
+      const entries = Array.from(changes).sort(([a], [b]) => a - b);
+      const moved = new Map(entries.filter(([position]) => !removed(position)).map(([position, value]) => [moveChange(position), value]));
+      const carried = entries.findLast(([position]) => position <= end);
+      if (carried && removed(carried[0]) && !moved.has(start)) moved.set(start, carried[1]);
+      return new Map(Array.from(moved).sort(([a], [b]) => a - b));
+    };
+
+    this.changeTempo(() => {
+      this.notes = this.notes.filter(note => !removed(note.start)).map(note => ({
+        ...note,
+        start: move(note.start),
+        length: mode === 'delete' ? move(note.start + note.length) - move(note.start) : note.length
+      }));
+      this.beats = this.beats.filter(beat => !removed(beat.position)).map(beat => ({ ...beat, position: move(beat.position) }));
+
+      const pattern = getPattern(this.patterns, this.editingPattern);
+      if (pattern) {
+        pattern.length = Math.max(length, moveChange(pattern.length));
+        return;
+      }
+      this.clips = this.clips.filter(clip => !removed(clip.start)).map(clip => ({ ...clip, start: move(clip.start) }));
+      this.automation.forEach(lanes => lanes.forEach((points, param) => {
+        lanes.set(param, points.filter(point => !removed(point.position)).map(point => ({ ...point, position: move(point.position) })));
+      }));
+      this.timeSignatures = moveChanges(this.timeSignatures);
+      this.bpms = moveChanges(this.bpms);
+      this.tempoRamps = new Set(Array.from(this.tempoRamps).filter(beat => !removed(beat)).map(moveChange).filter(beat => this.bpms.has(beat)));
+      if (this.loopRegion) {
+        const loopStart = move(this.loopRegion.start);
+        const loopEnd = this.loopRegion.end > start ? move(this.loopRegion.end) : this.loopRegion.end;
+        this.loopRegion = loopEnd > loopStart ? { start: loopStart, end: loopEnd } : null;
+      }
+    });
+
+    this.selectedNotes.clear();
+    this.visibleNoteElements.forEach(element => element.remove());
+    this.visibleNoteElements.clear();
+    document.querySelectorAll<HTMLElement>('.rhythm-grid .beat.active').forEach(element => {
+      element.classList.remove('active');
+      element.style.removeProperty('--velocity');
+    });
+    this.beats.forEach(beat => this.renderBeat(beat));
+    this.renderTracks();
+    this.applyTempoChangesUpTo(this.currentBeat);
+    this.renderTempoLane();
+    this.renderLoopRegion();
+    this.renderAutomationLane();
+    this.renderPatternControls();
+    this.renderArrangementLane();
+    this.timeSignaturesChanged();
+  }
+
+  private timeSignaturesChanged() {
+    this.renderBarLines();
+    this.renderTimeSignatureControls();
+    this.saveData();
+  }
+
+  private renderTimeSignatureControls() {
+    const numeratorInput = document.getElementById('time-signature-numerator') as HTMLInputElement | null;
+    const denominatorSelect = document.getElementById('time-signature-denominator') as HTMLSelectElement | null;
+    const removeButton = document.getElementById('remove-time-signature-btn') as HTMLButtonElement | null;
+    if (!numeratorInput || !denominatorSelect || !removeButton) return;
+
+    const { start, signature } = barAt(buildMeterSegments(this.timeSignatures), this.currentBeat);
+    numeratorInput.valueAsNumber = signature.numerator;
+    denominatorSelect.value = (timeSignatureDenominators.includes(signature.denominator) ? signature.denominator : defaultTimeSignature.denominator).toString();
+    removeButton.hidden = !this.timeSignatures.has(start);
+  }
+
+  // Bar lines over the grids and bar numbers on the loop ruler
+  private renderBarLines() {
+    const segments = buildMeterSegments(this.timeSignatures);
+    const bars = barsBetween(segments, 0, this.gridSize);
+    const d = bars.map(bar => `M${bar.start} 0V1`).join('');
+    ['.piano-roll-grid', '.rhythm-tracks', '.tempo-lane', '.automation-section'].forEach(selector => {
+      const container = document.querySelector(selector);
+      if (!container) return;
+      let lines = container.querySelector(':scope > .bar-lines');
+      if (!lines) {
+        lines = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+        lines.classList.add('bar-lines');
+        lines.setAttribute('preserveAspectRatio', 'none');
+        lines.appendChild(document.createElementNS('http://www.w3.org/2000/svg', 'path'));
+        container.prepend(lines);
+      }
+      lines.setAttribute('viewBox', `0 0 ${this.gridSize} 1`);
+      lines.firstElementChild!.setAttribute('d', d);
+    });
+
+    const ruler = document.querySelector('.loop-ruler');
+    if (!ruler) return;
+    ruler.querySelectorAll('.bar-number').forEach(number => number.remove());
+    bars.forEach(bar => {
+      const number = document.createElement('span');
+      number.className = 'bar-number';
+      number.style.setProperty('--position', bar.start.toString());
+      number.textContent = (bar.bar + 1).toString();
+      // 拍子が変わる小節には拍子も表示する
+      if (this.timeSignatures.has(bar.start)) {
+        const { numerator, denominator } = this.timeSignatures.get(bar.start)!;
+        number.dataset.signature = `${numerator}/${denominator}`;
+      }
+      ruler.appendChild(number);
+    });
+  }
+
+  private setupTempoLane() {
+    const lane = document.querySelector('.tempo-lane') as HTMLElement | null;
+    if (!lane) return;
+
+    const bpmInput = document.getElementById('bpm-value') as HTMLInputElement;
+    const minBpm = parseInt(bpmInput.min);
+    const maxBpm = parseInt(bpmInput.max);
+    const snap = (beat: number) => this.quantization < 0 ? beat : Math.round(beat / this.quantization) * this.quantization;
+
+    // 変化点をドラッグして、横で位置、縦でテンポを変える
+    let dragging: { beat: number; bpm: number; x: number; y: number; current: number; moved: boolean } | null = null;
+    lane.addEventListener('contextmenu', (e) => e.preventDefault());
+    lane.addEventListener('pointerdown', (e: PointerEvent) => {
+      if (!e.isPrimary) return;
+      const point = (e.target as HTMLElement).closest<HTMLElement>('.tempo-point');
+      if (e.button === 2) {
+        // 右クリックで削除
+        if (point) this.removeTempoChange(parseFloat(point.dataset.beat!));
+        return;
+      }
+      if (e.button !== 0) return;
+      let beat: number;
+      if (point) {
+        beat = parseFloat(point.dataset.beat!);
+      } else {
+        // 空いている所を押したらその位置のテンポで変化点を追加
+        beat = Math.max(0, snap((e.clientX - lane.getBoundingClientRect().left) / this.noteWidth));
+        if (!this.bpms.has(beat)) {
+          const segments = buildTempoSegments(this.baseBpm, this.bpms, this.tempoRamps);
+          this.bpms.set(beat, Math.round(bpmAt(segments, beat)));
+          this.ensureBaseTempo(segments[0].bpm);
+        }
+      }
+      lane.setPointerCapture(e.pointerId);
+      dragging = { beat, bpm: this.bpms.get(beat)!, x: e.clientX, y: e.clientY, current: beat, moved: !point };
+      this.renderTempoLane();
+    });
+    lane.addEventListener('pointermove', (e: PointerEvent) => {
+      if (!dragging) return;
+      // 先頭の変化点は基準テンポなので横には動かさない
+      const beat = dragging.beat === 0 ? 0 : Math.max(0, snap(dragging.beat + (e.clientX - dragging.x) / this.noteWidth));
+      const bpm = minmax(Math.round(dragging.bpm - (e.clientY - dragging.y) / 2), minBpm, maxBpm);
+      const current = dragging.current;
+      // 他の変化点には重ねない
+      if (beat !== current && this.bpms.has(beat)) return;
+      this.bpms.delete(current);
+      this.bpms.set(beat, bpm);
+      if (this.tempoRamps.delete(current)) this.tempoRamps.add(beat);
+      dragging = { ...dragging, current: beat, moved: true };
+      this.renderTempoLane();
+    });
+    const endDragging = () => {
+      if (!dragging) return;
+      const { moved } = dragging;
+      dragging = null;
+      if (moved) this.tempoMapChanged();
+    };
+    lane.addEventListener('pointerup', endDragging);
+    lane.addEventListener('pointercancel', endDragging);
+
+    // ダブルクリックで次の変化点まで直線的にテンポを変えるかを切り替える
+    lane.addEventListener('dblclick', (e) => {
+      const point = (e.target as HTMLElement).closest<HTMLElement>('.tempo-point');
+      if (!point) return;
+      const beat = parseFloat(point.dataset.beat!);
+      if (!this.tempoRamps.delete(beat)) this.tempoRamps.add(beat);
+      this.tempoMapChanged();
+    });
+  }
+
+  private removeTempoChange(beat: number) {
+    // the change at beat 0 holds the base tempo, it goes only with the last other change
+    if (beat === 0 && this.bpms.size > 1) return;
+    this.bpms.delete(beat);
+    this.tempoRamps.delete(beat);
+    this.tempoMapChanged();
+  }
+
+  // Tempo from beat 0; once the map has changes it always holds an entry there, otherwise `bpm` is the only tempo
+  private get baseBpm() {
+    return this.bpms.get(0) ?? this.bpm;
+  }
+
+  // Writes the tempo before the first change into the map, so the base no longer depends on the displayed bpm
+  private ensureBaseTempo(bpm: number) {
+    if (this.bpms.size === 0 || this.bpms.has(0)) return;
+    this.bpms = new Map([[0, bpm], ...this.bpms]);
+  }
+
+  // Keeps the tempo map in beat order and reschedules playback with it
+  private tempoMapChanged() {
+    this.bpms = new Map(Array.from(this.bpms).sort(([a], [b]) => a - b));
+    this.invalidatePlayback();
+    this.tempoRamps.forEach(beat => {
+      if (!this.bpms.has(beat)) this.tempoRamps.delete(beat);
+    });
+    // 再生中はドラッグ前のテンポマップで現在位置を求めてから切り替える
+    this.changeTempo(() => {});
+    this.applyTempoChangesUpTo(this.currentBeat);
+    this.renderTempoLane();
+    this.saveData(['bpm', 'bpms', 'tempoRamps']);
+  }
+
+  // Tempo curve and change points, the curve spans the tempo range in use
+  private renderTempoLane() {
+    const lane = document.querySelector('.tempo-lane') as HTMLElement | null;
+    const curve = lane?.querySelector('.tempo-curve');
+    const path = curve?.querySelector('.tempo-path');
+    if (!lane || !curve || !path) return;
+
+    const segments = buildTempoSegments(this.baseBpm, this.bpms, this.tempoRamps);
+    const low = Math.min(...segments.map(segment => segment.bpm)) - 10;
+    const high = Math.max(...segments.map(segment => segment.bpm)) + 10;
+    const y = (bpm: number) => (high - bpm) / (high - low) * 100;
+    curve.setAttribute('viewBox', `0 0 ${this.gridSize} 100`);
+    const lines = segments.map((segment, i) => {
+      const next = segments[i + 1];
+      const endBpm = segment.ramp && next ? next.bpm : segment.bpm;
+      return `${i === 0 ? 'M' : 'L'}${segment.beat} ${y(segment.bpm)} L${next ? next.beat : this.gridSize} ${y(endBpm)}`;
+    });
+    path.setAttribute('d', lines.join(' '));
+
+    lane.querySelectorAll('.tempo-point').forEach(point => point.remove());
+    this.bpms.forEach((bpm, beat) => {
+      const point = document.createElement('div');
+      point.className = 'tempo-point';
+      point.classList.toggle('ramp', this.tempoRamps.has(beat));
+      point.dataset.beat = beat.toString();
+      point.style.setProperty('--position', beat.toString());
+      point.textContent = Math.round(bpm).toString();
+      lane.appendChild(point);
+    });
+  }
+
+  private setupLoopRuler() {
+    const ruler = document.querySelector('.loop-ruler') as HTMLElement | null;
+    if (!ruler) return;
+
+    // ドラッグした範囲を小節単位でループする（クリックはその小節だけ）
+    const pointerBeat = (e: PointerEvent) => Math.max(0, (e.clientX - ruler.getBoundingClientRect().left) / this.noteWidth);
+    let dragging: { beat: number } | null = null;
+    const selectBars = (from: number, to: number) => {
+      const segments = buildMeterSegments(this.timeSignatures);
+      const first = barAt(segments, Math.min(from, to));
+      const last = barAt(segments, Math.max(from, to));
+      this.loopRegion = { start: first.start, end: last.start + last.length };
+      this.renderLoopRegion();
+    };
+    ruler.addEventListener('contextmenu', (e) => e.preventDefault());
+    ruler.addEventListener('pointerdown', (e: PointerEvent) => {
+      if (!e.isPrimary) return;
+      if (e.button === 2) {
+        // 右クリックで区間を消して曲全体のループに戻す
+        if (this.loopRegion) {
+          this.loopRegion = null;
+          this.loopRegionChanged();
+        }
+        return;
+      }
+      if (e.button !== 0) return;
+      ruler.setPointerCapture(e.pointerId);
+      dragging = { beat: pointerBeat(e) };
+      selectBars(dragging.beat, dragging.beat);
+    });
+    ruler.addEventListener('pointermove', (e: PointerEvent) => {
+      if (!dragging) return;
+      selectBars(dragging.beat, pointerBeat(e));
+      this.scrollByDragging(e, true);
+    });
+    const endDragging = () => {
+      if (!dragging) return;
+      dragging = null;
+      const loopToggle = document.getElementById('loop-toggle') as HTMLInputElement;
+      loopToggle.checked = true;
+      this.loopRegionChanged();
+    };
+    ruler.addEventListener('pointerup', endDragging);
+    ruler.addEventListener('pointercancel', endDragging);
+
+    document.getElementById('loop-toggle')?.addEventListener('change', () => {
+      this.renderLoopRegion();
+    });
+  }
+
+  // Moves the loop start or end to the bar line nearest to `beat`, keeping the region at least a bar long
+  private setLoopPoint(edge: 'start' | 'end', beat: number) {
+    const segments = buildMeterSegments(this.timeSignatures);
+    const line = nearestBarLine(segments, beat);
+    const { start, end } = this.loopRegion ?? { start: 0, end: Math.max(this.getEndOfTrack(), line) };
+    if (edge === 'start') {
+      this.loopRegion = { start: line, end: end > line ? end : line + barAt(segments, line).length };
+    } else {
+      if (line <= 0) return;
+      this.loopRegion = { start: start < line ? start : barsBetween(segments, 0, line).at(-1)!.start, end: line };
+    }
+    const loopToggle = document.getElementById('loop-toggle') as HTMLInputElement;
+    loopToggle.checked = true;
+    this.loopRegionChanged();
+  }
+
+  // 再生中は新しい区間で予約し直す
+  private loopRegionChanged() {
+    this.changeTempo(() => {});
+    this.renderLoopRegion();
+    this.saveData(['loopRegion']);
+  }
+
+  private renderLoopRegion() {
+    const region = document.querySelector('.loop-region') as HTMLElement | null;
+    if (!region) return;
+    const loopToggle = document.getElementById('loop-toggle') as HTMLInputElement;
+    region.hidden = !this.loopRegion;
+    region.classList.toggle('inactive', !loopToggle.checked || this.editingPattern !== null);
+    if (this.loopRegion) {
+      region.style.setProperty('--start', this.loopRegion.start.toString());
+      region.style.setProperty('--length', (this.loopRegion.end - this.loopRegion.start).toString());
+    }
+  }
+
+  private setupPatterns() {
+    const select = document.getElementById('pattern-select') as HTMLSelectElement | null;
+    const nameInput = document.getElementById('pattern-name') as HTMLInputElement | null;
+    const lengthInput = document.getElementById('pattern-length') as HTMLInputElement | null;
+    const lane = document.querySelector('.arrangement-lane') as HTMLElement | null;
+    if (!select || !nameInput || !lengthInput || !lane) return;
+
+    select.addEventListener('change', () => {
+      this.editPattern(select.value || null);
+    });
+    document.getElementById('new-pattern-btn')?.addEventListener('click', () => {
+      this.createPattern();
+    });
+    nameInput.addEventListener('change', () => {
+      const pattern = getPattern(this.patterns, this.editingPattern);
+      if (!pattern) return;
+      pattern.name = nameInput.value.trim() || pattern.name;
+      this.renderPatternControls();
+      this.renderArrangementLane();
+      this.saveData();
+    });
+    lengthInput.addEventListener('change', () => {
+      const pattern = getPattern(this.patterns, this.editingPattern);
+      if (!pattern || isNaN(lengthInput.valueAsNumber)) return;
+      pattern.length = Math.max(parseFloat(lengthInput.min), lengthInput.valueAsNumber);
+      this.arrangementChanged();
+    });
+    document.getElementById('delete-pattern-btn')?.addEventListener('click', () => {
+      const pattern = getPattern(this.patterns, this.editingPattern);
+      if (pattern && confirm(i18next.t('confirm_delete_pattern', { name: pattern.name }))) {
+        this.deletePattern(pattern.id);
+      }
+    });
+
+    // クリップは小節線に合わせて置き、ドラッグで動かす
+    let dragging: { clip: Clip; start: number; x: number; moved: boolean } | null = null;
+    const segments = () => buildMeterSegments(this.timeSignatures);
+    lane.addEventListener('contextmenu', (e) => e.preventDefault());
+    lane.addEventListener('pointerdown', (e: PointerEvent) => {
+      if (!e.isPrimary || this.editingPattern) return;
+      const element = (e.target as HTMLElement).closest<HTMLElement>('.clip');
+      const clip = element ? this.clips.find(clip => clip.id === element.dataset.clip) : undefined;
+      if (e.button === 2) {
+        // 右クリックでクリップを削除（パターンは残る）
+        if (clip) {
+          this.clips = this.clips.filter(other => other !== clip);
+          this.arrangementChanged();
+        }
+        return;
+      }
+      if (e.button !== 0) return;
+      if (clip) {
+        this.clipPattern = clip.pattern;
+        dragging = { clip, start: clip.start, x: e.clientX, moved: false };
+      } else if (getPattern(this.patterns, this.clipPattern)) {
+        // 空いている所を押したらその小節に今のパターンを置く
+        const beat = Math.max(0, (e.clientX - lane.getBoundingClientRect().left) / this.noteWidth);
+        const added = { id: `clip-${Date.now()}-${Math.random()}`, pattern: this.clipPattern!, start: barAt(segments(), beat).start };
+        this.clips.push(added);
+        dragging = { clip: added, start: added.start, x: e.clientX, moved: true };
+      } else {
+        return;
+      }
+      lane.setPointerCapture(e.pointerId);
+      this.renderArrangementLane();
+    });
+    lane.addEventListener('pointermove', (e: PointerEvent) => {
+      if (!dragging) return;
+      const start = nearestBarLine(segments(), Math.max(0, dragging.start + (e.clientX - dragging.x) / this.noteWidth));
+      if (start === dragging.clip.start) return;
+      dragging.clip.start = start;
+      dragging.moved = true;
+      this.renderArrangementLane();
+    });
+    const endDragging = () => {
+      if (!dragging) return;
+      const { moved } = dragging;
+      dragging = null;
+      if (moved) this.arrangementChanged();
+    };
+    lane.addEventListener('pointerup', endDragging);
+    lane.addEventListener('pointercancel', endDragging);
+
+    // ダブルクリックでクリップのパターンを開く（編集中はダブルクリックで曲に戻る）
+    lane.addEventListener('dblclick', (e) => {
+      if (this.editingPattern) {
+        this.editPattern(null);
+        return;
+      }
+      const element = (e.target as HTMLElement).closest<HTMLElement>('.clip');
+      const clip = element ? this.clips.find(clip => clip.id === element.dataset.clip) : undefined;
+      if (clip) this.editPattern(clip.pattern);
+    });
+  }
+
+  // Turns the selected notes into a pattern placed where they were, or opens a new empty pattern
+  private createPattern() {
+    const segments = buildMeterSegments(this.timeSignatures);
+    const selected = this.editingPattern ? [] : this.notes.filter(note => this.selectedNotes.has(note.id));
+    const pattern: Pattern<Note, Beat> = {
+      id: `pattern-${Date.now()}-${Math.random()}`,
+      name: i18next.t('pattern_name', { number: this.patterns.length + 1 }),
+      length: barAt(segments, 0).length,
+      notes: [],
+      beats: []
+    };
+    this.patterns.push(pattern);
+    this.clipPattern = pattern.id;
+    if (selected.length === 0) {
+      this.editPattern(pattern.id);
+      this.saveData();
+      return;
+    }
+
+    // 選んだノートを含む小節をまとめてパターンにする
+    const start = barAt(segments, Math.min(...selected.map(note => note.start))).start;
+    const lastBar = barsBetween(segments, start, Math.max(...selected.map(note => note.start + note.length))).at(-1)!;
+    pattern.length = lastBar.start + lastBar.length - start;
+    pattern.notes = selected.map(note => ({ ...note, start: note.start - start }));
+    this.songNotes = this.songNotes.filter(note => !this.selectedNotes.has(note.id));
+    this.clips.push({ id: `clip-${Date.now()}-${Math.random()}`, pattern: pattern.id, start });
+    this.selectedNotes.clear();
+    this.renderTracks();
+    this.arrangementChanged();
+  }
+
+  private deletePattern(id: string) {
+    if (this.editingPattern === id) this.editPattern(null);
+    this.patterns = this.patterns.filter(pattern => pattern.id !== id);
+    this.clips = this.clips.filter(clip => clip.pattern !== id);
+    if (this.clipPattern === id) this.clipPattern = null;
+    this.arrangementChanged();
+  }
+
+  // Shows a pattern in the editor, or the song when `id` is null
+  private editPattern(id: string | null) {
+    if (id === this.editingPattern) return;
+    this.stop();
+    this.editingPattern = id;
+    this.invalidatePlayback();
+    if (id) this.clipPattern = id;
+    this.resetPlayback();
+    this.selectedNotes.clear();
+    // 同じ ID のノートが別の位置にあることがあるので作り直す
+    this.visibleNoteElements.forEach(element => element.remove());
+    this.visibleNoteElements.clear();
+    this.renderTracks();
+    document.querySelectorAll('.beat.active').forEach(beat => beat.classList.remove('active'));
+    this.beats.forEach(beat => this.renderBeat(beat));
+    this.renderPatternControls();
+    this.renderArrangementLane();
+    this.renderLoopRegion();
+  }
+
+  // 再生中は新しい並びで予約し直す
+  private arrangementChanged() {
+    this.invalidatePlayback();
+    this.changeTempo(() => {});
+    this.renderPatternControls();
+    this.renderArrangementLane();
+    this.saveData();
+  }
+
+  private renderPatternControls() {
+    const select = document.getElementById('pattern-select') as HTMLSelectElement | null;
+    const fields = document.querySelector('.pattern-fields') as HTMLElement | null;
+    const nameInput = document.getElementById('pattern-name') as HTMLInputElement | null;
+    const lengthInput = document.getElementById('pattern-length') as HTMLInputElement | null;
+    if (!select || !fields || !nameInput || !lengthInput) return;
+
+    select.innerHTML = '';
+    const song = document.createElement('option');
+    song.value = '';
+    song.dataset.i18n = 'song';
+    song.textContent = i18next.t('song');
+    select.appendChild(song);
+    this.patterns.forEach(pattern => {
+      const option = document.createElement('option');
+      option.value = pattern.id;
+      option.textContent = pattern.name;
+      select.appendChild(option);
+    });
+    select.value = this.editingPattern ?? '';
+
+    const pattern = getPattern(this.patterns, this.editingPattern);
+    fields.hidden = !pattern;
+    if (pattern) {
+      nameInput.value = pattern.name;
+      lengthInput.valueAsNumber = pattern.length;
+    }
+  }
+
+  // Clips of the song, or the range of the pattern being edited
+  private renderArrangementLane() {
+    const lane = document.querySelector('.arrangement-lane') as HTMLElement | null;
+    if (!lane) return;
+    lane.querySelectorAll('.clip').forEach(clip => clip.remove());
+    const pattern = getPattern(this.patterns, this.editingPattern);
+    const clips = pattern ? [{ id: '', pattern: pattern.id, start: 0 }] : this.clips;
+    clips.forEach(clip => {
+      const clipPattern = getPattern(this.patterns, clip.pattern);
+      if (!clipPattern) return;
+      const element = document.createElement('div');
+      element.className = 'clip';
+      element.classList.toggle('current', clip.pattern === this.clipPattern);
+      element.classList.toggle('editing', pattern !== null);
+      element.dataset.clip = clip.id;
+      element.style.setProperty('--start', clip.start.toString());
+      element.style.setProperty('--length', clipPattern.length.toString());
+      element.textContent = clipPattern.name;
+      lane.appendChild(element);
+    });
+  }
+
+  private setupAutomationLane() {
+    const section = document.querySelector('.automation-section') as HTMLElement | null;
+    const lane = section?.querySelector('.automation-lane') as SVGSVGElement | null;
+    const paramSelect = document.getElementById('automation-param-select') as HTMLSelectElement | null;
+    if (!section || !lane || !paramSelect) return;
+
+    paramSelect.addEventListener('change', () => {
+      const value = paramSelect.value;
+      if (value === 'velocity') {
+        this.velocityLane = 'notes';
+      } else if (value.startsWith('velocity-')) {
+        this.velocityLane = parseInt(value.slice('velocity-'.length));
+      } else {
+        this.velocityLane = null;
+        this.automationParam = value as AutomationParam;
       }
-      
-      if (!isDragging) {
+      this.renderAutomationLane();
+    });
+    document.addEventListener('translations-updated', () => this.renderVelocityOptions());
+
+    document.getElementById('clear-automation-btn')?.addEventListener('click', () => {
+      const lanes = this.automation.get(this.currentTrack);
+      if (!lanes?.has(this.automationParam) || !confirm(i18next.t('confirm_clear_automation'))) {
         return;
       }
-      isDragging = false;
-      this.audioManager.stopAllPreviews();
+      lanes.delete(this.automationParam);
+      this.automationChanged();
     });
 
-    const removeNoteByEvent = (e: MouseEvent | CustomEvent) => {
-      const target = (e?.detail?.originalTarget as HTMLElement) || (e.target as HTMLElement);
-      const noteId = target.dataset.noteId || null;
-      const isCurrentNote = target.dataset.track === String(this.currentTrack);
-      // 非アクティブなノートは削除できない
-      if (noteId && isCurrentNote) {
-        this.removeNote(noteId);
+    // なぞった区間の値を書き換える（右ボタンか Alt キーで消す）
+    let drawing: { erase: boolean; position: number; value: number } | null = null;
+    const pointerPoint = (e: PointerEvent) => {
+      const info = getAutomationParamInfo(this.automationParam);
+      const rect = lane.getBoundingClientRect();
+      const position = multipleFloor(Math.max(0, (e.clientX - rect.left) / this.noteWidth), Sequencer.automationStep);
+      const ratio = minmax(1 - (e.clientY - rect.top) / rect.height, 0, 1);
+      return { position, value: Math.round(info.min + ratio * (info.max - info.min)) };
+    };
+    const drawTo = (e: PointerEvent) => {
+      if (!drawing) return;
+      const point = pointerPoint(e);
+      const from = Math.min(drawing.position, point.position);
+      const to = Math.max(drawing.position, point.position) + Sequencer.automationStep;
+      const points: AutomationPoint[] = [];
+      if (!drawing.erase) {
+        // 速く動かして飛ばしたステップは直線で埋める
+        const span = point.position - drawing.position;
+        for (let position = from; position < to; position += Sequencer.automationStep) {
+          const t = span === 0 ? 1 : (position - drawing.position) / span;
+          points.push({ position, value: Math.round(drawing.value + (point.value - drawing.value) * t) });
+        }
       }
+      let lanes = this.automation.get(this.currentTrack);
+      if (!lanes) {
+        lanes = new Map();
+        this.automation.set(this.currentTrack, lanes);
+      }
+      setAutomationPoints(lanes, this.automationParam, from, to, points);
+      drawing = { ...drawing, ...point };
+      this.renderAutomationLane();
     };
-    dispatchPointerPressEvent(pianoRoll);
-    pianoRoll.addEventListener('dblclick', removeNoteByEvent);
-    pianoRoll.addEventListener('pointerpress', (e) => {
-      removeNoteByEvent(e as CustomEvent);
+
+    section.addEventListener('contextmenu', (e) => e.preventDefault());
+    section.addEventListener('pointerdown', (e: PointerEvent) => {
+      if (!e.isPrimary || (e.button !== 0 && e.button !== 2) || this.velocityLane !== null) return;
+      section.setPointerCapture(e.pointerId);
+      drawing = { erase: e.button === 2 || e.altKey, ...pointerPoint(e) };
+      drawTo(e);
     });
+    section.addEventListener('pointermove', drawTo);
+    const endDrawing = () => {
+      if (!drawing) return;
+      drawing = null;
+      this.automationChanged();
+    };
+    section.addEventListener('pointerup', endDrawing);
+    section.addEventListener('pointercancel', endDrawing);
   }
 
-  private initializeRhythmSection() {
-    const section = document.querySelector('.rhythm-section') as HTMLElement;
-    this.createBeats();
+  private automationChanged() {
+    this.automation.forEach((lanes, track) => {
+      if (lanes.size === 0) this.automation.delete(track);
+    });
+    this.renderAutomationLane();
+    this.saveData(['automation']);
+  }
 
-    let isPointerDown = false;
-    let shoudRemove = false
-    section.addEventListener('pointerdown', (e: PointerEvent) => {
-      if (!e.isPrimary || e.button !== 0) return; // 左クリックのみ
-      const target = e.target as HTMLElement;
-      target.setPointerCapture(e.pointerId);
-      if (target.classList.contains('beat')) {
-        const position = parseFloat(target.dataset.position!);
-        const track = parseInt(target.dataset.track!);
-        if (target.classList.contains('active')) {
-          this.removeBeat(track, position);
-          shoudRemove = true;
-        } else {
-          this.addBeat(track, position);
-          shoudRemove = false;
+  // ドラムレーンごとのベロシティの項目を作り直す
+  private renderVelocityOptions() {
+    const paramSelect = document.getElementById('automation-param-select') as HTMLSelectElement | null;
+    if (!paramSelect) return;
+    paramSelect.querySelectorAll('option[data-drum-lane]').forEach(option => option.remove());
+    paramSelect.querySelector('option[value="velocity"]')?.after(...this.drumLanes.map(drumLane => {
+      const option = document.createElement('option');
+      option.value = `velocity-${drumLane.track}`;
+      option.dataset.drumLane = drumLane.track.toString();
+      option.textContent = i18next.t('beat_velocity', { name: drumLane.name });
+      return option;
+    }));
+    this.renderAutomationLane();
+  }
+
+  // Velocity stems of the shown notes or beats, with a setter for each.
+  // While notes are selected only the selected ones are shown as editable.
+  private getVelocityEvents() {
+    if (this.velocityLane === 'notes') {
+      const notes = this.getCurrentTrackNotes();
+      return notes.map(note => ({
+        position: note.start,
+        velocity: note.velocity,
+        editable: this.selectedNotes.size === 0 || this.selectedNotes.has(note.id),
+        set: (velocity: number) => {
+          note.velocity = velocity;
+          const element = this.visibleNoteElements.get(note.id);
+          if (element) this.updateNoteMeta(element, note);
         }
+      }));
+    }
+    // ステップの丸の中央に立てる
+    const offset = (this.quantization > 0 ? this.quantization : 0.1) / 2;
+    return this.beats.filter(beat => beat.track === this.velocityLane).map(beat => ({
+      position: beat.position + offset,
+      velocity: beat.velocity,
+      editable: true,
+      set: (velocity: number) => {
+        beat.velocity = velocity;
+        this.renderBeat(beat);
       }
-      isPointerDown = true;
-    });
+    }));
+  }
 
-    section.addEventListener('pointermove', (e: PointerEvent) => {
-      if (!isPointerDown) return;
-      const target = e.target as HTMLElement;
-      if (target.classList.contains('beat')) {
-        const position = parseFloat(target.dataset.position!);
-        const track = parseInt(target.dataset.track!);
-        if (shoudRemove) {
-          this.removeBeat(track, position);
-        } else {
-          this.addBeat(track, position);
+  // Dragging a stem sets it and the stems at the same position; dragging from empty space draws a ramp over the stems it spans
+  private setupVelocityLane() {
+    const section = document.querySelector('.automation-section') as HTMLElement | null;
+    const lane = section?.querySelector('.automation-lane') as SVGSVGElement | null;
+    if (!section || !lane) return;
+
+    const grabDistance = 6; // px
+    let drag: {
+      events: ReturnType<Sequencer['getVelocityEvents']>;
+      grabbed: number | null; // position of the grabbed stems
+      position: number;
+      velocity: number;
+    } | null = null;
+    const pointerPoint = (e: PointerEvent) => {
+      const rect = lane.getBoundingClientRect();
+      return {
+        position: Math.max(0, (e.clientX - rect.left) / this.noteWidth),
+        velocity: Math.round(minmax(1 - (e.clientY - rect.top) / rect.height, 0, 1) * 126) + 1
+      };
+    };
+    const dragTo = (e: PointerEvent) => {
+      if (!drag) return;
+      const point = pointerPoint(e);
+      drag.events.forEach(event => {
+        if (drag!.grabbed !== null) {
+          if (event.position === drag!.grabbed) event.set(point.velocity);
+          return;
         }
-      }
-    });
+        const from = Math.min(drag!.position, point.position);
+        const to = Math.max(drag!.position, point.position);
+        if (event.position < from || event.position > to) {
+          // 範囲から外れたステムは元に戻す
+          event.set(event.velocity);
+          return;
+        }
+        const t = to === from ? 1 : (event.position - drag!.position) / (point.position - drag!.position);
+        event.set(Math.round(drag!.velocity + (point.velocity - drag!.velocity) * t));
+      });
+      this.renderAutomationLane();
+    };
 
-    section.addEventListener('pointerup', (e: PointerEvent) => {
-      if (!e.isPrimary || e.button !== 0) return; // 左クリックのみ
-      isPointerDown = false;
+    section.addEventListener('pointerdown', (e: PointerEvent) => {
+      if (!e.isPrimary || e.button !== 0 || this.velocityLane === null) return;
+      section.setPointerCapture(e.pointerId);
+      const point = pointerPoint(e);
+      const events = this.getVelocityEvents().filter(event => event.editable);
+      const nearest = events.reduce<number | null>((nearest, event) => {
+        const distance = Math.abs(event.position - point.position) * this.noteWidth;
+        if (distance > grabDistance) return nearest;
+        return nearest === null || Math.abs(event.position - point.position) < Math.abs(nearest - point.position) ? event.position : nearest;
+      }, null);
+      drag = { events, grabbed: nearest, ...point };
+      dragTo(e);
     });
+    section.addEventListener('pointermove', dragTo);
+    const endDrag = () => {
+      if (!drag) return;
+      drag = null;
+      this.saveData(['automation']);
+    };
+    section.addEventListener('pointerup', endDrag);
+    section.addEventListener('pointercancel', endDrag);
+  }
+
+  // Step line of the selected parameter on the current track, in beats and parameter units,
+  // or the velocity stems when a velocity lane is selected
+  private renderAutomationLane() {
+    const lane = document.querySelector('.automation-lane') as SVGSVGElement | null;
+    const path = lane?.querySelector('.automation-path');
+    const paramSelect = document.getElementById('automation-param-select') as HTMLSelectElement | null;
+    if (!lane || !path) return;
+
+    if (typeof this.velocityLane === 'number' && !this.getDrumLane(this.velocityLane)) {
+      this.velocityLane = 'notes';
+    }
+    lane.classList.toggle('velocity', this.velocityLane !== null);
+    lane.classList.toggle('beat-velocity', typeof this.velocityLane === 'number');
+    const clearButton = document.getElementById('clear-automation-btn');
+    if (clearButton) clearButton.hidden = this.velocityLane !== null;
+
+    if (this.velocityLane !== null) {
+      const cap = 6 / this.noteWidth; // stem head width in beats
+      const stems = (events: ReturnType<Sequencer['getVelocityEvents']>) => events.map(event => `M${event.position} 127V${127 - event.velocity}h${cap}`).join('');
+      const events = this.getVelocityEvents();
+      const [stemPath, editablePath] = Array.from(lane.querySelectorAll('.velocity-path'));
+      lane.setAttribute('viewBox', `0 0 ${this.gridSize} 127`);
+      stemPath?.setAttribute('d', stems(events.filter(event => !event.editable)));
+      editablePath?.setAttribute('d', stems(events.filter(event => event.editable)));
+      if (paramSelect) paramSelect.value = this.velocityLane === 'notes' ? 'velocity' : `velocity-${this.velocityLane}`;
+      return;
+    }
+
+    const info = getAutomationParamInfo(this.automationParam);
+    const points = this.automation.get(this.currentTrack)?.get(this.automationParam) || [];
+    const y = (value: number) => info.max - value;
+    lane.setAttribute('viewBox', `0 0 ${this.gridSize} ${info.max - info.min}`);
+    const steps = points.map(point => `H${point.position} V${y(point.value)}`);
+    path.setAttribute('d', [`M0 ${y(info.defaultValue)}`, ...steps, `H${this.gridSize}`].join(' '));
+    lane.classList.toggle('empty', points.length === 0);
+    if (paramSelect) paramSelect.value = this.automationParam;
   }
 
   private setupNoteDragResize() {
@@ -1844,17 +4870,39 @@ class Sequencer {
     const savedTitle = await localForage.getItem<string>('title');
     const savedNotes = await localForage.getItem<Note[]>('notes');
     const savedBeats = await localForage.getItem<Beat[]>('beats');
+    const savedPatterns = await localForage.getItem<Pattern<Note, Beat>[]>('patterns');
+    const savedClips = await localForage.getItem<Clip[]>('clips');
     const savedBpm = await localForage.getItem<number>('bpm');
     const savedBpms = await localForage.getItem<Map<number, number>>('bpms');
+    const savedTempoRamps = await localForage.getItem<Set<number>>('tempoRamps');
+    const savedTimeSignatures = await localForage.getItem<Map<number, TimeSignature>>('timeSignatures');
+    const savedLoopRegion = await localForage.getItem<{ start: number; end: number }>('loopRegion');
+    const savedScale = await localForage.getItem<ScaleSettings>('scale');
     const savedPlaybackSpeed = await localForage.getItem<number>('playbackSpeed');
     const savedignoreNoteValue = await localForage.getItem<boolean>('ignoreNoteValue');
     const savedQuantization = await localForage.getItem<number>('quantization');
+    const savedMetronome = await localForage.getItem<boolean>('metronome');
+    const savedCountIn = await localForage.getItem<number>('countIn');
+    const savedGroove = await localForage.getItem<GrooveSettings>('groove');
+    const savedGrooves = await localForage.getItem<GrooveTemplate[]>('grooves');
+    const savedAutomation = await localForage.getItem<Map<number, AutomationLanes>>('automation');
     const savedAudioFiles = await localForage.getItem<AudioFile[]>('audioFiles');
     const savedAudioFilenames = await localForage.getItem<Filenames>('audioFilenames');
     const savedInstrumentCodes = await localForage.getItem<InstrumentCodes>('instrumentCodes');
+    const savedInstruments = await localForage.getItem<Instrument[]>('instruments');
+    const savedEnvelopes = await localForage.getItem<{ melody: Map<number, Envelope>; beat: Map<number, Envelope> }>('envelopes');
+    const savedSynths = await localForage.getItem<{ melody: Map<number, SynthSettings>; beat: Map<number, SynthSettings> }>('synths');
+    const savedStretch = await localForage.getItem<Map<number, StretchSettings>>('stretch');
+    const savedBeatPlayback = await localForage.getItem<Map<number, BeatPlaybackSettings>>('beatPlayback');
+    const savedMixer = await localForage.getItem<MixerSettings>('mixer');
+    const savedEffects = await localForage.getItem<EffectSettings>('effects');
+    const savedLimiter = await localForage.getItem<LimiterSettings>('limiter');
+    const savedNormalize = await localForage.getItem<NormalizeSettings>('normalize');
+    const savedDrumLanes = await localForage.getItem<DrumLane[]>('drumLanes');
     const savedGridSize = await localForage.getItem<number>('gridSize');
     const savedGridScaleX = await localForage.getItem<number>('gridScaleX');
     const savedGridScaleY = await localForage.getItem<number>('gridScaleY');
+    const savedHistory = await localForage.getItem<StoredHistory>('historySteps');
 
     if (savedGridSize) {
       this.gridSize = savedGridSize;
@@ -1875,17 +4923,25 @@ class Sequencer {
     }
 
     if (savedNotes) {
-      this.notes = savedNotes;
+      this.songNotes = savedNotes;
       // Render notes (will be re-rendered in renderTracks)
     }
 
+    if (Array.isArray(savedDrumLanes) && savedDrumLanes.length > 0) {
+      this.drumLanes = savedDrumLanes;
+    }
+
     if (savedBeats) {
-      this.beats = savedBeats;
-      // Render beats
-      document.querySelectorAll('.beat').forEach(beat => beat.remove());
-      this.createBeats();
-      this.beats.forEach(beat => this.renderBeat(beat));
+      this.songBeats = savedBeats;
     }
+    if (savedPatterns) {
+      this.patterns = savedPatterns;
+    }
+    if (savedClips) {
+      this.clips = savedClips;
+    }
+    // Render drum lanes and beats
+    this.renderDrumLanes();
 
     if (savedBpm) {
       this.bpm = savedBpm;
@@ -1897,7 +4953,23 @@ class Sequencer {
 
     if (savedBpms) {
       this.bpms = savedBpms;
+      // 以前のデータは先頭の変化点がないので、保存されていたテンポを基準にする
+      this.ensureBaseTempo(savedBpm || 120);
+    }
+    if (savedTempoRamps) {
+      this.tempoRamps = savedTempoRamps;
+    }
+    if (savedTimeSignatures) {
+      this.timeSignatures = savedTimeSignatures;
     }
+    if (savedLoopRegion) {
+      this.loopRegion = savedLoopRegion;
+    }
+    if (savedScale) {
+      this.scale = { ...defaultScaleSettings, ...savedScale };
+    }
+    this.renderScaleControls();
+    this.renderScaleRows();
 
     if (savedPlaybackSpeed) {
       this.playbackSpeed = savedPlaybackSpeed;
@@ -1920,6 +4992,75 @@ class Sequencer {
       if (quantizationSelect) quantizationSelect.value = this.quantization.toString();
     }
 
+    if (typeof savedMetronome === 'boolean') {
+      this.metronome = savedMetronome;
+      const metronomeToggle = document.getElementById('metronome-toggle') as HTMLInputElement;
+      if (metronomeToggle) metronomeToggle.checked = this.metronome;
+    }
+
+    if (savedCountIn !== null && !isNaN(savedCountIn)) {
+      this.countIn = savedCountIn;
+      const countInSelect = document.getElementById('count-in-select') as HTMLSelectElement;
+      if (countInSelect) countInSelect.value = this.countIn.toString();
+    }
+
+    if (savedGrooves) {
+      this.grooves = savedGrooves;
+    }
+    if (savedGroove) {
+      this.groove = { ...defaultGrooveSettings, ...savedGroove };
+    }
+    this.renderGrooveControls();
+
+    if (savedAutomation) {
+      this.automation = savedAutomation;
+    }
+    this.renderBarLines();
+    this.renderTempoLane();
+    this.renderLoopRegion();
+    this.renderAutomationLane();
+    this.renderPatternControls();
+    this.renderArrangementLane();
+
+    if (savedEnvelopes) {
+      this.envelopes = savedEnvelopes;
+    }
+    this.audioManager.setEnvelopes(this.envelopes.melody, this.envelopes.beat);
+
+    if (savedSynths) {
+      this.synths = savedSynths;
+    }
+    this.audioManager.setSynthSettings(this.synths.melody, this.synths.beat);
+
+    if (savedStretch) {
+      this.stretch = savedStretch;
+    }
+    this.audioManager.setStretchSettings(this.stretch);
+
+    if (savedBeatPlayback) {
+      this.beatPlayback = savedBeatPlayback;
+    }
+    this.audioManager.setBeatPlaybackSettings(this.beatPlayback);
+
+    if (savedMixer) {
+      this.mixer = savedMixer;
+    }
+    this.audioManager.setMixer(this.mixer);
+
+    if (savedEffects) {
+      this.effects = savedEffects;
+    }
+    this.audioManager.setEffects(this.effects);
+
+    if (savedLimiter) {
+      this.limiter = { ...defaultLimiterSettings, ...savedLimiter };
+    }
+    this.audioManager.setLimiter(this.limiter);
+
+    if (savedNormalize) {
+      this.normalize = { ...defaultNormalizeSettings, ...savedNormalize };
+    }
+
     if (savedInstrumentCodes) {
       this.instrumentCodes = savedInstrumentCodes;
       const instrumentNameOutput = document.getElementById('instrument-name') as HTMLOutputElement;
@@ -1936,9 +5077,13 @@ class Sequencer {
       this.files = savedAudioFiles;
 
       // オーディオマネージャーに音源をセット
-      this.files.forEach(({ file, pitchShift }) => {
-        this.audioManager.setMelodyAudio(file);
-        this.audioManager.setMelodyPitchShift(file.name, pitchShift);
+      this.files.forEach(audioFile => {
+        this.audioManager.setMelodyAudio(audioFile.file);
+        this.audioManager.setMelodyPitchShift(audioFile.file.name, audioFile.pitchShift);
+        this.audioManager.setSampleRegion(audioFile.file.name, audioFile);
+        if (audioFile.detectedPitch === undefined) {
+          this.detectRootPitch(audioFile);
+        }
       });
 
       // すべてのサウンドセレクトにオプションを追加
@@ -1951,49 +5096,25 @@ class Sequencer {
           soundSelect.appendChild(option);
         });
       });
+      if (Array.isArray(savedInstruments)) {
+        this.instruments = savedInstruments;
+        // 読めないサンプルがあっても残りの楽器と読み込みを続ける
+        await Promise.all(this.instruments.map(instrument => this.applyInstrument(instrument).catch(error => {
+          console.error(`Error loading instrument ${instrument.name}:`, error);
+        })));
+        this.renderInstrumentOptions();
+      }
       if (savedAudioFilenames) {
-        this.filenames = savedAudioFilenames;
-        Object.entries(savedAudioFilenames).forEach(([track, value]) => {
-          const container = document.querySelector(`.sound[data-track="${track}"]`) as HTMLElement;
-          const soundSelectLabel = container.querySelector('.sound-select-label') as HTMLElement;
-          const soundSelect = container.querySelector('.sound-select') as HTMLSelectElement;
-          if (track === 'melody') {
-            const filenames = value as Map<number, string>;
-            const filename = filenames.get(this.currentTrack) || 'sine';
-            const audioFile = this.files.find(f => f.file.name === filename) || null;
-            if (audioFile && audioFile.pitchShift) {
-              const pitchShiftInput = document.getElementById('melody-pitch-shift') as HTMLInputElement;
-              if (pitchShiftInput) pitchShiftInput.valueAsNumber = audioFile.pitchShift;
-            }
-            const pitchShiftLabel = document.querySelector('.pitch-shift-label') as HTMLElement;
-            soundSelect.value = filename;
-            const isCustomSound = filename !== 'sine' && filename !== 'silent';
-            pitchShiftLabel.hidden = !isCustomSound;
-          } else {
-            const filename = value as string | null || 'sine';
-            const file = this.files.find(f => f.file.name === filename)?.file || null;
-            soundSelect.value = filename;
-            if (filename === 'silent') {
-              if (track === 'beat1') {
-                this.audioManager.setBeatSilence(0);
-              } else if (track === 'beat2') {
-                this.audioManager.setBeatSilence(1);
-              }
-            } else if (file) {
-              if (track === 'beat1') {
-                this.audioManager.setBeatSample(0, file);
-              } else if (track === 'beat2') {
-                this.audioManager.setBeatSample(1, file);
-              }
-            }
-          }
-          const isCustomSound = soundSelect.value !== 'sine' && soundSelect.value !== 'silent';
-          if (isCustomSound) {
-            soundSelectLabel.classList.add('added-sound');
-          } else {
-            soundSelectLabel.classList.remove('added-sound');
-          }
-        });
+        // 以前の形式（beat1/beat2）はドラムレーン 0/1 に移す
+        const { beat1, beat2 } = savedAudioFilenames as Partial<Record<'beat1' | 'beat2', string | null>>;
+        this.filenames = {
+          melody: savedAudioFilenames.melody,
+          beat: savedAudioFilenames.beat || new Map<number, string>()
+        };
+        if (beat1) this.filenames.beat.set(0, beat1);
+        if (beat2) this.filenames.beat.set(1, beat2);
+
+        this.filenames.beat.forEach((filename, track) => this.applyBeatSound(track, filename));
       }
     }
 
@@ -2001,6 +5122,26 @@ class Sequencer {
     this.syncBulkSoundDialog();
 
     this.renderTracks();
+
+    if (savedHistory) {
+      const keys = await localForage.keys();
+      this.historyFiles = new Set(keys.filter(key => key.startsWith('historyFile/')).map(key => key.slice('historyFile/'.length)));
+      const steps = await Promise.all(savedHistory.ids.map(id => localForage.getItem<HistoryStep<StoredParts>>(`history/${id}`)));
+      // 保存に失敗した段があればそこから先は使わない
+      const missing = steps.findIndex(step => !step);
+      const saved = (missing < 0 ? steps : steps.slice(0, missing)) as HistoryStep<StoredParts>[];
+      const loaded = await Promise.all(saved.map(async step => ({
+        id: step.id,
+        before: await this.loadHistoryParts(step.before),
+        after: await this.loadHistoryParts(step.after)
+      })));
+      this.history = { steps: loaded, index: Math.min(savedHistory.index, loaded.length) };
+    }
+    // 以前の形式の履歴はプロジェクト全体を何段も持っていて大きいので消す
+    ['history', 'historyFiles'].forEach(key => localForage.removeItem(key).catch(error => console.error('Error removing old history:', error)));
+    this.resetHistoryParts();
+    this.renderHistoryButtons();
+    this.invalidatePlayback();
   }
 
   private updateViewPort() {
@@ -2055,21 +5196,310 @@ class Sequencer {
     }
   }
 
-  private saveData() {
+  // parts: what changed, for the history; every part when not given
+  private saveData(parts?: Array<keyof ProjectSnapshot>) {
+    this.invalidatePlayback();
+    this.markHistoryParts(parts);
     localForage.setItem('title', this.title);
-    localForage.setItem('notes', this.notes);
-    localForage.setItem('beats', this.beats);
+    localForage.setItem('notes', this.songNotes);
+    localForage.setItem('beats', this.songBeats);
+    localForage.setItem('patterns', this.patterns);
+    localForage.setItem('clips', this.clips);
     localForage.setItem('bpm', this.bpm);
     localForage.setItem('bpms', this.bpms);
+    localForage.setItem('tempoRamps', this.tempoRamps);
+    localForage.setItem('timeSignatures', this.timeSignatures);
+    localForage.setItem('loopRegion', this.loopRegion);
+    localForage.setItem('scale', this.scale);
     localForage.setItem('playbackSpeed', this.playbackSpeed);
     localForage.setItem('ignoreNoteValue', this.ignoreNoteValue);
     localForage.setItem('quantization', this.quantization);
+    localForage.setItem('metronome', this.metronome);
+    localForage.setItem('countIn', this.countIn);
+    localForage.setItem('groove', this.groove);
+    localForage.setItem('grooves', this.grooves);
+    localForage.setItem('automation', this.automation);
     localForage.setItem('audioFiles', this.files);
     localForage.setItem('audioFilenames', this.filenames);
     localForage.setItem('instrumentCodes', this.instrumentCodes);
+    localForage.setItem('instruments', this.instruments);
+    localForage.setItem('envelopes', this.envelopes);
+    localForage.setItem('synths', this.synths);
+    localForage.setItem('stretch', this.stretch);
+    localForage.setItem('beatPlayback', this.beatPlayback);
+    localForage.setItem('mixer', this.mixer);
+    localForage.setItem('effects', this.effects);
+    localForage.setItem('limiter', this.limiter);
+    localForage.setItem('normalize', this.normalize);
+    localForage.setItem('drumLanes', this.drumLanes);
     localForage.setItem('gridSize', this.gridSize);
     localForage.setItem('gridScaleX', this.gridScaleX);
     localForage.setItem('gridScaleY', this.gridScaleY);
+    this.recordHistory();
+  }
+
+  // The live project state; files drop the detected pitch, which is filled in later and is not an edit
+  private createSnapshot(): ProjectSnapshot {
+    return {
+      title: this.title,
+      notes: this.songNotes,
+      beats: this.songBeats,
+      patterns: this.patterns,
+      clips: this.clips,
+      bpm: this.bpm,
+      bpms: this.bpms,
+      tempoRamps: this.tempoRamps,
+      timeSignatures: this.timeSignatures,
+      loopRegion: this.loopRegion,
+      scale: this.scale,
+      playbackSpeed: this.playbackSpeed,
+      ignoreNoteValue: this.ignoreNoteValue,
+      quantization: this.quantization,
+      metronome: this.metronome,
+      countIn: this.countIn,
+      groove: this.groove,
+      grooves: this.grooves,
+      automation: this.automation,
+      files: this.files.map(audioFile => ({ ...audioFile, detectedPitch: undefined })),
+      filenames: this.filenames,
+      instrumentCodes: this.instrumentCodes,
+      instruments: this.instruments,
+      envelopes: this.envelopes,
+      synths: this.synths,
+      stretch: this.stretch,
+      beatPlayback: this.beatPlayback,
+      mixer: this.mixer,
+      effects: this.effects,
+      limiter: this.limiter,
+      normalize: this.normalize,
+      drumLanes: this.drumLanes
+    };
+  }
+
+  // Takes the live project as the current step, the base the next edit is compared with
+  private resetHistoryParts() {
+    const snapshot = this.createSnapshot();
+    this.historyParts = new Map((Object.keys(snapshot) as Array<keyof ProjectSnapshot>).map(key => [
+      key,
+      { text: serializeState(snapshot[key]), value: structuredClone(snapshot[key]) }
+    ]));
+  }
+
+  private markHistoryParts(parts?: Array<keyof ProjectSnapshot>) {
+    if (!parts) {
+      this.dirtyParts = 'all';
+    } else if (this.dirtyParts !== 'all') {
+      parts.forEach(part => (this.dirtyParts as Set<keyof ProjectSnapshot>).add(part));
+    }
+  }
+
+  // 前の段から変わった部分だけを新しい段として残す。
+  // 編集ごとのコマンドではなく状態の差分を記録するが、変わったかもしれない部分だけを比べる
+  private recordHistory() {
+    if (this.restoringHistory || this.pointerEditing) return;
+    // 読み込みを終えるまでは比べる元がない
+    if (this.historyParts.size === 0) return;
+    const snapshot = this.createSnapshot();
+    const keys = this.dirtyParts === 'all' ? Object.keys(snapshot) as Array<keyof ProjectSnapshot> : Array.from(this.dirtyParts);
+    this.dirtyParts = new Set();
+    const before: Record<string, unknown> = {};
+    const after: Record<string, unknown> = {};
+    keys.forEach(key => {
+      const text = serializeState(snapshot[key]);
+      const part = this.historyParts.get(key);
+      if (part?.text === text) return;
+      const value = structuredClone(snapshot[key]);
+      before[key] = part?.value;
+      after[key] = value;
+      this.historyParts.set(key, { text, value });
+    });
+    if (Object.keys(after).length === 0) return;
+    const step: HistoryStep<ProjectSnapshot> = { id: `${Date.now()}-${Math.random()}`, before, after };
+    const dropped = pushHistory(this.history, step);
+    this.saveHistory(step, dropped);
+    this.renderHistoryButtons();
+  }
+
+  // Writes the new step and the step order; a full storage only loses the history, not the edit
+  private saveHistory(step?: HistoryStep<ProjectSnapshot>, dropped: HistoryStep<ProjectSnapshot>[] = []) {
+    const logError = (error: unknown) => console.error('Error saving history:', error);
+    if (step) {
+      const stored = { ...step, before: this.storeHistoryParts(step.before), after: this.storeHistoryParts(step.after) };
+      localForage.setItem(`history/${step.id}`, stored).catch(logError);
+    }
+    dropped.forEach(({ id }) => localForage.removeItem(`history/${id}`).catch(logError));
+    if (dropped.length > 0) {
+      // どの段からも使われなくなったファイルを消す
+      const names = new Set(this.history.steps.flatMap(({ before, after }) => [...(before.files ?? []), ...(after.files ?? [])].map(({ file }) => file.name)));
+      this.historyFiles.forEach(name => {
+        if (names.has(name)) return;
+        this.historyFiles.delete(name);
+        localForage.removeItem(`historyFile/${name}`).catch(logError);
+      });
+    }
+    const stored: StoredHistory = { ids: this.history.steps.map(({ id }) => id), index: this.history.index };
+    localForage.setItem('historySteps', stored).catch(logError);
+  }
+
+  // Files become names; a file the project no longer has is saved once for the history
+  private storeHistoryParts(parts: Partial<ProjectSnapshot>): StoredParts {
+    if (!parts.files) return parts;
+    const names = new Set(this.files.map(({ file }) => file.name));
+    parts.files.forEach(({ file }) => {
+      if (names.has(file.name) || this.historyFiles.has(file.name)) return;
+      this.historyFiles.add(file.name);
+      localForage.setItem(`historyFile/${file.name}`, file).catch(error => console.error('Error saving history:', error));
+    });
+    return { ...parts, files: parts.files.map(audioFile => ({ ...audioFile, file: audioFile.file.name })) };
+  }
+
+  // Saved parts with their files looked up again; files that cannot be found are left out
+  private async loadHistoryParts(parts: StoredParts): Promise<Partial<ProjectSnapshot>> {
+    if (!parts.files) return parts as Partial<ProjectSnapshot>;
+    const files = await Promise.all(parts.files.map(async audioFile => {
+      if (typeof audioFile.file !== 'string') return audioFile as AudioFile;
+      const name = audioFile.file;
+      const file = this.files.find(f => f.file.name === name)?.file ?? await localForage.getItem<File>(`historyFile/${name}`);
+      return file ? { ...audioFile, file } : null;
+    }));
+    return { ...parts, files: files.filter(audioFile => audioFile !== null) } as Partial<ProjectSnapshot>;
+  }
+
+  private undo() {
+    if (this.pointerEditing) return;
+    // まだ記録していない変更があれば先に一段にしてから戻す
+    this.recordHistory();
+    const parts = undoHistory(this.history);
+    if (parts) this.restoreSnapshot({ ...this.createSnapshot(), ...parts });
+  }
+
+  private redo() {
+    if (this.pointerEditing) return;
+    const parts = redoHistory(this.history);
+    if (parts) this.restoreSnapshot({ ...this.createSnapshot(), ...parts });
+  }
+
+  private renderHistoryButtons() {
+    (document.getElementById('undo-btn') as HTMLButtonElement | null)?.toggleAttribute('disabled', !canUndo(this.history));
+    (document.getElementById('redo-btn') as HTMLButtonElement | null)?.toggleAttribute('disabled', !canRedo(this.history));
+  }
+
+  // Puts the project back to a history state and refreshes everything that shows it
+  private restoreSnapshot(snapshot: ProjectSnapshot) {
+    const state = structuredClone(snapshot);
+    this.restoringHistory = true;
+    const soundLibraryChanged = serializeState([state.files, state.instruments]) !== serializeState([this.createSnapshot().files, this.instruments]);
+    // 再生中は位置を保ったまま戻した内容で予約し直す
+    this.changeTempo(() => {
+      if (soundLibraryChanged) {
+        this.restoreSoundLibrary(state.files, state.instruments).catch(error => console.error('Error restoring sounds:', error));
+      }
+      this.title = state.title;
+      this.songNotes = state.notes;
+      this.songBeats = state.beats;
+      this.patterns = state.patterns;
+      this.clips = state.clips;
+      if (!getPattern(this.patterns, this.editingPattern)) this.editingPattern = null;
+      if (!getPattern(this.patterns, this.clipPattern)) this.clipPattern = null;
+      this.bpm = state.bpm;
+      this.bpms = state.bpms;
+      this.ensureBaseTempo(state.bpm);
+      this.tempoRamps = state.tempoRamps;
+      this.timeSignatures = state.timeSignatures;
+      this.loopRegion = state.loopRegion;
+      this.scale = state.scale ?? { ...defaultScaleSettings };
+      this.playbackSpeed = state.playbackSpeed;
+      this.ignoreNoteValue = state.ignoreNoteValue;
+      this.quantization = state.quantization;
+      this.metronome = state.metronome;
+      this.countIn = state.countIn;
+      this.groove = state.groove;
+      this.grooves = state.grooves;
+      this.automation = state.automation;
+      this.filenames = state.filenames;
+      this.instrumentCodes = state.instrumentCodes;
+      this.envelopes = state.envelopes;
+      this.synths = state.synths;
+      this.stretch = state.stretch;
+      this.beatPlayback = state.beatPlayback;
+      this.mixer = state.mixer;
+      this.effects = state.effects;
+      this.limiter = state.limiter;
+      this.normalize = state.normalize;
+      this.drumLanes = state.drumLanes;
+    });
+
+    this.audioManager.setEnvelopes(this.envelopes.melody, this.envelopes.beat);
+    this.audioManager.setSynthSettings(this.synths.melody, this.synths.beat);
+    this.audioManager.setStretchSettings(this.stretch);
+    this.audioManager.setBeatPlaybackSettings(this.beatPlayback);
+    this.audioManager.setMixer(this.mixer);
+    this.audioManager.setEffects(this.effects);
+    this.audioManager.setLimiter(this.limiter);
+    this.filenames.beat.forEach((filename, track) => this.applyBeatSound(track, filename));
+
+    // Refresh the UI
+    document.title = this.title ? `${this.title} - ${i18next.t('title')}` : i18next.t('title');
+    (document.getElementById('title-input') as HTMLInputElement).value = this.title;
+    (document.getElementById('bpm-slider') as HTMLInputElement).valueAsNumber = this.bpm;
+    (document.getElementById('bpm-value') as HTMLInputElement).valueAsNumber = this.bpm;
+    (document.getElementById('speed-select') as HTMLSelectElement).value = this.playbackSpeed.toString();
+    (document.getElementById('ignore-note-value-toggle') as HTMLInputElement).checked = this.ignoreNoteValue;
+    (document.getElementById('quantization-select') as HTMLSelectElement).value = this.quantization.toString();
+    (document.getElementById('metronome-toggle') as HTMLInputElement).checked = this.metronome;
+    (document.getElementById('count-in-select') as HTMLSelectElement).value = this.countIn.toString();
+    this.selectedNotes.clear();
+    this.visibleNoteElements.forEach(element => element.remove());
+    this.visibleNoteElements.clear();
+    this.renderTracks();
+    this.renderDrumLanes();
+    this.renderTempoLane();
+    this.renderLoopRegion();
+    this.renderTimeSignatureControls();
+    this.renderScaleControls();
+    this.renderScaleRows();
+    this.renderAutomationLane();
+    this.renderPatternControls();
+    this.renderArrangementLane();
+    this.renderGrooveControls();
+    this.renderMixerDialog();
+    this.renderEffectsDialog();
+
+    this.resetHistoryParts();
+    // 戻した状態が今の段なので、履歴と比べる部分はない
+    this.saveData([]);
+    this.restoringHistory = false;
+    this.saveHistory();
+    this.renderHistoryButtons();
+  }
+
+  // Adds and removes sound files and instruments to match a history step
+  // Resolves when the added sounds are decoded; a sound that fails is logged and left out
+  private restoreSoundLibrary(files: AudioFile[], instruments: Instrument[]) {
+    const loads: Promise<unknown>[] = [];
+    const names = new Set(files.map(audioFile => audioFile.file.name));
+    this.files.filter(audioFile => !names.has(audioFile.file.name)).forEach(audioFile => this.removeAudioFile(audioFile.file.name));
+    files.forEach(audioFile => {
+      const current = this.files.find(f => f.file.name === audioFile.file.name);
+      if (current) {
+        // 推定した基音は記録していないので今のものを使う
+        audioFile.detectedPitch = current.detectedPitch;
+      } else {
+        this.addAudioFile(audioFile.file);
+        loads.push(this.audioManager.setMelodyAudio(audioFile.file));
+      }
+      this.audioManager.setMelodyPitchShift(audioFile.file.name, audioFile.pitchShift);
+      this.audioManager.setSampleRegion(audioFile.file.name, audioFile);
+    });
+    this.files = files;
+
+    const applied = new Map(this.instruments.map(instrument => [instrument.id, serializeState(instrument)]));
+    const ids = new Set(instruments.map(instrument => instrument.id));
+    this.instruments.filter(instrument => !ids.has(instrument.id)).forEach(instrument => this.audioManager.deleteMelodyAudio(instrument.id));
+    this.instruments = instruments;
+    this.instruments.filter(instrument => applied.get(instrument.id) !== serializeState(instrument)).forEach(instrument => loads.push(this.applyInstrument(instrument)));
+    this.renderInstrumentOptions();
+    return Promise.all(loads.map(load => load.catch(error => console.error('Error restoring sound:', error))));
   }
 
   private switchToNextTrack(direction: number) {
@@ -2087,6 +5517,7 @@ class Sequencer {
     }
     this.syncMainSoundControls();
     this.syncBulkSoundDialog();
+    this.renderAutomationLane();
     
     // Clear selected notes when switching tracks
     this.selectedNotes.clear();
@@ -2122,6 +5553,7 @@ class Sequencer {
       pianoRoll.appendChild(noteElement);
       this.visibleNoteElements.set(note.id, noteElement);
     }
+    if (this.velocityLane !== null) this.renderAutomationLane();
     return noteId;
   }
 
@@ -2138,6 +5570,7 @@ class Sequencer {
       if (noteElement) {
         this.updateNoteMeta(noteElement, note);
       }
+      if (this.velocityLane !== null) this.renderAutomationLane();
     }
   }
 
@@ -2150,25 +5583,29 @@ class Sequencer {
       element.remove();
       this.visibleNoteElements.delete(noteId);
     }
+    if (this.velocityLane !== null) this.renderAutomationLane();
   }
 
   private clearSounds() {
     this.files.forEach(audioFile => {
       this.audioManager.deleteMelodyAudio(audioFile.file.name);
     });
+    this.instruments.forEach(instrument => {
+      this.audioManager.deleteMelodyAudio(instrument.id);
+    });
     this.files = [];
+    this.instruments = [];
+    this.editingInstrumentId = null;
     this.filenames = {
       melody: new Map<number, string>(),
-      beat1: null,
-      beat2: null
+      beat: new Map<number, string>()
     };
-    this.audioManager.setBeatSample(0, null);
-    this.audioManager.setBeatSample(1, null);
+    this.drumLanes.forEach(lane => this.audioManager.deleteBeatSample(lane.track));
 
     const soundSelects = document.querySelectorAll('.sound-select') as NodeListOf<HTMLSelectElement>;
     soundSelects.forEach(soundSelect => {
       Array.from(soundSelect.options).forEach(option => {
-        if (option.value !== 'sine' && option.value !== 'silent') {
+        if (!isBuiltInSound(option.value)) {
           option.remove();
         }
       });
@@ -2187,15 +5624,50 @@ class Sequencer {
     this.stop();
     document.title = i18next.t('title');
     this.title = i18next.t('untitled');
-    this.notes = [];
-    this.beats = [];
+    this.songNotes = [];
+    this.songBeats = [];
+    this.patterns = [];
+    this.clips = [];
+    this.editingPattern = null;
+    this.clipPattern = null;
     this.bpm = 120;
     this.bpms = new Map();
+    this.tempoRamps = new Set();
+    this.timeSignatures = new Map();
+    this.loopRegion = null;
+    this.scale = { ...defaultScaleSettings };
+    this.renderScaleControls();
+    this.renderScaleRows();
     this.playbackSpeed = 1;
     this.ignoreNoteValue = false;
+    this.groove = { ...defaultGrooveSettings };
+    this.grooves = [];
+    this.renderGrooveControls();
+    this.automation = new Map();
     this.instrumentCodes = {};
+    this.envelopes = { melody: new Map(), beat: new Map() };
+    this.audioManager.setEnvelopes(this.envelopes.melody, this.envelopes.beat);
+    this.synths = { melody: new Map(), beat: new Map() };
+    this.audioManager.setSynthSettings(this.synths.melody, this.synths.beat);
+    this.stretch = new Map();
+    this.audioManager.setStretchSettings(this.stretch);
+    this.beatPlayback = new Map();
+    this.audioManager.setBeatPlaybackSettings(this.beatPlayback);
+    this.mixer = createMixerSettings();
+    this.audioManager.setMixer(this.mixer);
+    this.effects = createEffectSettings();
+    this.audioManager.setEffects(this.effects);
+    this.limiter = { ...defaultLimiterSettings };
+    this.audioManager.setLimiter(this.limiter);
+    this.normalize = { ...defaultNormalizeSettings };
     this.gridSize = 128;
     this.applyGridScale(1, 1, false, false);
+    this.renderBarLines();
+    this.renderTempoLane();
+    this.renderLoopRegion();
+    this.renderAutomationLane();
+    this.renderPatternControls();
+    this.renderArrangementLane();
 
     // Clear UI
     const titleInput = document.getElementById('title-input') as HTMLInputElement;
@@ -2205,9 +5677,9 @@ class Sequencer {
     const pianoRollSection = document.querySelector('.piano-roll-section') as HTMLElement;
     if (pianoRollSection) pianoRollSection.dataset.track = '1'; 
     document.querySelectorAll('.note').forEach(note => note.remove());
-    document.querySelectorAll('.beat').forEach(beat => beat.remove());
-    this.createBeats();
-    this.beats.forEach(beat => this.renderBeat(beat));
+    this.clearSounds();
+    this.drumLanes = createDefaultDrumLanes();
+    this.renderDrumLanes();
     const instrumentNameOutput = document.getElementById('instrument-name') as HTMLOutputElement;
     if (instrumentNameOutput) {
       this.updateInstrumentOutput(instrumentNameOutput, -1);
@@ -2222,7 +5694,6 @@ class Sequencer {
     if (ignoreNoteValueToggle) ignoreNoteValueToggle.checked = this.ignoreNoteValue;
     const loopToggle = document.getElementById('loop-toggle') as HTMLInputElement;
     if (loopToggle) loopToggle.checked = true;
-    this.clearSounds();
   }
   
   private createNoteElement(note: Note): HTMLElement {
@@ -2239,16 +5710,27 @@ class Sequencer {
     const noteName = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'][note.pitch % 12];
     const octave = Math.floor(note.pitch / 12) - 1;
     noteElement.textContent = noteName + octave;
-    noteElement.title = `${noteName}${octave} (${note.pitch})\nStart: ${note.start} beat\nLength: ${note.length} beat`;
+    noteElement.title = `${noteName}${octave} (${note.pitch})\nStart: ${note.start} beat\nLength: ${note.length} beat\nVelocity: ${note.velocity}`;
 
     noteElement.style.setProperty('--pitch', note.pitch.toString());
     noteElement.style.setProperty('--start', note.start.toString());
     noteElement.style.setProperty('--length', note.length.toString());
+    noteElement.style.setProperty('--velocity', note.velocity.toString());
+  }
+
+  // Beats off the grid, e.g. humanized or imported ones, show in the nearest step
+  private getBeatStep(position: number) {
+    return Math.round(position / (this.quantization > 0 ? this.quantization : 0.1));
+  }
+
+  private getBeatElement(track: number, position: number) {
+    const grid = document.querySelector(`.rhythm-track[data-track="${track}"] .rhythm-grid`);
+    return (grid?.children[this.getBeatStep(position)] as HTMLElement | undefined) ?? null;
   }
 
   private addBeat(track: number, position: number) {
     const existingBeatIndex = this.beats.findIndex(
-      beat => beat.track === track && beat.position === position
+      beat => beat.track === track && this.getBeatStep(beat.position) === this.getBeatStep(position)
     );
     if (existingBeatIndex >= 0) return;
     const beat: Beat = {
@@ -2257,29 +5739,197 @@ class Sequencer {
       position,
       velocity: 100
     };
-    this.beats.push(beat);
-    document.querySelector(`[data-track="${track}"] [data-position="${position}"]`)?.classList.add('active');
-    this.audioManager.playBeat(beat);
+    this.beats.push(beat);
+    this.renderBeat(beat);
+    if (this.velocityLane !== null) this.renderAutomationLane();
+    this.audioManager.playBeat(beat);
+  }
+
+  // Removes every beat in the nearest step of `position`
+  private removeBeat(track: number, position: number) {
+    const step = this.getBeatStep(position);
+    const remaining = this.beats.filter(beat => beat.track !== track || this.getBeatStep(beat.position) !== step);
+    if (remaining.length === this.beats.length) return;
+    this.beats = remaining;
+    const beatElement = this.getBeatElement(track, position);
+    beatElement?.classList.remove('active');
+    beatElement?.style.removeProperty('--velocity');
+    if (this.velocityLane !== null) this.renderAutomationLane();
+  }
+
+  private getDrumLane(track: number) {
+    return this.drumLanes.find(lane => lane.track === track) || null;
+  }
+
+  // 音源パネル・リズムセクション・一括設定・ミキサーのドラムレーンの行を作り直す
+  private renderDrumLanes() {
+    const container = document.querySelector('.sequencer-container') as HTMLElement | null;
+    const sounds = document.querySelector('.sounds') as HTMLElement | null;
+    const rhythmTracks = document.querySelector('.rhythm-tracks') as HTMLElement | null;
+    const beatGrid = document.getElementById('sound-sources-beat') as HTMLDivElement | null;
+    const mixerChannels = document.querySelector('#mixer-dialog .mixer-channels') as HTMLElement | null;
+    if (!container || !sounds || !rhythmTracks) {
+      return;
+    }
+
+    container.style.setProperty('--rhythm-lanes', this.drumLanes.length.toString());
+    sounds.querySelectorAll('.sound[data-track="beat"]').forEach(row => row.remove());
+    rhythmTracks.replaceChildren();
+    beatGrid?.replaceChildren();
+    mixerChannels?.querySelectorAll('.mixer-channel[data-kind="beat"]').forEach(row => row.remove());
+
+    this.drumLanes.forEach((lane, index) => {
+      sounds.appendChild(this.createDrumLaneSoundRow(lane));
+
+      const rhythmTrack = document.createElement('div');
+      rhythmTrack.className = 'rhythm-track drop-zone';
+      rhythmTrack.dataset.track = lane.track.toString();
+      rhythmTrack.dataset.dropMessage = i18next.t('drop_sound_or_midi');
+      rhythmTrack.dataset.i18nDrop = '';
+      const grid = document.createElement('div');
+      grid.className = 'rhythm-grid';
+      rhythmTrack.appendChild(grid);
+      this.setupDropZone(rhythmTrack);
+      rhythmTracks.appendChild(rhythmTrack);
+
+      if (beatGrid) {
+        const row = this.createBulkSoundRow(`${index + 1}.`, { track: 'beat', beatTrack: lane.track }, false);
+        row.querySelector('.sound-sources-control')?.appendChild(this.createDrumLaneControls(lane, index));
+        beatGrid.appendChild(row);
+      }
+
+      mixerChannels?.appendChild(this.createMixerChannelRow(`${lane.name}.`, 'beat', lane.track));
+    });
+
+    this.createBeats();
+    this.beats.forEach(beat => this.renderBeat(beat));
+    this.renderBarLines();
+    this.renderVelocityOptions();
+    this.syncMainSoundControls();
+    this.syncBulkSoundDialog();
+  }
+
+  private createDrumLaneSoundRow(lane: DrumLane) {
+    const row = document.createElement('div');
+    row.className = 'sound';
+    row.dataset.track = 'beat';
+    row.dataset.beatTrack = lane.track.toString();
+
+    const selectLabel = document.createElement('label');
+    selectLabel.className = 'sound-select-label';
+    const select = document.createElement('select');
+    select.className = 'sound-select';
+    this.cloneBaseSoundOptions(false).forEach(option => {
+      select.appendChild(option);
+    });
+    const removeButton = document.createElement('button');
+    removeButton.className = 'remove-sound material-icons danger';
+    removeButton.textContent = 'delete';
+    selectLabel.appendChild(select);
+    selectLabel.appendChild(removeButton);
+
+    const name = document.createElement('span');
+    name.className = 'drum-lane-name';
+    name.textContent = lane.name;
+
+    const settingsButton = document.createElement('button');
+    settingsButton.className = 'track-settings material-icons';
+    settingsButton.textContent = 'tune';
+    settingsButton.title = i18next.t('track_settings');
+    settingsButton.dataset.i18n = 'track_settings';
+
+    const addButton = document.createElement('button');
+    addButton.className = 'add-sound material-icons';
+    addButton.textContent = 'add';
+    addButton.title = i18next.t('add_sound');
+    addButton.dataset.i18n = 'add_sound';
+
+    row.appendChild(selectLabel);
+    row.appendChild(name);
+    row.appendChild(settingsButton);
+    row.appendChild(addButton);
+    this.setupSoundContainer(row, 'beat', lane.track);
+    return row;
+  }
+
+  // 一括設定ダイアログでのレーン名の変更・並べ替え・削除
+  private createDrumLaneControls(lane: DrumLane, index: number) {
+    const controls = document.createElement('div');
+    controls.className = 'drum-lane-controls';
+
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.className = 'drum-lane-name-input';
+    nameInput.value = lane.name;
+    nameInput.placeholder = i18next.t('drum_lane_name');
+    nameInput.dataset.i18n = 'drum_lane_name';
+    nameInput.addEventListener('change', () => {
+      lane.name = nameInput.value.trim() || lane.name;
+      this.renderDrumLanes();
+      this.saveData();
+    });
+
+    const createButton = (icon: string, key: string, disabled: boolean, onClick: () => void) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'material-icons';
+      button.textContent = icon;
+      button.title = i18next.t(key);
+      button.dataset.i18n = key;
+      button.disabled = disabled;
+      button.addEventListener('click', onClick);
+      return button;
+    };
+    const moveLane = (offset: number) => {
+      this.drumLanes.splice(index, 1);
+      this.drumLanes.splice(index + offset, 0, lane);
+      this.renderDrumLanes();
+      this.saveData();
+    };
+
+    controls.appendChild(nameInput);
+    controls.appendChild(createButton('arrow_upward', 'move_up', index === 0, () => moveLane(-1)));
+    controls.appendChild(createButton('arrow_downward', 'move_down', index === this.drumLanes.length - 1, () => moveLane(1)));
+    const removeButton = createButton('remove_circle_outline', 'remove_drum_lane', this.drumLanes.length === 1, () => {
+      if (confirm(i18next.t('confirm_remove_drum_lane', { name: lane.name }))) {
+        this.removeDrumLane(lane.track);
+        this.saveData();
+      }
+    });
+    removeButton.classList.add('danger');
+    controls.appendChild(removeButton);
+    return controls;
   }
 
-  private removeBeat(track: number, position: number) {
-    const existingBeatIndex = this.beats.findIndex(
-      beat => beat.track === track && beat.position === position
-    );
-    if (existingBeatIndex == -1) return;
-    this.beats.splice(existingBeatIndex, 1);
-    document.querySelector(`[data-track="${track}"] [data-position="${position}"]`)?.classList.remove('active');
+  // レーンとそのビート・音源・トラック設定を削除する
+  private removeDrumLane(track: number) {
+    this.drumLanes = this.drumLanes.filter(lane => lane.track !== track);
+    this.songBeats = this.songBeats.filter(beat => beat.track !== track);
+    this.patterns.forEach(pattern => {
+      pattern.beats = pattern.beats.filter(beat => beat.track !== track);
+    });
+    this.filenames.beat.delete(track);
+    this.envelopes.beat.delete(track);
+    this.synths.beat.delete(track);
+    this.beatPlayback.delete(track);
+    this.mixer.beat.delete(track);
+    this.effects.beat.delete(track);
+    this.audioManager.deleteBeatSample(track);
+    this.audioManager.updateMixer();
+    this.audioManager.updateEffects();
+    this.renderDrumLanes();
   }
 
   private createBeats() {
     const adjustedQuantization = this.quantization > 0 ? this.quantization : 0.1;
-    document.querySelectorAll('.rhythm-grid').forEach((grid, trackIndex) => {
+    document.querySelectorAll('.rhythm-grid').forEach(grid => {
+      const track = (grid.closest('.rhythm-track') as HTMLElement).dataset.track!;
       // Create beats grid
       for (let i = 0; i < this.gridSize; i += adjustedQuantization) {
         const beatElement = document.createElement('div');
         beatElement.className = 'beat';
         beatElement.dataset.position = i.toString();
-        beatElement.dataset.track = trackIndex.toString();
+        beatElement.dataset.track = track;
 
         grid.appendChild(beatElement);
       }
@@ -2288,7 +5938,9 @@ class Sequencer {
   }
 
   private renderBeat(beat: Beat) {
-    document.querySelector(`[data-track="${beat.track}"] [data-position="${beat.position}"]`)?.classList.add('active');
+    const beatElement = this.getBeatElement(beat.track, beat.position);
+    beatElement?.classList.add('active');
+    beatElement?.style.setProperty('--velocity', beat.velocity.toString());
   }
 
   private renderTracks() {
@@ -2408,6 +6060,7 @@ class Sequencer {
         noteElement.classList.add('selected');
       }
     });
+    if (this.velocityLane !== null) this.renderAutomationLane();
   }
 
   private startSelectedNotesMove(e: PointerEvent, pianoRoll: HTMLElement) {
@@ -2450,7 +6103,7 @@ class Sequencer {
         } else {
           newStart = Math.max(0, multipleFloor(initialStart + deltaBeat, this.quantization));
         }
-        const newPitch = minmax(initialPitch + deltaPitch, 21, 108);
+        const newPitch = deltaPitch === 0 ? initialPitch : this.snapPitch(minmax(initialPitch + deltaPitch, 21, 108), deltaPitch);
         this.moveNote(note.id, newStart, newPitch);
       });
 
@@ -2488,38 +6141,87 @@ class Sequencer {
   }
 
   private getEndOfTrack(): number {
-    return Array.from(this.notes.values()).flat().map(n => n.start + n.length)
-      .concat(this.beats.map(b => b.position + this.quantization)).reduce((a, b) => Math.max(a, b), 0);
-  }
-
-  private calculateDuration(): number {
-    if (this.bpms.size > 0) {
-      // BPM changes exist, calculate duration more accurately
-      const bpms = Array.from(this.bpms.entries());
-      let durationSeconds = 0;
-      for (let i = 0, j = 1; i < bpms.length - 1; i++, j++) {
-        const [beatA, bpmA] = bpms[i], [beatB] = bpms[j];
-        const segmentBeats = beatB - beatA;
-        durationSeconds += (segmentBeats * 60) / (bpmA * this.playbackSpeed);
-      }
-      const [lastBeat, lastBpm] = bpms[bpms.length - 1];
-      const remainingBeats = this.getEndOfTrack() - lastBeat;
-      durationSeconds += (remainingBeats * 60) / (lastBpm * this.playbackSpeed);
-      return durationSeconds;
-    } else {
-      return (this.getEndOfTrack() * 60) / (this.bpm * this.playbackSpeed);
-    }
+    return this.getPlayedEvents().end;
   }
 
-  private recordBpmChanged() {
-    if (this.paused) return;
-    
-    // 新しいBPMでの基準点を更新
-    this.bpmChanged = {
-      time: performance.now(),
-      beat: this.currentBeat
+  // パターンを編集中はそのパターンだけを再生する
+  private getPlayedEvents(): PlaybackEvents {
+    if (this.playbackEvents) return this.playbackEvents;
+    const pattern = getPattern(this.patterns, this.editingPattern);
+    const groove = this.getGroove();
+    const { notes, beats } = this.getPlaybackEvents();
+    const playedNotes = notes.map(stored => ({ stored: stored.start, note: this.sustainNote(this.grooveNote(stored, groove)) }))
+      .sort((a, b) => a.stored - b.stored);
+    const playedBeats = beats.map(stored => ({ stored: stored.position, beat: this.grooveBeat(stored, groove) }))
+      .sort((a, b) => a.stored - b.stored);
+    const changes = Array.from(this.automation).flatMap(([track, lanes]) => getChannelAutomation(lanes).map(change => ({ track, ...change })))
+      .sort((a, b) => a.position - b.position);
+    const shift = [
+      ...playedNotes.map(({ stored, note }) => Math.abs(note.start - stored)),
+      ...playedBeats.map(({ stored, beat }) => Math.abs(beat.position - stored))
+    ].reduce((a, b) => Math.max(a, b), 0);
+    this.playbackEvents = { notes: playedNotes, beats: playedBeats, changes, shift, end: pattern ? pattern.length : this.getSongEnd() };
+    return this.playbackEvents;
+  }
+
+  // Drops the played events after an edit, they are made again when next needed
+  private invalidatePlayback() {
+    this.playbackEvents = null;
+  }
+
+  private getSongEnd(): number {
+    const { notes, beats } = this.getArrangedEvents();
+    return notes.map(n => n.start + n.length)
+      .concat(beats.map(b => b.position + this.quantization), arrangementEnd(this.patterns, this.clips)).reduce((a, b) => Math.max(a, b), 0);
+  }
+
+  // The song with every clip flattened to notes and beats
+  private getArrangedEvents() {
+    const arranged = flattenArrangement(this.patterns, this.clips);
+    return {
+      notes: [...this.songNotes, ...arranged.notes],
+      beats: [...this.songBeats, ...arranged.beats]
     };
+  }
+
+  private getPlaybackEvents() {
+    const pattern = getPattern(this.patterns, this.editingPattern);
+    return pattern ? { notes: pattern.notes, beats: pattern.beats } : this.getArrangedEvents();
+  }
+
+  // Beats that repeat while looping, or null when playback stops at the end
+  private getLoopRange(endOfTrack = this.getEndOfTrack()) {
+    const loopToggle = document.getElementById('loop-toggle') as HTMLInputElement;
+    if (!loopToggle.checked) return null;
+    if (this.loopRegion && !this.editingPattern) return this.loopRegion;
+    return endOfTrack > 0 ? { start: 0, end: endOfTrack } : null;
+  }
 
+  private calculateDuration(endBeat = this.getEndOfTrack()): number {
+    const segments = buildTempoSegments(this.baseBpm, this.bpms, this.tempoRamps);
+    return beatToSeconds(segments, endBeat, this.playbackSpeed);
+  }
+
+  // 再生中のテンポ変更: 現在位置を保ったまま新しいテンポマップで再スケジュール。
+  // スライダーのドラッグで何度も呼ばれるので、間を空けずに今の時刻から続ける
+  private changeTempo(apply: () => void) {
+    if (this.paused) {
+      apply();
+      this.invalidatePlayback();
+      return;
+    }
+    const now = this.audioManager.currentTime;
+    const beat = this.getCurrentBeat(now);
+    // カウントイン中なら予定どおりの時刻に始める
+    const time = Math.max(now, this.transport.anchors[0]?.time ?? now);
+    apply();
+    this.invalidatePlayback();
+    this.audioManager.cancelScheduled(time);
+    this.startTransport(beat, false, 0, time);
+    this.updatePositionState();
+  }
+
+  private updatePositionState() {
     // Update Media Session position state
     if ('mediaSession' in navigator) {
       const duration = this.calculateDuration();
@@ -2532,24 +6234,325 @@ class Sequencer {
     }
   }
 
+  // ループ区間があればその先頭に戻る
   private resetPlayback() {
-    this.currentBeat = 0;
+    const beat = this.getLoopRange()?.start ?? 0;
+    this.currentBeat = beat;
     if (!this.paused) {
-      this.recordBpmChanged();
+      this.audioManager.cancelScheduled();
+      this.startTransport(beat, true);
+      this.updatePositionState();
     }
     this.playedNotes.clear();
     this.autoScroll = true;
     const rolls = document.querySelector('.rolls') as HTMLElement;
     const playbackPosition = document.querySelector('.playback-position') as HTMLElement;
-    rolls.scrollTo({ left: 0 });
-    playbackPosition.style.removeProperty('--position');
+    if (beat > 0) {
+      playbackPosition.style.setProperty('--position', `${beat * this.noteWidth}px`);
+      playbackPosition.scrollIntoView({ block: 'nearest', inline: 'center' });
+    } else {
+      rolls.scrollTo({ left: 0 });
+      playbackPosition.style.removeProperty('--position');
+    }
+  }
+
+  // オーディオクロック上の時刻とビート位置の対応付けを開始する
+  // at: the audio clock time of `beat`, when playback goes on from there instead of starting
+  private startTransport(beat: number, retrigger: boolean = false, countIn: number = 0, at?: number) {
+    let startTime = at ?? this.audioManager.currentTime + 0.05;
+    this.transport.segments = buildTempoSegments(this.baseBpm, this.bpms, this.tempoRamps);
+    if (countIn > 0) {
+      // 開始位置の小節の拍子とテンポで数えてから始める
+      const { signature } = barAt(buildMeterSegments(this.timeSignatures), beat);
+      const secondsPerCount = 60 / (bpmAt(this.transport.segments, beat) * this.playbackSpeed) * countLength(signature);
+      const counts = countIn * signature.numerator;
+      for (let i = 0; i < counts; i++) {
+        this.audioManager.playClick(startTime + i * secondsPerCount, i % signature.numerator === 0);
+      }
+      startTime += counts * secondsPerCount;
+    }
+    this.transport.anchors = [{ time: startTime, beat }];
+    this.transport.scheduledUntil = beat;
+
+    this.audioManager.resetChannelAutomation(startTime);
+    this.scheduleChannelAutomationAt(beat, startTime);
+
+    if (retrigger) {
+      // 開始位置をまたいでいるノートは残りの長さだけ鳴らす
+      const anchor = this.transport.anchors[0];
+      this.getPlayedEvents().notes.forEach(({ note }) => {
+        if (note.start < beat && note.start + note.length > beat) {
+          this.scheduleNote(anchor, note, beat);
+        }
+      });
+    }
+    this.schedule();
+  }
+
+  // 途中の位置から鳴らすときは、その位置でのオートメーションの値から始める
+  private scheduleChannelAutomationAt(beat: number, time: number) {
+    this.automation.forEach((lanes, track) => {
+      const change = getChannelAutomation(lanes).findLast(change => change.position <= beat)!;
+      this.audioManager.scheduleChannelAutomation(track, change.gain, change.pan, time);
+    });
+  }
+
+  private anchorBeatToTime(anchor: { time: number; beat: number }, beat: number) {
+    const { segments } = this.transport;
+    return anchor.time + beatToSeconds(segments, beat, this.playbackSpeed) - beatToSeconds(segments, anchor.beat, this.playbackSpeed);
+  }
+
+  private anchorTimeToBeat(anchor: { time: number; beat: number }, time: number) {
+    const { segments } = this.transport;
+    const anchorSeconds = beatToSeconds(segments, anchor.beat, this.playbackSpeed);
+    return secondsToBeat(segments, anchorSeconds + time - anchor.time, this.playbackSpeed);
+  }
+
+  private getCurrentBeat(time = this.audioManager.currentTime): number {
+    const { anchors } = this.transport;
+    if (anchors.length === 0) return this.currentBeat;
+    // ループの継ぎ目以降の基準点はまだ到達していなければ使わない
+    const anchor = anchors.findLast(a => a.time <= time);
+    if (!anchor) return anchors[0].beat;
+    return this.anchorTimeToBeat(anchor, time);
+  }
+
+  // 先読みスケジューラ: オーディオクロックで少し先までのノートとビートを予約する
+  private schedule() {
+    if (this.paused) return;
+    const horizon = this.audioManager.currentTime + Sequencer.scheduleAheadTime;
+    const loopToggle = document.getElementById('loop-toggle') as HTMLInputElement;
+    const endOfTrack = this.getEndOfTrack();
+    const loop = this.getLoopRange(endOfTrack);
+
+    for (;;) {
+      const anchor = this.transport.anchors[this.transport.anchors.length - 1];
+      const horizonBeat = this.anchorTimeToBeat(anchor, Math.max(horizon, anchor.time));
+      // ループ区間より後ろから再生したときは曲の終わりで区間の先頭に戻る
+      const seam = loop ? Math.max(this.transport.scheduledUntil <= loop.end ? loop.end : endOfTrack, this.transport.scheduledUntil) : Infinity;
+      // ループ区間の中の周回では区間より前の音を鳴らさない
+      const pass = { start: loop && anchor.beat >= loop.start ? loop.start : -Infinity, end: seam };
+      if (loop && horizonBeat >= seam) {
+        // 継ぎ目で音が途切れないよう、次の周回の先頭も続けて予約する
+        this.scheduleRange(anchor, this.transport.scheduledUntil, seam, pass);
+        const time = this.anchorBeatToTime(anchor, seam);
+        this.transport.anchors.push({ time, beat: loop.start });
+        this.transport.scheduledUntil = loop.start;
+        this.scheduleChannelAutomationAt(loop.start, time);
+        continue;
+      }
+      this.scheduleRange(anchor, this.transport.scheduledUntil, horizonBeat, pass);
+      this.transport.scheduledUntil = Math.max(this.transport.scheduledUntil, horizonBeat);
+      break;
+    }
+    this.prepareAhead(horizon, loop);
+
+    // 通過した基準点を破棄
+    const now = this.audioManager.currentTime;
+    while (this.transport.anchors.length > 1 && this.transport.anchors[1].time <= now) {
+      this.transport.anchors.shift();
+    }
+
+    this.currentBeat = this.getCurrentBeat();
+    this.applyTempoChangesUpTo(this.currentBeat);
+    if (!loopToggle.checked && this.currentBeat >= endOfTrack) {
+      this.stop();
+    }
+  }
+
+  // pass: stored positions that play before the loop wraps, the end is the seam (Infinity when playback does not wrap)
+  private scheduleRange(anchor: { time: number; beat: number }, fromBeat: number, toBeat: number, pass = { start: -Infinity, end: Infinity }) {
+    if (toBeat <= fromBeat) return;
+    // グルーヴで動かしたあとの位置で予約する。周回に入るかは元の位置で決め、
+    // 継ぎ目の先に押し出された音はその周回の最後の範囲で、手前に引き寄せられた音は最初の範囲で予約する
+    const { notes, beats, changes, shift } = this.getPlayedEvents();
+    const inRange = (stored: number, grooved: number) => {
+      if (stored < pass.start || stored >= pass.end) return false;
+      const position = Math.max(grooved, pass.start);
+      return position >= fromBeat && (position < toBeat || toBeat >= pass.end);
+    };
+    // 元の位置で並んでいるので、グルーヴで動く幅だけ広げた範囲を探す
+    const searchFrom = fromBeat - shift;
+    const searchTo = (toBeat >= pass.end ? pass.end : toBeat) + shift;
+    for (let i = lowerBound(notes, searchFrom, ({ stored }) => stored); i < notes.length && notes[i].stored < searchTo; i++) {
+      const { stored, note } = notes[i];
+      if (inRange(stored, note.start)) this.scheduleNote(anchor, note);
+    }
+    for (let i = lowerBound(changes, fromBeat, ({ position }) => position); i < changes.length && changes[i].position < toBeat; i++) {
+      const { track, position, gain, pan } = changes[i];
+      this.audioManager.scheduleChannelAutomation(track, gain, pan, this.anchorBeatToTime(anchor, position));
+    }
+    for (let i = lowerBound(beats, searchFrom, ({ stored }) => stored); i < beats.length && beats[i].stored < searchTo; i++) {
+      const { stored, beat } = beats[i];
+      if (inRange(stored, beat.position)) this.audioManager.playBeat(beat, this.anchorBeatToTime(anchor, beat.position));
+    }
+    if (this.metronome) {
+      // メトロノームは書き出しには含めず、再生時のクロックにだけ予約する（拍子の分母の音符ごと）
+      barsBetween(buildMeterSegments(this.timeSignatures), fromBeat, toBeat).forEach(bar => {
+        const count = countLength(bar.signature);
+        for (let i = 0; i * count < bar.length; i++) {
+          const beat = bar.start + i * count;
+          if (beat >= fromBeat && beat < toBeat) {
+            this.audioManager.playClick(this.anchorBeatToTime(anchor, beat), i === 0);
+          }
+        }
+      });
+    }
+  }
+
+  // 伸縮するノートは予約より前にワーカーで伸縮しておく（ループするときは次の周回の先頭も）
+  private prepareAhead(horizon: number, loop: { start: number; end: number } | null) {
+    if (!Array.from(this.stretch.values()).some(stretch => stretch.enabled)) return;
+    const anchor = this.transport.anchors[this.transport.anchors.length - 1];
+    const fromBeat = this.transport.scheduledUntil;
+    const toBeat = this.anchorTimeToBeat(anchor, horizon + Sequencer.prepareAheadTime);
+    const ranges = loop && fromBeat <= loop.end && toBeat > loop.end
+      ? [[fromBeat, loop.end], [loop.start, loop.start + toBeat - loop.end]]
+      : [[fromBeat, toBeat]];
+    const { notes, shift } = this.getPlayedEvents();
+    ranges.forEach(([from, to]) => {
+      for (let i = lowerBound(notes, from - shift, ({ stored }) => stored); i < notes.length && notes[i].stored < to + shift; i++) {
+        const { note } = notes[i];
+        if (note.start < from || note.start >= to) continue;
+        const duration = this.anchorBeatToTime(anchor, note.start + note.length) - this.anchorBeatToTime(anchor, note.start);
+        this.audioManager.prepareNote(note, this.getFilenameByTrack(note.track), duration);
+      }
+    });
+  }
+
+  // Plays a note from `fromBeat` (its start unless playback starts in the middle of it) with its track's pitch bend
+  private scheduleNote(anchor: { time: number; beat: number }, note: Note, fromBeat: number = note.start) {
+    const startTime = this.anchorBeatToTime(anchor, fromBeat);
+    const end = note.start + note.length;
+    const duration = this.anchorBeatToTime(anchor, end) - startTime;
+    const bend = getBendRatios(this.automation.get(note.track), fromBeat, end)
+      .map(({ position, ratio }) => ({ time: this.anchorBeatToTime(anchor, position), ratio }));
+    this.audioManager.playNote(note, this.getFilenameByTrack(note.track), startTime, duration, this.ignoreNoteValue, bend);
+  }
+
+  // The note as long as its track's sustain pedal holds it
+  private sustainNote(note: Note): Note {
+    const end = sustainedEnd(this.automation.get(note.track), note.start + note.length);
+    return { ...note, length: end - note.start };
+  }
+
+  // The template in use with the bars its cycle restarts at, or null when playing straight
+  private getGroove() {
+    const template = getGrooveTemplate(this.groove, this.grooves);
+    return template && this.groove.amount > 0 ? { template, meter: buildMeterSegments(this.timeSignatures) } : null;
+  }
+
+  // The note as it is played, the stored note is not changed
+  private grooveNote(note: Note, groove = this.getGroove()): Note {
+    if (!groove) return note;
+    const { template, meter } = groove;
+    const { amount } = this.groove;
+    const start = groovePosition(template, amount, meter, note.start);
+    const end = groovePosition(template, amount, meter, note.start + note.length);
+    return {
+      ...note,
+      start,
+      length: Math.max(end - start, note.length / 2),
+      velocity: grooveVelocity(template, amount, meter, note.start, note.velocity)
+    };
+  }
+
+  private grooveBeat(beat: Beat, groove = this.getGroove()): Beat {
+    if (!groove) return beat;
+    const { template, meter } = groove;
+    const { amount } = this.groove;
+    return {
+      ...beat,
+      position: groovePosition(template, amount, meter, beat.position),
+      velocity: grooveVelocity(template, amount, meter, beat.position, beat.velocity)
+    };
   }
 
-  private getCurrentBeat(now = performance.now()): number {
-      const elapsedSinceLastBpmChange = (now - this.bpmChanged.time) / 1000;
-      const beatsSinceLastBpmChange = elapsedSinceLastBpmChange * (this.bpm * this.playbackSpeed) / 60;
-      const currentBeat = this.bpmChanged.beat + beatsSinceLastBpmChange;
-      return currentBeat;
+  // Notes and beats as they are played, for WAV and MIDI export
+  // 書き出しは編集中のパターンではなく曲全体
+  private getGroovedEvents() {
+    const groove = this.getGroove();
+    const { notes, beats } = this.getArrangedEvents();
+    return {
+      notes: notes.map(note => this.grooveNote(note, groove)),
+      beats: beats.map(beat => this.grooveBeat(beat, groove))
+    };
+  }
+
+  private grooveChanged() {
+    this.invalidatePlayback();
+    this.renderGrooveControls();
+    this.saveData();
+  }
+
+  private renderGrooveControls() {
+    const select = document.getElementById('groove-select') as HTMLSelectElement | null;
+    const amountRange = document.getElementById('groove-amount-range') as HTMLInputElement | null;
+    const amountValue = document.getElementById('groove-amount-value') as HTMLOutputElement | null;
+    const deleteButton = document.getElementById('delete-groove-btn') as HTMLButtonElement | null;
+    if (!select || !amountRange || !amountValue || !deleteButton) {
+      return;
+    }
+    select.innerHTML = '';
+    [...builtInGrooves, ...this.grooves].forEach(groove => {
+      const option = document.createElement('option');
+      option.value = groove.id;
+      if (groove.name !== undefined) {
+        option.textContent = groove.name;
+      } else if (groove.id.startsWith('mpc')) {
+        // MPC のスウィング量はそのままの表記で示す
+        const percentage = mpcSwingPercentages.find(percentage => groove.id.endsWith(`-${percentage}`));
+        option.textContent = `MPC ${groove.step === 0.25 ? '1/16' : '1/8'} ${percentage}%`;
+      } else {
+        option.dataset.i18n = `groove_${groove.id}`;
+        option.textContent = i18next.t(`groove_${groove.id}`);
+      }
+      select.appendChild(option);
+    });
+    if (!getGrooveTemplate(this.groove, this.grooves)) {
+      this.groove.template = defaultGrooveSettings.template;
+    }
+    select.value = this.groove.template;
+    amountRange.valueAsNumber = this.groove.amount;
+    amountValue.value = `${Math.round(this.groove.amount * 100)}%`;
+    deleteButton.hidden = !this.grooves.some(groove => groove.id === this.groove.template);
+  }
+
+  // MIDI ファイルのノートのずれと強弱をグルーヴとして取り込む
+  private importGroove() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.mid,.midi';
+
+    input.addEventListener('change', async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const midiFile = new MidiParser(new Uint8Array(await file.arrayBuffer())).parse();
+        const { notes, beats, timeSignatures } = MidiConverter.midiToSequencer(midiFile);
+        const events = [
+          ...notes.map(note => ({ position: note.start, velocity: note.velocity })),
+          ...beats.map(beat => ({ position: beat.position, velocity: beat.velocity }))
+        ];
+        if (events.length === 0) {
+          alert(i18next.t('import_error_no_groove'));
+          return;
+        }
+        const groove = captureGroove(events, filenameToName(file.name), timeSignatures);
+        this.grooves.push(groove);
+        this.groove.template = groove.id;
+        if (this.groove.amount === 0) {
+          this.groove.amount = 1;
+        }
+        this.grooveChanged();
+      } catch (error) {
+        console.error('Error importing groove:', error);
+        alert(i18next.t('import_error_invalid_midi_file'));
+      }
+    });
+
+    input.click();
   }
 
   private getCurrentBpm(targetBeat: number) {
@@ -2563,10 +6566,7 @@ class Sequencer {
     const newBpm = this.getCurrentBpm(targetBeat).bpm;
     if (newBpm === null || newBpm === this.bpm) return;
 
-    // update bpm and time baseline
-    if (!this.paused) {
-      this.recordBpmChanged();
-    }
+    // the scheduler already follows the tempo map, so only the displayed bpm changes
     this.bpm = newBpm;
 
     // update UI elements
@@ -2601,14 +6601,15 @@ class Sequencer {
     return this.files.find(file => file.file.name === filename)?.file || null;
   }
 
-  private getAssignedFilename(track: SoundTrackKey, melodyTrack: number = this.currentTrack) {
+  private getAssignedFilename(track: SoundTrackKey, trackNumber: number = this.currentTrack) {
     if (track === 'melody') {
-      return this.filenames.melody.get(melodyTrack) || 'sine';
+      return this.filenames.melody.get(trackNumber) || 'sine';
     }
-    if (track === 'beat1') {
-      return this.filenames.beat1 || 'sine';
-    }
-    return this.filenames.beat2 || 'sine';
+    return this.filenames.beat.get(trackNumber) || 'sine';
+  }
+
+  private getTargetTrackNumber(target: SoundAssignmentTarget) {
+    return target.track === 'melody' ? target.melodyTrack ?? this.currentTrack : target.beatTrack ?? 0;
   }
 
   private updateSoundSelectState(soundSelectLabel: HTMLElement | null, soundSelect: HTMLSelectElement | null, filename: string) {
@@ -2616,17 +6617,35 @@ class Sequencer {
       return;
     }
     soundSelect.value = filename;
-    if (filename !== 'sine' && filename !== 'silent') {
+    if (!isBuiltInSound(filename)) {
       soundSelectLabel.classList.add('added-sound');
     } else {
       soundSelectLabel.classList.remove('added-sound');
     }
   }
 
+  private updateDetectedPitch(audioFile: AudioFile | null) {
+    const container = document.querySelector('.detected-pitch') as HTMLElement | null;
+    const output = document.getElementById('detected-pitch') as HTMLOutputElement | null;
+    const applyButton = document.getElementById('apply-detected-pitch-btn') as HTMLButtonElement | null;
+    if (!container || !output || !applyButton) {
+      return;
+    }
+    const detected = audioFile?.detectedPitch;
+    container.hidden = !detected;
+    if (!audioFile || !detected) {
+      return;
+    }
+    output.value = i18next.t('detected_pitch', {
+      note: formatPitch(detected.midi),
+      confidence: Math.round(detected.confidence * 100)
+    });
+    container.classList.toggle('low-confidence', detected.confidence < 0.5);
+    applyButton.disabled = audioFile.pitchShift === pitchShiftToC4(detected.midi);
+  }
+
   private syncMainSoundControls() {
     const melodyContainer = document.querySelector('.sound[data-track="melody"]') as HTMLElement | null;
-    const beat1Container = document.querySelector('.sound[data-track="beat1"]') as HTMLElement | null;
-    const beat2Container = document.querySelector('.sound[data-track="beat2"]') as HTMLElement | null;
     const pitchShiftLabel = document.querySelector('.pitch-shift-label') as HTMLElement | null;
     const pitchShiftInput = document.getElementById('melody-pitch-shift') as HTMLInputElement | null;
     const instrumentNameOutput = document.getElementById('instrument-name') as HTMLOutputElement | null;
@@ -2638,28 +6657,26 @@ class Sequencer {
       melodyFilename,
     );
     if (pitchShiftLabel) {
-      pitchShiftLabel.hidden = melodyFilename === 'sine' || melodyFilename === 'silent';
+      pitchShiftLabel.hidden = isBuiltInSound(melodyFilename) || !!this.getInstrument(melodyFilename);
     }
     if (pitchShiftInput) {
       const audioFile = this.files.find(file => file.file.name === melodyFilename) || null;
-      if (audioFile && melodyFilename !== 'sine' && melodyFilename !== 'silent') {
+      if (audioFile && !isBuiltInSound(melodyFilename)) {
         pitchShiftInput.valueAsNumber = audioFile.pitchShift;
       } else {
         pitchShiftInput.value = '';
       }
     }
+    this.updateDetectedPitch(this.files.find(file => file.file.name === melodyFilename) || null);
     this.updateInstrumentOutput(instrumentNameOutput, this.getInstrumentCode(this.currentTrack));
 
-    this.updateSoundSelectState(
-      beat1Container?.querySelector('.sound-select-label') as HTMLElement | null,
-      beat1Container?.querySelector('.sound-select') as HTMLSelectElement | null,
-      this.getAssignedFilename('beat1'),
-    );
-    this.updateSoundSelectState(
-      beat2Container?.querySelector('.sound-select-label') as HTMLElement | null,
-      beat2Container?.querySelector('.sound-select') as HTMLSelectElement | null,
-      this.getAssignedFilename('beat2'),
-    );
+    (document.querySelectorAll('.sound[data-track="beat"]') as NodeListOf<HTMLElement>).forEach(container => {
+      this.updateSoundSelectState(
+        container.querySelector('.sound-select-label') as HTMLElement | null,
+        container.querySelector('.sound-select') as HTMLSelectElement | null,
+        this.getAssignedFilename('beat', Number(container.dataset.beatTrack)),
+      );
+    });
   }
 
   private syncBulkSoundDialog() {
@@ -2667,11 +6684,13 @@ class Sequencer {
     rows.forEach(row => {
       const track = row.dataset.track as SoundTrackKey;
       const melodyTrack = row.dataset.melodyTrack ? Number(row.dataset.melodyTrack) : this.currentTrack;
-      const filename = this.getAssignedFilename(track, melodyTrack);
+      const filename = this.getAssignedFilename(track, track === 'melody' ? melodyTrack : Number(row.dataset.beatTrack));
       const selectLabel = row.querySelector('.sound-select-label') as HTMLElement | null;
       const select = row.querySelector('.sound-select') as HTMLSelectElement | null;
       const instrumentOutput = row.querySelector('.bulk-instrument-name') as HTMLOutputElement | null;
+      const editButton = row.querySelector('.edit-sample') as HTMLButtonElement | null;
       this.updateSoundSelectState(selectLabel, select, filename);
+      if (editButton) editButton.hidden = !this.getAudioFile(filename);
       if (track === 'melody' && instrumentOutput) {
         this.updateInstrumentOutput(instrumentOutput, this.getInstrumentCode(melodyTrack));
       } else if (instrumentOutput) {
@@ -2681,12 +6700,14 @@ class Sequencer {
   }
 
   private playNotes(currentBeat: number) {
-    this.notes.forEach(note => {
+    const { notes, beats } = this.getPlaybackEvents();
+    notes.forEach(note => {
       const noteIntersected = note.start <= currentBeat && note.start + note.length >= currentBeat;
       if (noteIntersected) {
         if (this.playedNotes.has(note.id)) return;
         const filename = this.getFilenameByTrack(note.track);
-        this.audioManager.playNote(note, filename, this.bpm * this.playbackSpeed, 0, this.ignoreNoteValue);
+        const duration = (60 / (this.bpm * this.playbackSpeed)) * note.length;
+        this.audioManager.playNote(note, filename, this.audioManager.currentTime, duration, this.ignoreNoteValue);
         this.playedNotes.add(note.id);
       } else if (this.playedNotes.has(note.id)) {
         this.playedNotes.delete(note.id);
@@ -2694,7 +6715,7 @@ class Sequencer {
     });
 
     // Play beats at current beat
-    this.beats.forEach(beat => {
+    beats.forEach(beat => {
       const beatIntersected = beat.position <= currentBeat && beat.position + 0.1 >= currentBeat;
       if (beatIntersected) {
         if (this.playedNotes.has(beat.id)) return;
@@ -2716,18 +6737,34 @@ class Sequencer {
     this.paused = false;
     this.autoScroll = true;
     this.renderPlayButton();
-    this.recordBpmChanged();
+    this.startTransport(this.currentBeat, true, this.countIn);
+    this.updatePositionState();
     // Update Media Session playback state
     if ('mediaSession' in navigator) {
       navigator.mediaSession.playbackState = 'playing';
     }
 
+    if (!this.schedulerWorker) {
+      this.schedulerWorker = new Worker(new URL('./scheduler.worker.ts', import.meta.url), { type: 'module' });
+      this.schedulerWorker.onmessage = (ev) => {
+        if (ev.data?.type === 'tick') this.schedule();
+      };
+    }
+    this.schedulerWorker.postMessage({ type: 'start', interval: Sequencer.schedulerInterval });
+
     const playbackPosition = document.querySelector('.playback-position') as HTMLElement;
 
-    const playRendering = (timeStamp: number) => {
+    // 表示上の再生位置はオーディオクロックに追従するだけ
+    let beforeBeat = this.currentBeat;
+    const playRendering = () => {
       if (this.paused) return;
       requestAnimationFrame(playRendering);
-      this.currentBeat = this.getCurrentBeat(timeStamp);
+      this.currentBeat = this.getCurrentBeat();
+      if (this.currentBeat < beforeBeat) {
+        // ループして先頭に戻った
+        this.autoScroll = true;
+      }
+      beforeBeat = this.currentBeat;
       
       // playbackPositionの位置を更新
       const positionInPixels = this.currentBeat * this.noteWidth;
@@ -2738,29 +6775,16 @@ class Sequencer {
       }
     };
     requestAnimationFrame(playRendering);
-
-    const playLoop = () => {
-      if (this.paused) return;
-      setTimeout(playLoop, 1);
-      this.currentBeat = this.getCurrentBeat();
-      // Apply tempo changes that should take effect up to current beat
-      this.applyTempoChangesUpTo(this.currentBeat);
-      this.playNotes(this.currentBeat);
-      if (this.currentBeat >= this.getEndOfTrack()) {
-        const loopToggle = document.getElementById('loop-toggle') as HTMLInputElement;
-        if (loopToggle.checked) {
-          this.resetPlayback();
-          return;
-        }
-        this.stop();
-      }
-    };
-
-    playLoop();
   }
 
   private pauseStop() {
+    if (!this.paused) {
+      this.currentBeat = this.getCurrentBeat();
+    }
     this.paused = true;
+    this.schedulerWorker?.postMessage({ type: 'stop' });
+    this.audioManager.cancelScheduled();
+    this.transport.anchors = [];
     this.renderPlayButton();
     this.playedNotes.clear();
   }
@@ -2804,19 +6828,36 @@ class Sequencer {
       const midiFile = parser.parse();
       
       // Convert MIDI to sequencer format
-      const sequencerData = MidiConverter.midiToSequencer(midiFile);
+      // 打楽器のキーごとにドラムレーンを割り当てる（足りなければ追加）
+      const sequencerData = MidiConverter.midiToSequencer(midiFile, note => getDrumLaneForNote(this.drumLanes, note).track);
       
       // Clear existing data
       this.stop();
-      this.notes = [];
-      this.beats = [];
+      this.patterns = [];
+      this.clips = [];
+      this.editingPattern = null;
+      this.clipPattern = null;
       
       // Load converted data
-      this.notes = sequencerData.notes;
-      this.beats = sequencerData.beats;
+      this.songNotes = sequencerData.notes;
+      this.songBeats = sequencerData.beats;
       this.instrumentCodes = sequencerData.instrumentCodes;
+      this.automation = new Map();
+      sequencerData.controllers.forEach(({ track, controller, position, value }) => {
+        const param = getAutomationParamByController(controller);
+        if (!param) return;
+        const lanes = this.automation.get(track) || new Map<AutomationParam, AutomationPoint[]>();
+        lanes.set(param, [...(lanes.get(param) || []), { position, value }]);
+        this.automation.set(track, lanes);
+      });
+      // 同じチャンネルが複数のトラックに分かれていることがあるので並べ直す
+      this.automation.forEach(lanes => lanes.forEach(points => points.sort((a, b) => a.position - b.position)));
       this.bpm = sequencerData.bpms.size > 0 ? Array.from(sequencerData.bpms.values())[0] : 120;
       this.bpms = sequencerData.bpms;
+      this.ensureBaseTempo(this.bpm);
+      this.tempoRamps = new Set();
+      this.timeSignatures = sequencerData.timeSignatures;
+      this.loopRegion = null;
       this.gridSize = Math.max(128, sequencerData.gridSize);
       
       // Update UI
@@ -2835,11 +6876,15 @@ class Sequencer {
       
       // Re-render tracks
       this.renderTracks();
+      this.renderBarLines();
+      this.renderTempoLane();
+      this.renderLoopRegion();
+      this.renderAutomationLane();
+      this.renderPatternControls();
+      this.renderArrangementLane();
       
-      // Render beats
-      document.querySelectorAll('.beat').forEach(beat => beat.remove());
-      this.createBeats();
-      this.beats.forEach(beat => this.renderBeat(beat));
+      // Render drum lanes and beats
+      this.renderDrumLanes();
       
       // Save data
       this.saveData();
@@ -2879,11 +6924,20 @@ class Sequencer {
   private exportMidi() {
     try {
       // Convert sequencer data to MIDI format
+      const { notes, beats } = this.getGroovedEvents();
+      const controllers = Array.from(this.automation).flatMap(([track, lanes]) => automationParams.flatMap(info =>
+        (lanes.get(info.param) || []).map(point => ({ track, controller: info.controller, position: point.position, value: point.value }))
+      ));
+      // MIDI にはテンポの直線変化がないので細かい段階に分けて書き出す
+      const tempo = flattenTempoSegments(buildTempoSegments(this.baseBpm, this.bpms, this.tempoRamps), Sequencer.tempoRampStep);
       const midiFile = MidiConverter.sequencerToMidi(
-        this.notes,
-        this.beats,
-        this.bpm,
-        480 // Standard ticks per quarter note
+        notes,
+        beats,
+        tempo,
+        480, // Standard ticks per quarter note
+        track => this.getDrumLane(track)?.note ?? 38,
+        controllers,
+        Array.from(this.timeSignatures).map(([position, signature]) => ({ position, ...signature }))
       );
       
       // Write MIDI file
@@ -2906,69 +6960,362 @@ class Sequencer {
     }
   }
 
-  async exportWav() {
-    const endOfTrack = this.getEndOfTrack();
+  private setupExportDialog() {
+    const dialog = document.getElementById('export-dialog') as HTMLDialogElement | null;
+    if (!dialog) {
+      return;
+    }
 
-    if (endOfTrack <= 0) {
-      alert(i18next.t('export_error_no_data'));
+    document.getElementById('export-normalize')?.addEventListener('change', (e) => {
+      this.normalize.enabled = (e.target as HTMLInputElement).checked;
+      this.renderExportDialog();
+      this.saveData(['normalize']);
+    });
+    document.getElementById('export-target-loudness')?.addEventListener('change', (e) => {
+      const input = e.target as HTMLInputElement;
+      if (!isNaN(input.valueAsNumber)) {
+        this.normalize.target = minmax(input.valueAsNumber, parseFloat(input.min), parseFloat(input.max));
+      }
+      this.renderExportDialog();
+      this.saveData(['normalize']);
+    });
+    document.getElementById('export-start-btn')?.addEventListener('click', () => {
+      this.exportWav();
+    });
+    dialog.addEventListener('close', () => {
+      // 閉じたら書き出しも中止する
+      this.exportWorker?.terminate();
+      this.exportWorker = null;
+    });
+  }
+
+  private setupTransformDialog() {
+    const dialog = document.getElementById('transform-dialog') as HTMLDialogElement | null;
+    if (!dialog) {
       return;
     }
 
-    const filename = this.title || i18next.t('untitled');
+    document.getElementById('transform-btn')?.addEventListener('click', () => {
+      dialog.showModal();
+    });
+    const numberInput = (id: string) => {
+      const input = document.getElementById(id) as HTMLInputElement;
+      return isNaN(input.valueAsNumber) ? null : minmax(input.valueAsNumber, parseFloat(input.min), parseFloat(input.max));
+    };
+    dialog.querySelectorAll<HTMLButtonElement>('[data-transform]').forEach(button => {
+      button.addEventListener('click', () => {
+        switch (button.dataset.transform) {
+          case 'transpose-semitones': {
+            const semitones = numberInput('transform-semitones');
+            if (semitones !== null) this.transformNotes(notes => transposeNotes(notes, Math.round(semitones)));
+            break;
+          }
+          case 'transpose-octaves': {
+            const octaves = numberInput('transform-octaves');
+            if (octaves !== null) this.transformNotes(notes => transposeNotes(notes, Math.round(octaves) * 12));
+            break;
+          }
+          case 'invert': {
+            const axis = numberInput('transform-invert-axis');
+            // プロジェクトのスケールがあればその音階で反転する
+            const scale = this.scale.scale === 'chromatic' ? undefined : getScaleSteps(this.scale);
+            if (axis !== null) this.transformNotes(notes => invertNotes(notes, Math.round(axis), scale, this.scale.tonic));
+            break;
+          }
+          case 'stretch': {
+            const factor = numberInput('transform-stretch');
+            if (factor !== null) this.transformNotes(notes => stretchNotes(notes, factor));
+            break;
+          }
+          case 'fixed-length': {
+            const length = parseFloat((document.getElementById('transform-length') as HTMLSelectElement).value);
+            this.transformNotes(notes => fixNoteLength(notes, length));
+            break;
+          }
+          case 'reverse':
+            this.transformNotes(reverseNotes);
+            break;
+          case 'legato':
+            this.transformNotes(legatoNotes);
+            break;
+          case 'conform-to-scale':
+            this.transformNotes(notes => notes.map(note => ({ ...note, pitch: snapToScale(this.scale, note.pitch) })));
+            break;
+          case 'quantize': {
+            const target = (document.getElementById('quantize-target') as HTMLSelectElement).value;
+            const grid = (document.getElementById('quantize-grid') as HTMLSelectElement).value;
+            // グルーヴの格子に揃えると、再生時にそのグルーヴどおりにずれて鳴る
+            const groove = grid === 'groove' ? getGrooveTemplate(this.groove, this.grooves) : null;
+            const meter = buildMeterSegments(this.timeSignatures);
+            const options: QuantizeOptions = {
+              grid: groove ? groove.step : parseFloat(grid),
+              strength: (numberInput('quantize-strength') ?? 100) / 100,
+              starts: target !== 'end',
+              ends: target !== 'start',
+              line: groove ? position => grooveGridLine(groove, meter, position) : undefined
+            };
+            if (isNaN(options.grid)) break;
+            this.transformNotes(notes => quantizeNotes(notes, options), beats => quantizeBeats(beats, options));
+            break;
+          }
+          case 'humanize': {
+            const options: HumanizeOptions = {
+              timing: numberInput('humanize-timing') ?? 0,
+              velocity: numberInput('humanize-velocity') ?? 0
+            };
+            this.transformNotes(notes => humanizeNotes(notes, options), beats => humanizeBeats(beats, options));
+            break;
+          }
+        }
+      });
+    });
+  }
 
-    // Create a simple modal/progress UI (mixing 0-90%, encode 90-100%)
-    const createProgressModal = () => {
-      const dialog = document.getElementById('dialog') as HTMLDialogElement;
+  private setupScaleControls() {
+    const tonicSelect = document.getElementById('scale-tonic') as HTMLSelectElement | null;
+    const scaleSelect = document.getElementById('scale-select') as HTMLSelectElement | null;
+    const custom = document.getElementById('scale-custom') as HTMLElement | null;
+    if (!tonicSelect || !scaleSelect || !custom) return;
 
-      const label = document.createElement('div');
-      label.textContent = i18next.t('export_wav_progress');
+    tonicSelect.addEventListener('change', () => {
+      this.scale.tonic = parseInt(tonicSelect.value);
+      this.scaleChanged();
+    });
+    scaleSelect.addEventListener('change', () => {
+      this.scale.scale = scaleSelect.value as ScaleName;
+      this.scaleChanged();
+    });
+    custom.addEventListener('change', () => {
+      this.scale.custom = Array.from(custom.querySelectorAll<HTMLInputElement>('input:checked')).map(input => parseInt(input.value));
+      this.scaleChanged();
+    });
+    document.getElementById('scale-snap-toggle')?.addEventListener('change', (e) => {
+      this.scale.snap = (e.target as HTMLInputElement).checked;
+      this.saveData(['scale']);
+    });
+  }
 
-      const progress = document.createElement('progress');
-      progress.max = 100;
-      progress.value = 0;
-      progress.style.width = '360px';
+  private scaleChanged() {
+    this.renderScaleControls();
+    this.renderScaleRows();
+    this.saveData(['scale']);
+  }
 
-      const percent = document.createElement('div');
-      percent.textContent = '0%';
+  private renderScaleControls() {
+    const tonicSelect = document.getElementById('scale-tonic') as HTMLSelectElement | null;
+    const scaleSelect = document.getElementById('scale-select') as HTMLSelectElement | null;
+    const custom = document.getElementById('scale-custom') as HTMLElement | null;
+    const snapToggle = document.getElementById('scale-snap-toggle') as HTMLInputElement | null;
+    if (!tonicSelect || !scaleSelect || !custom || !snapToggle) return;
+
+    tonicSelect.value = this.scale.tonic.toString();
+    scaleSelect.value = this.scale.scale;
+    snapToggle.checked = this.scale.snap;
+    snapToggle.disabled = this.scale.scale === 'chromatic';
+    // カスタムスケールの音はキーから数えた半音で持ち、音名はキーに合わせて表示する
+    custom.hidden = this.scale.scale !== 'custom';
+    custom.replaceChildren(...pitchClassNames.map((_, step) => {
+      const label = document.createElement('label');
+      const input = document.createElement('input');
+      input.type = 'checkbox';
+      input.value = step.toString();
+      input.checked = step === 0 || this.scale.custom.includes(step);
+      input.disabled = step === 0;
+      label.append(input, pitchClassNames[(this.scale.tonic + step) % 12]);
+      return label;
+    }));
+  }
 
-      dialog.appendChild(label);
-      dialog.appendChild(progress);
-      dialog.appendChild(percent);
-      dialog.showModal();
+  // Tints the piano roll rows outside the scale and marks the tonic rows
+  private renderScaleRows() {
+    const pianoRoll = document.querySelector('.piano-roll-grid');
+    if (!pianoRoll) return;
+    let rows = pianoRoll.querySelector(':scope > .scale-rows');
+    if (!rows) {
+      rows = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+      rows.classList.add('scale-rows');
+      rows.setAttribute('viewBox', '0 0 1 88');
+      rows.setAttribute('preserveAspectRatio', 'none');
+      ['out-of-scale', 'tonic'].forEach(className => {
+        const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+        path.classList.add(className);
+        rows!.appendChild(path);
+      });
+      pianoRoll.prepend(rows);
+    }
+    const row = (index: number) => `M0 ${index}h1v1h-1z`;
+    const outOfScale: string[] = [];
+    const tonic: string[] = [];
+    if (this.scale.scale !== 'chromatic') {
+      for (let index = 0; index < 88; index++) {
+        const pitch = 108 - index; // C8 at top
+        if (!isInScale(this.scale, pitch)) outOfScale.push(row(index));
+        if ((pitch - this.scale.tonic) % 12 === 0) tonic.push(row(index));
+      }
+    }
+    rows.querySelector('.out-of-scale')!.setAttribute('d', outOfScale.join(''));
+    rows.querySelector('.tonic')!.setAttribute('d', tonic.join(''));
+  }
 
-      return {
-        update: (p: number) => {
-          progress.value = Math.min(100, Math.max(0, p));
-          percent.textContent = `${Math.round(p)}%`;
-        },
-        destroy: () => {
-          dialog.close();
-          dialog.textContent = '';
-        }
-      };
+  // The pitch moved onto the scale while snapping is on; pitches outside the piano range are left alone
+  private snapPitch(pitch: number, direction: number = 0) {
+    if (!this.scale.snap || this.scale.scale === 'chromatic' || pitch < 21 || pitch > 108) return pitch;
+    return snapToScale(this.scale, pitch, direction);
+  }
+
+  // Replaces the selected notes (all notes of the current track without a selection) with transformed ones as one edit.
+  // With "include beats" checked, `beatTransform` also changes the beats in the span of the selected notes, or every beat.
+  private transformNotes(transform: (notes: Note[]) => Note[], beatTransform?: (beats: Beat[]) => Beat[]) {
+    const targets = this.getCurrentTrackNotes().filter(note => this.selectedNotes.size === 0 || this.selectedNotes.has(note.id));
+    const includeBeats = beatTransform && (document.getElementById('transform-include-beats') as HTMLInputElement | null)?.checked;
+    const start = this.selectedNotes.size > 0 ? targets.reduce((start, note) => Math.min(start, note.start), Infinity) : -Infinity;
+    const end = this.selectedNotes.size > 0 ? targets.reduce((end, note) => Math.max(end, note.start + note.length), -Infinity) : Infinity;
+    const beatTargets = includeBeats ? this.beats.filter(beat => beat.position >= start && beat.position < end) : [];
+    if (targets.length === 0 && beatTargets.length === 0) return;
+
+    const transformed = new Map(transform(targets).map(note => [note.id, note]));
+    this.notes = this.notes.map(note => transformed.get(note.id) ?? note);
+    transformed.forEach(note => {
+      const element = this.visibleNoteElements.get(note.id);
+      if (element) this.updateNoteMeta(element, note);
+    });
+    if (beatTargets.length > 0) {
+      const transformedBeats = new Map(beatTransform!(beatTargets).map(beat => [beat.id, beat]));
+      // 粗いグリッドで同じ位置に寄ったビートは一つにまとめる
+      const positions = new Set<string>();
+      this.beats = this.beats.map(beat => transformedBeats.get(beat.id) ?? beat).filter(beat => {
+        const key = `${beat.track}/${Math.round(beat.position * 1e6)}`;
+        if (positions.has(key)) return false;
+        positions.add(key);
+        return true;
+      });
+      document.querySelectorAll<HTMLElement>('.rhythm-grid .beat.active').forEach(element => {
+        element.classList.remove('active');
+        element.style.removeProperty('--velocity');
+      });
+      this.beats.forEach(beat => this.renderBeat(beat));
+    }
+    this.renderTracks();
+    if (this.velocityLane !== null) this.renderAutomationLane();
+    this.saveData();
+  }
+
+  private openExportDialog() {
+    const dialog = document.getElementById('export-dialog') as HTMLDialogElement | null;
+    if (!dialog) {
+      return;
+    }
+    if (this.getSongEnd() <= 0) {
+      alert(i18next.t('export_error_no_data'));
+      return;
+    }
+    this.updateExportProgress(0);
+    (document.getElementById('export-stats') as HTMLElement).hidden = true;
+    this.renderExportDialog();
+    dialog.showModal();
+  }
+
+  private renderExportDialog() {
+    (document.getElementById('export-normalize') as HTMLInputElement).checked = this.normalize.enabled;
+    const target = document.getElementById('export-target-loudness') as HTMLInputElement;
+    target.valueAsNumber = this.normalize.target;
+    target.disabled = !this.normalize.enabled;
+    const loopRegion = document.getElementById('export-loop-region') as HTMLInputElement;
+    loopRegion.disabled = !this.loopRegion;
+    if (!this.loopRegion) loopRegion.checked = false;
+    (document.getElementById('export-start-btn') as HTMLButtonElement).disabled = this.exportWorker !== null;
+  }
+
+  private updateExportProgress(percent: number) {
+    (document.getElementById('export-progress') as HTMLProgressElement).value = minmax(percent, 0, 100);
+    (document.getElementById('export-progress-value') as HTMLOutputElement).value = `${Math.round(percent)}%`;
+  }
+
+  private showExportStats(stats: { sourceLoudness: number | null; gain: number; loudness: number; samplePeak: number; truePeak: number }) {
+    const format = (value: number, unit: string, sign = false) => isFinite(value)
+      ? `${sign && value > 0 ? '+' : ''}${value.toFixed(1)} ${unit}`
+      : `${value < 0 ? '-' : ''}∞ ${unit}`;
+    const set = (id: string, text: string) => {
+      (document.getElementById(id) as HTMLElement).textContent = text;
+    };
+    set('export-source-loudness', stats.sourceLoudness === null ? '-' : format(stats.sourceLoudness, 'LUFS'));
+    set('export-gain', format(stats.gain, 'dB', true));
+    set('export-loudness', format(stats.loudness, 'LUFS'));
+    set('export-sample-peak', format(stats.samplePeak, 'dBFS'));
+    set('export-true-peak', format(stats.truePeak, 'dBTP'));
+    (document.getElementById('export-stats') as HTMLElement).hidden = false;
+  }
+
+  async exportWav() {
+    if (this.exportWorker) {
+      return;
+    }
+
+    const filename = this.title || i18next.t('untitled');
+    const worker = new Worker(new URL('./wav.worker.ts', import.meta.url), { type: 'module' });
+    this.exportWorker = worker;
+    (document.getElementById('export-stats') as HTMLElement).hidden = true;
+    this.updateExportProgress(0);
+    this.renderExportDialog();
+
+    const finish = () => {
+      worker.terminate();
+      if (this.exportWorker === worker) {
+        this.exportWorker = null;
+        this.renderExportDialog();
+      }
+    };
+    // 中止されたあとの失敗は知らせない
+    const fail = (error: unknown) => {
+      console.error('Error exporting WAV:', error);
+      if (this.exportWorker !== worker) return;
+      finish();
+      alert(i18next.t('export_error_wav'));
     };
 
-    const modal = createProgressModal();
+    try {
+      await this.renderExport(worker, filename, finish, fail);
+    } catch (error) {
+      fail(error);
+    }
+  }
 
-    // Render mix with progress callback (maps to 0-90%)
+  // Mixes the song and hands it to the worker, which encodes it and sends the file back
+  private async renderExport(worker: Worker, filename: string, finish: () => void, fail: (error: unknown) => void) {
+    // ループ区間だけを書き出すこともできる
+    const region = (document.getElementById('export-loop-region') as HTMLInputElement).checked ? this.loopRegion : null;
+    const segments = buildTempoSegments(this.baseBpm, this.bpms, this.tempoRamps);
+    const duration = region
+      ? beatToSeconds(segments, region.end, this.playbackSpeed) - beatToSeconds(segments, region.start, this.playbackSpeed)
+      : this.calculateDuration(this.getSongEnd());
+
+    // Render mix with progress callback (mixing 0-50%, loudness, limiting and encoding 50-100%)
+    const { notes, beats } = this.getGroovedEvents();
     const buffer = await this.audioManager.renderMixToAudioBuffer({
-      notes: this.notes,
-      beats: this.beats,
+      notes: notes.map(note => this.sustainNote(note)),
+      beats,
+      automation: this.automation,
       filenames: this.filenames,
       files: this.files,
-      bpm: this.bpm,
+      bpm: this.baseBpm,
       bpms: this.bpms,
+      tempoRamps: this.tempoRamps,
       playbackSpeed: this.playbackSpeed,
       ignoreNoteValue: this.ignoreNoteValue,
-      duration: this.calculateDuration(),
+      startBeat: region?.start,
+      duration,
       sampleRate: 44100,
       numChannels: 2
     }, (processed, total) => {
-      const mixPct = (processed / total) * 100;
-      modal.update(Math.min(90, mixPct * 0.9));
+      if (this.exportWorker === worker) {
+        this.updateExportProgress((processed / total) * 50);
+      }
     });
+    if (this.exportWorker !== worker) {
+      return; // ダイアログを閉じて中止された
+    }
 
-    // Prepare channel data and spawn worker for WAV encoding (encode maps to 90-100%)
+    // Prepare channel data and hand it to the worker
     const numChannels = buffer.numberOfChannels;
     const sampleRate = buffer.sampleRate;
     const length = buffer.length;
@@ -2979,23 +7326,15 @@ class Sequencer {
       channels.push(new Float32Array(buffer.getChannelData(i)));
     }
 
-    const worker = new Worker(new URL('./wav.worker.ts', import.meta.url), { type: 'module' });
-
-    const onError = (msg: string) => {
-      console.error('WAV worker error:', msg);
-      modal.destroy();
-      try { worker.terminate(); } catch {}
-    };
-
     worker.onmessage = (ev) => {
       const data = ev.data;
       if (!data) return;
       if (data.type === 'progress') {
         const processed = data.processed || 0;
         const total = data.total || length;
-        const encodePct = (processed / total);
-        const overall = 90 + encodePct * 10;
-        modal.update(overall);
+        this.updateExportProgress(50 + (processed / total) * 50);
+      } else if (data.type === 'stats') {
+        this.showExportStats(data);
       } else if (data.type === 'done') {
         const arrayBuffer = data.buffer as ArrayBuffer;
         const blob = new Blob([arrayBuffer], { type: 'audio/wav' });
@@ -3005,18 +7344,21 @@ class Sequencer {
         a.download = `${filename}.wav`;
         a.click();
         URL.revokeObjectURL(url);
-
-        modal.destroy();
-        try { worker.terminate(); } catch {}
+        finish();
       } else if (data.type === 'error') {
-        onError(data.message);
+        fail(data.message);
       }
     };
+    worker.onerror = (ev) => {
+      ev.preventDefault();
+      fail(ev.message);
+    };
 
     // Transfer underlying ArrayBuffers of Float32Arrays to worker
     const transferList = channels.map(ch => ch.buffer as ArrayBuffer);
     worker.postMessage({
-      type: 'encode', sampleRate, numChannels, length, bitsPerSample: 16, channels: transferList
+      type: 'encode', sampleRate, numChannels, length, bitsPerSample: 16, channels: transferList,
+      normalize: this.normalize, limiter: this.limiter
     }, transferList);
   }
 }
@@ -0,0 +1,91 @@
+// Time signatures and bars
+// Beats are quarter notes, so a bar of n/d lasts n * 4 / d beats.
+// A change that does not fall on a bar line starts a new bar there, as in MIDI files.
+
+export interface TimeSignature {
+  numerator: number;
+  denominator: number; // 2, 4, 8 or 16
+}
+
+export interface MeterSegment {
+  beat: number; // beat position where this signature starts
+  bar: number; // 0-based bar number at that position
+  signature: TimeSignature;
+}
+
+export interface Bar {
+  bar: number; // 0-based bar number
+  start: number; // beat position
+  length: number; // in beats, shorter when the next signature cuts the bar
+  signature: TimeSignature;
+}
+
+const timeSignatureDenominators = [2, 4, 8, 16];
+
+const defaultTimeSignature: TimeSignature = {
+  numerator: 4,
+  denominator: 4
+};
+
+const barLength = (signature: TimeSignature) => signature.numerator * 4 / signature.denominator;
+
+// Beats per counted note, e.g. an eighth note in 6/8
+const countLength = (signature: TimeSignature) => 4 / signature.denominator;
+
+const isSameTimeSignature = (a: TimeSignature, b: TimeSignature) => {
+  return a.numerator === b.numerator && a.denominator === b.denominator;
+}
+
+// 4/4 applies from beat 0 unless the map has its own entry there
+const buildMeterSegments = (timeSignatures: Map<number, TimeSignature>): MeterSegment[] => {
+  const segments: MeterSegment[] = [{ beat: 0, bar: 0, signature: timeSignatures.get(0) ?? defaultTimeSignature }];
+  Array.from(timeSignatures.entries())
+    .filter(([beat]) => beat > 0)
+    .sort(([a], [b]) => a - b)
+    .forEach(([beat, signature]) => {
+      const previous = segments[segments.length - 1];
+      const bars = Math.ceil((beat - previous.beat) / barLength(previous.signature) - 1e-9);
+      segments.push({ beat, bar: previous.bar + bars, signature });
+    });
+  return segments;
+}
+
+const segmentBar = (segments: MeterSegment[], i: number, index: number): Bar => {
+  const segment = segments[i];
+  const length = barLength(segment.signature);
+  const start = segment.beat + index * length;
+  const end = segments[i + 1]?.beat ?? Infinity;
+  return { bar: segment.bar + index, start, length: Math.min(length, end - start), signature: segment.signature };
+}
+
+// The bar containing `beat`
+const barAt = (segments: MeterSegment[], beat: number): Bar => {
+  const i = Math.max(0, segments.findLastIndex(segment => segment.beat <= beat));
+  const index = Math.max(0, Math.floor((beat - segments[i].beat) / barLength(segments[i].signature) + 1e-9));
+  return segmentBar(segments, i, index);
+}
+
+// The bar line nearest to `beat`
+const nearestBarLine = (segments: MeterSegment[], beat: number) => {
+  const bar = barAt(segments, beat);
+  return beat - bar.start < bar.length / 2 ? bar.start : bar.start + bar.length;
+}
+
+// Bars overlapping [from, to)
+const barsBetween = (segments: MeterSegment[], from: number, to: number): Bar[] => {
+  const bars: Bar[] = [];
+  let bar = barAt(segments, from);
+  while (bar.start < to) {
+    bars.push(bar);
+    bar = barAt(segments, bar.start + bar.length);
+  }
+  return bars;
+}
+
+// Beat position where a 0-based bar starts
+const barToBeat = (segments: MeterSegment[], bar: number) => {
+  const i = Math.max(0, segments.findLastIndex(segment => segment.bar <= bar));
+  return segments[i].beat + (bar - segments[i].bar) * barLength(segments[i].signature);
+}
+
+export { timeSignatureDenominators, defaultTimeSignature, barLength, countLength, isSameTimeSignature, buildMeterSegments, barAt, nearestBarLine, barsBetween, barToBeat };
@@ -1,14 +1,16 @@
 // MIDI File Input/Output Class
 // Supports Standard MIDI File Format (SMF)
 
+import { timeSignatureDenominators } from './meter';
+
 interface MidiEvent {
   deltaTime: number;
-  type: 'noteOn' | 'noteOff' | 'meta' | 'sysex' | 'controller' | 'programChange' | 'unknown';
+  type: 'noteOn' | 'noteOff' | 'meta' | 'sysex' | 'controller' | 'pitchBend' | 'programChange' | 'unknown';
   channel?: number;
   note?: number;
   velocity?: number;
   controller?: number;
-  value?: number;
+  value?: number; // controller value, or pitch bend from -8192 to 8191
   metaType?: number;
   data?: Uint8Array;
   program?: number;
@@ -144,11 +146,11 @@ export class MidiParser {
         event.program = data[pos++];
       } else if (status >= 0xE0 && status <= 0xEF) {
         // Pitch Bend
-        event.type = 'controller';
+        event.type = 'pitchBend';
         event.channel = status & 0x0F;
         const lsb = data[pos++];
         const msb = data[pos++];
-        event.value = (msb << 7) | lsb;
+        event.value = ((msb << 7) | lsb) - 8192;
       } else if (status === 0xF0 || status === 0xF7) {
         // SysEx Event
         event.type = 'sysex';
@@ -262,6 +264,13 @@ export class MidiWriter {
         eventData[1] = event.controller || 0;
         eventData[2] = event.value || 0;
         events.push(eventData);
+      } else if (event.type === 'pitchBend') {
+        const value = Math.min(16383, Math.max(0, (event.value || 0) + 8192));
+        const eventData = new Uint8Array(3);
+        eventData[0] = 0xE0 | (event.channel || 0);
+        eventData[1] = value & 0x7F;
+        eventData[2] = value >> 7;
+        events.push(eventData);
       } else if (event.type === 'meta') {
         const metaData = new Uint8Array(2 + this.writeVariableLength(event.data?.length || 0).length + (event.data?.length || 0));
         let pos = 0;
@@ -338,8 +347,11 @@ export class MidiConverter {
   static sequencerToMidi(
     notes: Array<{id: string; track: number; pitch: number; start: number; length: number; velocity: number}>,
     beats: Array<{id: string; track: number; position: number; velocity: number}>,
-    bpm: number = 120,
-    ticksPerQuarter: number = 480
+    bpm: number | Array<{position: number; bpm: number}> = 120, // a tempo, or tempo changes in beat order
+    ticksPerQuarter: number = 480,
+    percussionNote: (track: number) => number = track => track === 1 ? 36 : 38, // Bass drum or snare
+    controllers: Array<{track: number; controller: number | 'pitchBend'; position: number; value: number}> = [],
+    timeSignatures: Array<{position: number; numerator: number; denominator: number}> = []
   ): MidiFile {
     const midiFile: MidiFile = {
       format: 1,
@@ -347,33 +359,59 @@ export class MidiConverter {
       ticksPerQuarter
     };
 
-    // Calculate ticks per beat (assuming 4/4 time)
+    // A beat is a quarter note whatever the time signature
     const ticksPerBeat = ticksPerQuarter;
 
-    // Create tempo track
-    const tempoTrack: MidiTrack = {
-      events: [
-        {
-          deltaTime: 0,
-          type: 'meta',
-          metaType: 0x51, // Set Tempo
-          data: this.createTempoData(bpm)
-        },
-        {
-          deltaTime: 0,
-          type: 'meta',
-          metaType: 0x2F, // End of Track
-          data: new Uint8Array(0)
-        }
-      ]
-    };
-    midiFile.tracks.push(tempoTrack);
+    // Create tempo track (time signatures first so that they precede tempo changes at the same tick)
+    const tempoChanges = typeof bpm === 'number' ? [{ position: 0, bpm }] : bpm;
+    const tempoEvents: MidiEvent[] = [
+      ...timeSignatures.map(signature => ({
+        deltaTime: Math.round(signature.position * ticksPerBeat),
+        type: 'meta' as const,
+        metaType: 0x58, // Time Signature
+        data: this.createTimeSignatureData(signature.numerator, signature.denominator)
+      })),
+      ...tempoChanges.map(change => ({
+        deltaTime: Math.round(change.position * ticksPerBeat),
+        type: 'meta' as const,
+        metaType: 0x51, // Set Tempo
+        data: this.createTempoData(change.bpm)
+      }))
+    ];
+    tempoEvents.sort((a, b) => a.deltaTime - b.deltaTime);
+    let lastTempoTime = 0;
+    for (const event of tempoEvents) {
+      const absoluteTime = event.deltaTime;
+      event.deltaTime = absoluteTime - lastTempoTime;
+      lastTempoTime = absoluteTime;
+    }
+    tempoEvents.push({
+      deltaTime: 0,
+      type: 'meta',
+      metaType: 0x2F, // End of Track
+      data: new Uint8Array(0)
+    });
+    midiFile.tracks.push({ events: tempoEvents });
 
     // Convert note tracks
-    if (notes.length > 0) {
+    if (notes.length > 0 || controllers.length > 0) {
       // Group notes by track (channel)
       const notesByTrack = new Map<number, MidiEvent[]>();
 
+      // Controllers come first so that they apply to notes starting at the same tick
+      for (const controller of controllers) {
+        if (!notesByTrack.has(controller.track)) {
+          notesByTrack.set(controller.track, []);
+        }
+        notesByTrack.get(controller.track)!.push({
+          deltaTime: Math.round(controller.position * ticksPerBeat),
+          type: controller.controller === 'pitchBend' ? 'pitchBend' : 'controller',
+          channel: controller.track,
+          controller: controller.controller === 'pitchBend' ? undefined : controller.controller,
+          value: controller.value
+        });
+      }
+
       for (const note of notes) {
         const startTicks = Math.round(note.start * ticksPerBeat);
         const endTicks = Math.round((note.start + note.length) * ticksPerBeat);
@@ -436,13 +474,13 @@ export class MidiConverter {
         const startTicks = Math.round(beat.position * ticksPerBeat);
         
         // Use different percussion notes for different tracks
-        const percussionNote = beat.track === 1 ? 36 : 38; // Bass drum or snare
+        const note = percussionNote(beat.track);
         
         events.push({
           deltaTime: startTicks,
           type: 'noteOn',
           channel: 9, // MIDI channel 10 (0-indexed as 9) is percussion
-          note: percussionNote,
+          note,
           velocity: beat.velocity
         });
         
@@ -450,7 +488,7 @@ export class MidiConverter {
           deltaTime: startTicks + (ticksPerBeat / 8), // Short note duration
           type: 'noteOff',
           channel: 9,
-          note: percussionNote,
+          note,
           velocity: 0
         });
       }
@@ -479,19 +517,26 @@ export class MidiConverter {
   }
 
   // Convert MIDI format to your sequencer data
-  static midiToSequencer(midiFile: MidiFile): {
+  static midiToSequencer(
+    midiFile: MidiFile,
+    percussionTrack: (note: number) => number = note => note === 36 ? 1 : 0 // Bass drum or snare
+  ): {
     notes: Array<{id: string; track: number; pitch: number; start: number; length: number; velocity: number}>;
     beats: Array<{id: string; track: number; position: number; velocity: number}>;
     instrumentCodes: {[track: number]: number};
+    controllers: Array<{track: number; controller: number | 'pitchBend'; position: number; value: number}>;
     bpms: Map<number, number>;
+    timeSignatures: Map<number, {numerator: number; denominator: number}>;
     gridSize: number;
   } {
     const notes: Array<{id: string; track: number; pitch: number; start: number; length: number; velocity: number}> = [];
     const beats: Array<{id: string; track: number; position: number; velocity: number}> = [];
+    const controllers: Array<{track: number; controller: number | 'pitchBend'; position: number; value: number}> = [];
     const instrumentCodes: {[track: number]: number} = {};
     
     const ticksPerBeat = midiFile.ticksPerQuarter;
     const bpms: Map<number, number> = new Map();
+    const timeSignatures: Map<number, {numerator: number; denominator: number}> = new Map();
     let detectedEndOfTrack = 0;
 
     for (const track of midiFile.tracks) {
@@ -507,6 +552,14 @@ export class MidiConverter {
           // Record tempo change at this beat position
           const extracted = this.extractBpmFromTempoData(event.data);
           bpms.set(currentBeats, extracted);
+        } else if (event.type === 'meta' && event.metaType === 0x58 && event.data && event.data.length >= 2) {
+          // Record time signature change (the denominator is stored as a power of 2).
+          // Signatures the sequencer cannot show (no beats, or a denominator other than 2-16) are skipped
+          const numerator = event.data[0];
+          const denominator = Math.pow(2, event.data[1]);
+          if (numerator >= 1 && numerator <= 32 && timeSignatureDenominators.includes(denominator)) {
+            timeSignatures.set(currentBeats, { numerator, denominator });
+          }
         } else if (event.type === 'noteOn' && event.note !== undefined && event.velocity !== undefined && event.velocity > 0) {
           const channel = event.channel || 0;
           if (!activeNotesByChannel.has(channel)) {
@@ -531,7 +584,7 @@ export class MidiConverter {
                 // Percussion track (MIDI channel 10)
                 beats.push({
                   id: `beat-${Date.now()}-${Math.random()}`,
-                  track: event.note === 36 ? 1 : 0, // Bass drum or snare
+                  track: percussionTrack(event.note),
                   position: noteInfo.start,
                   velocity: noteInfo.velocity
                 });
@@ -550,6 +603,13 @@ export class MidiConverter {
               channelNotes.delete(event.note);
             }
           }
+        } else if ((event.type === 'controller' || event.type === 'pitchBend') && event.value !== undefined && (event.channel || 0) !== 9) {
+          controllers.push({
+            track: event.channel || 0,
+            controller: event.type === 'pitchBend' ? 'pitchBend' : event.controller || 0,
+            position: currentBeats,
+            value: event.value
+          });
         } else if (event.type === 'programChange' && typeof event.program === 'number') {
           const channel = event.channel || 0;
           if (channel !== 9 && instrumentCodes[channel] === undefined) { // Ignore percussion channel
@@ -564,7 +624,7 @@ export class MidiConverter {
       }
     }
 
-    return { notes, beats, instrumentCodes, bpms, gridSize: Math.ceil(detectedEndOfTrack) };
+    return { notes, beats, instrumentCodes, controllers, bpms, timeSignatures, gridSize: Math.ceil(detectedEndOfTrack) };
   }
 
   private static createTempoData(bpm: number): Uint8Array {
@@ -577,6 +637,11 @@ export class MidiConverter {
     return data;
   }
 
+  private static createTimeSignatureData(numerator: number, denominator: number): Uint8Array {
+    // Numerator, denominator as a power of 2, MIDI clocks per metronome click, 32nd notes per quarter note
+    return new Uint8Array([numerator, Math.round(Math.log2(denominator)), 24, 8]);
+  }
+
   private static extractBpmFromTempoData(data: Uint8Array): number {
     if (data.length !== 3) return 120;
     const microsecondsPerQuarter = (data[0] << 16) | (data[1] << 8) | data[2];
@@ -0,0 +1,52 @@
+// Mixer channel settings
+// Gain and panning rules shared by live playback and offline rendering
+
+export type ChannelKind = 'melody' | 'beat';
+
+export interface ChannelSettings {
+  volume: number; // linear gain
+  pan: number; // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+}
+
+export interface MixerSettings {
+  melody: Map<number, ChannelSettings>; // melody track -> channel
+  beat: Map<number, ChannelSettings>; // beat track -> channel
+}
+
+const defaultChannel: ChannelSettings = {
+  volume: 1,
+  pan: 0,
+  mute: false,
+  solo: false
+};
+
+const createMixerSettings = (): MixerSettings => ({
+  melody: new Map(),
+  beat: new Map()
+});
+
+const getChannelSettings = (mixer: MixerSettings, kind: ChannelKind, track: number) => {
+  return mixer[kind].get(track) || defaultChannel;
+}
+
+// Volume after mute and solo; any soloed channel silences every channel that is not soloed
+const channelGain = (mixer: MixerSettings, kind: ChannelKind, track: number) => {
+  const channel = getChannelSettings(mixer, kind, track);
+  const anySolo = [...mixer.melody.values(), ...mixer.beat.values()].some(c => c.solo);
+  if (channel.mute || (anySolo && !channel.solo)) return 0;
+  return channel.volume;
+}
+
+// Equal-power panning of a stereo frame, as StereoPannerNode does (mono input is up-mixed to L = R first)
+const panFrame = (left: number, right: number, pan: number): [number, number] => {
+  if (pan <= 0) {
+    const x = (pan + 1) * Math.PI / 2;
+    return [left + right * Math.cos(x), right * Math.sin(x)];
+  }
+  const x = pan * Math.PI / 2;
+  return [left * Math.cos(x), right + left * Math.sin(x)];
+}
+
+export { defaultChannel, createMixerSettings, getChannelSettings, channelGain, panFrame };
@@ -0,0 +1,59 @@
+// Patterns and the arrangement
+// A pattern holds notes and beats at positions relative to its start, and clips place it on the song timeline.
+// Clips refer to their pattern by id, so editing a pattern changes every clip of it.
+
+interface PatternNote {
+  id: string;
+  start: number; // beat position
+  length: number; // in beats
+}
+
+interface PatternBeat {
+  id: string;
+  position: number; // beat position
+}
+
+export interface Pattern<N extends PatternNote = PatternNote, B extends PatternBeat = PatternBeat> {
+  id: string;
+  name: string;
+  length: number; // in beats
+  notes: N[];
+  beats: B[];
+}
+
+export interface Clip {
+  id: string;
+  pattern: string; // pattern id
+  start: number; // beat position on the song timeline
+}
+
+const getPattern = <P extends Pattern>(patterns: P[], id: string | null) => {
+  return patterns.find(pattern => pattern.id === id) || null;
+}
+
+// Notes and beats of every clip at their song positions.
+// Events are cut at the end of the pattern and get ids unique to the clip.
+const flattenArrangement = <N extends PatternNote, B extends PatternBeat>(patterns: Pattern<N, B>[], clips: Clip[]) => {
+  const notes: N[] = [];
+  const beats: B[] = [];
+  clips.forEach(clip => {
+    const pattern = getPattern(patterns, clip.pattern);
+    if (!pattern) return;
+    pattern.notes.forEach(note => {
+      if (note.start >= pattern.length) return;
+      notes.push({ ...note, id: `${clip.id}/${note.id}`, start: clip.start + note.start, length: Math.min(note.length, pattern.length - note.start) });
+    });
+    pattern.beats.forEach(beat => {
+      if (beat.position >= pattern.length) return;
+      beats.push({ ...beat, id: `${clip.id}/${beat.id}`, position: clip.start + beat.position });
+    });
+  });
+  return { notes, beats };
+}
+
+// Where the last clip ends
+const arrangementEnd = (patterns: Pattern[], clips: Clip[]) => {
+  return clips.reduce((end, clip) => Math.max(end, clip.start + (getPattern(patterns, clip.pattern)?.length ?? 0)), 0);
+}
+
+export { getPattern, flattenArrangement, arrangementEnd };
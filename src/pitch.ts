@@ -0,0 +1,136 @@
+// Root pitch detection for uploaded samples
+// Runs YIN on a few frames after the attack and combines the frames that agree with each other
+
+import { midiToNoteName } from './instrument';
+
+export interface PitchEstimate {
+  frequency: number; // Hz
+  midi: number; // fractional MIDI note, 69 = A4 (440 Hz)
+  confidence: number; // 0 to 1
+}
+
+const minFrequency = 40;
+const maxFrequency = 2000;
+const frameSize = 2048;
+const maxFrames = 8;
+const threshold = 0.15; // YIN absolute threshold
+const attackTime = 0.05; // seconds skipped after the onset
+
+const frequencyToMidi = (frequency: number) => {
+  return 69 + 12 * Math.log2(frequency / 440);
+}
+
+const downmix = (buffer: AudioBuffer) => {
+  const data = new Float32Array(buffer.length);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const channel = buffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) data[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return data;
+}
+
+// Period of one frame in samples with its cumulative mean normalized difference, or null if the frame is unpitched
+const yinFrame = (data: Float32Array, offset: number, tauMin: number, tauMax: number) => {
+  const diff = new Float32Array(tauMax + 1);
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let sum = 0;
+    for (let i = 0; i < frameSize; i++) {
+      const delta = data[offset + i] - data[offset + i + tau];
+      sum += delta * delta;
+    }
+    diff[tau] = sum;
+  }
+
+  const cmnd = new Float32Array(tauMax + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    runningSum += diff[tau];
+    cmnd[tau] = runningSum > 0 ? diff[tau] * tau / runningSum : 1;
+  }
+
+  // 閾値を下回った最初の谷。なければ全体の最小値を使う
+  let best = -1;
+  for (let tau = tauMin; tau <= tauMax; tau++) {
+    if (cmnd[tau] < threshold) {
+      while (tau + 1 <= tauMax && cmnd[tau + 1] < cmnd[tau]) tau++;
+      best = tau;
+      break;
+    }
+  }
+  if (best < 0) {
+    best = tauMin;
+    for (let tau = tauMin + 1; tau <= tauMax; tau++) {
+      if (cmnd[tau] < cmnd[best]) best = tau;
+    }
+  }
+  if (cmnd[best] >= 1) return null;
+
+  // 放物線補間で小数の周期を求める
+  let period = best;
+  if (best > 1 && best < tauMax) {
+    const a = cmnd[best - 1];
+    const b = cmnd[best];
+    const c = cmnd[best + 1];
+    const denominator = a - 2 * b + c;
+    if (denominator > 0) period += (a - c) / (2 * denominator);
+  }
+  return { period, aperiodicity: cmnd[best] };
+}
+
+const detectPitch = (buffer: AudioBuffer): PitchEstimate | null => {
+  const sampleRate = buffer.sampleRate;
+  const tauMin = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const tauMax = Math.ceil(sampleRate / minFrequency);
+  const data = downmix(buffer);
+
+  let peak = 0;
+  for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  if (peak === 0) return null;
+
+  // 立ち上がりの後から解析する
+  let onset = 0;
+  while (onset < data.length && Math.abs(data[onset]) < peak * 0.1) onset++;
+  let offset = Math.min(onset + Math.round(attackTime * sampleRate), Math.max(0, data.length - frameSize - tauMax - 1));
+
+  const frames: Array<{ midi: number; confidence: number }> = [];
+  for (let n = 0; n < maxFrames && offset + frameSize + tauMax < data.length; n++, offset += frameSize) {
+    let framePeak = 0;
+    for (let i = 0; i < frameSize; i++) framePeak = Math.max(framePeak, Math.abs(data[offset + i]));
+    if (framePeak < peak * 0.05) break; // 減衰しきった
+    const result = yinFrame(data, offset, tauMin, tauMax);
+    if (!result) continue;
+    frames.push({
+      midi: frequencyToMidi(sampleRate / result.period),
+      confidence: Math.min(1, Math.max(0, 1 - result.aperiodicity))
+    });
+  }
+  if (frames.length === 0) return null;
+
+  // 中央値から半音以内のフレームだけを使う（オクターブ誤りを除く）
+  const sorted = frames.map(frame => frame.midi).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const inliers = frames.filter(frame => Math.abs(frame.midi - median) <= 0.5);
+  const weight = inliers.reduce((sum, frame) => sum + frame.confidence, 0);
+  const midi = weight > 0
+    ? inliers.reduce((sum, frame) => sum + frame.midi * frame.confidence, 0) / weight
+    : median;
+  // 一致したフレームの平均信頼度 × 一致した割合
+  const confidence = weight / frames.length;
+
+  return { frequency: 440 * Math.pow(2, (midi - 69) / 12), midi, confidence };
+}
+
+// Pitch shift in semitones that makes the detected pitch sound as C4, rounded to whole cents
+const pitchShiftToC4 = (midi: number) => {
+  return Math.round((60 - midi) * 100) / 100;
+}
+
+// "A3 +12¢"
+const formatPitch = (midi: number) => {
+  const nearest = Math.round(midi);
+  const cents = Math.round((midi - nearest) * 100);
+  return `${midiToNoteName(nearest)} ${cents >= 0 ? '+' : ''}${cents}¢`;
+}
+
+export { detectPitch, pitchShiftToC4, formatPitch };
@@ -0,0 +1,46 @@
+// Sample trim and loop points
+// Live playback maps a region onto AudioBufferSourceNode offset/loopStart/loopEnd, the offline mixer uses regionPosition()
+
+export interface SampleRegion {
+  start: number; // seconds into the file
+  end: number; // seconds, playback stops here unless looping
+  loop: boolean;
+  loopStart: number; // seconds
+  loopEnd: number; // seconds
+}
+
+// Shortest loop that is honored. AudioBufferSourceNode loops the whole buffer when loopEnd <= loopStart.
+const minLoopLength = 0.001;
+
+// Fills in unset markers and keeps them inside the buffer and in order
+const resolveRegion = (settings: Partial<SampleRegion> | undefined, duration: number): SampleRegion => {
+  const start = Math.min(Math.max(settings?.start ?? 0, 0), duration);
+  const end = Math.min(Math.max(settings?.end ?? duration, start), duration);
+  const loopStart = Math.min(Math.max(settings?.loopStart ?? start, start), end);
+  const loopEnd = Math.min(Math.max(settings?.loopEnd ?? end, loopStart), end);
+  return { start, end, loop: !!settings?.loop, loopStart, loopEnd };
+}
+
+const isLooping = (region: SampleRegion) => {
+  return region.loop && region.loopEnd - region.loopStart >= minLoopLength;
+}
+
+// Position in the file after `elapsed` seconds of source material, or null once a non-looping region has ended
+const regionPosition = (region: SampleRegion, elapsed: number): number | null => {
+  const position = region.start + elapsed;
+  if (isLooping(region)) {
+    if (position < region.loopEnd) return position;
+    return region.loopStart + (position - region.loopEnd) % (region.loopEnd - region.loopStart);
+  }
+  return position < region.end ? position : null;
+}
+
+const applyRegion = (source: AudioBufferSourceNode, region: SampleRegion) => {
+  source.loop = isLooping(region);
+  if (source.loop) {
+    source.loopStart = region.loopStart;
+    source.loopEnd = region.loopEnd;
+  }
+}
+
+export { resolveRegion, isLooping, regionPosition, applyRegion };
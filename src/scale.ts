@@ -0,0 +1,57 @@
+// Project key and scale
+// Scales are semitone steps from the tonic. The chromatic scale has every step, so nothing is tinted or snapped.
+// A custom scale keeps its own steps, so switching to another scale and back does not lose them.
+
+export type ScaleName = 'chromatic' | 'major' | 'minor' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'locrian' | 'majorPentatonic' | 'minorPentatonic' | 'blues' | 'custom';
+
+export interface ScaleSettings {
+  tonic: number; // pitch class, 0 = C
+  scale: ScaleName;
+  custom: number[]; // semitones from the tonic, for the custom scale
+  snap: boolean; // snap entered and dragged notes to the scale
+}
+
+const pitchClassNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const scaleSteps: Record<Exclude<ScaleName, 'custom'>, number[]> = {
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+  majorPentatonic: [0, 2, 4, 7, 9],
+  minorPentatonic: [0, 3, 5, 7, 10],
+  blues: [0, 3, 5, 6, 7, 10]
+};
+
+const defaultScaleSettings: ScaleSettings = {
+  tonic: 0,
+  scale: 'chromatic',
+  custom: [...scaleSteps.major],
+  snap: false
+};
+
+// Sorted steps of the scale; the tonic always belongs to it
+const getScaleSteps = (settings: ScaleSettings) => {
+  const steps = settings.scale === 'custom' ? settings.custom : scaleSteps[settings.scale];
+  return Array.from(new Set([0, ...steps])).sort((a, b) => a - b);
+}
+
+const isInScale = (settings: ScaleSettings, pitch: number) => {
+  return getScaleSteps(settings).includes(((pitch - settings.tonic) % 12 + 12) % 12);
+}
+
+// The nearest pitch of the scale within [min, max]; ties go in `direction` (down when 0)
+const snapToScale = (settings: ScaleSettings, pitch: number, direction: number = 0, min: number = 21, max: number = 108) => {
+  for (let distance = 0; distance < 12; distance++) {
+    const candidates = direction > 0 ? [pitch + distance, pitch - distance] : [pitch - distance, pitch + distance];
+    const found = candidates.find(candidate => candidate >= min && candidate <= max && isInScale(settings, candidate));
+    if (found !== undefined) return found;
+  }
+  return pitch;
+}
+
+export { pitchClassNames, defaultScaleSettings, getScaleSteps, isInScale, snapToScale };
@@ -0,0 +1,18 @@
+/* eslint-disable no-restricted-globals */
+// Clock for the lookahead scheduler. Timers in a worker keep firing while the tab is in the background.
+let timerId: number | null = null;
+
+self.addEventListener('message', (e) => {
+  const data = e.data;
+  if (!data) return;
+
+  if (data.type === 'start') {
+    if (timerId !== null) clearInterval(timerId);
+    timerId = setInterval(() => {
+      self.postMessage({ type: 'tick' });
+    }, data.interval || 25);
+  } else if (data.type === 'stop') {
+    if (timerId !== null) clearInterval(timerId);
+    timerId = null;
+  }
+});
@@ -0,0 +1,88 @@
+// Time stretching that keeps the pitch
+// WSOLA: windowed frames are overlap-added at a fixed hop, each taken near its nominal input position
+// where it lines up best with the natural continuation of the previous frame
+
+export interface StretchSettings {
+  enabled: boolean; // fit the sample to the note length
+  repitch: boolean; // follow the note pitch, otherwise play at the original pitch
+}
+
+const defaultStretchSettings: StretchSettings = {
+  enabled: false,
+  repitch: true
+};
+
+const frameTime = 0.04; // seconds
+const lengthStep = 1.01; // stretched lengths are rounded up by this ratio
+const toleranceTime = 0.01; // seconds searched around the nominal position
+
+// Returns the channels stretched to `factor` times their length
+const timeStretch = (channels: Float32Array[], sampleRate: number, factor: number): Float32Array[] => {
+  const inputLength = channels[0]?.length || 0;
+  const outputLength = Math.max(1, Math.round(inputLength * factor));
+  if (Math.abs(factor - 1) < 0.001) {
+    return channels.map(data => data.slice(0, outputLength));
+  }
+
+  const frameSize = 2 * Math.round(frameTime * sampleRate / 2);
+  const hop = frameSize / 2;
+  const tolerance = Math.round(toleranceTime * sampleRate);
+  const window = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / frameSize);
+
+  // 位置合わせはモノラルで行う
+  let mono = channels[0];
+  if (channels.length > 1) {
+    mono = new Float32Array(inputLength);
+    channels.forEach(data => {
+      for (let i = 0; i < inputLength; i++) mono[i] += data[i] / channels.length;
+    });
+  }
+  const read = (data: Float32Array, index: number) => index >= 0 && index < inputLength ? data[index] : 0;
+
+  const outputs = channels.map(() => new Float32Array(outputLength));
+  const windowSum = new Float32Array(outputLength);
+  let previous = 0;
+  for (let out = 0; out < outputLength; out += hop) {
+    let position = Math.round(out / factor);
+    if (out > 0) {
+      // 前のフレームの続きと最も相関の高い位置を探す（2 サンプルおきに間引く）
+      const natural = previous + hop;
+      let bestScore = -Infinity;
+      let best = position;
+      for (let delta = -tolerance; delta <= tolerance; delta += 2) {
+        const candidate = position + delta;
+        let score = 0;
+        for (let i = 0; i < hop; i += 2) score += read(mono, natural + i) * read(mono, candidate + i);
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+      position = best;
+    }
+
+    const length = Math.min(frameSize, outputLength - out);
+    channels.forEach((data, ch) => {
+      const output = outputs[ch];
+      for (let i = 0; i < length; i++) output[out + i] += read(data, position + i) * window[i];
+    });
+    for (let i = 0; i < length; i++) windowSum[out + i] += window[i];
+    previous = position;
+  }
+
+  outputs.forEach(output => {
+    for (let i = 0; i < outputLength; i++) {
+      if (windowSum[i] > 0) output[i] /= windowSum[i];
+    }
+  });
+  return outputs;
+}
+
+// Length in samples to stretch to, rounded up so notes of nearly the same length, as under a tempo ramp,
+// share one stretched buffer; the note is still stopped at its own end
+const quantizeStretchLength = (length: number) => {
+  return Math.max(1, Math.round(lengthStep ** Math.ceil(Math.log(Math.max(1, length)) / Math.log(lengthStep) - 1e-9)));
+}
+
+export { defaultStretchSettings, timeStretch, quantizeStretchLength };
@@ -0,0 +1,16 @@
+/* eslint-disable no-restricted-globals */
+import { timeStretch } from './stretch';
+
+// Stretches sample regions off the main thread, ahead of live playback and before mixing an export
+self.addEventListener('message', (e) => {
+  const data = e.data;
+  if (!data || data.type !== 'stretch') return;
+
+  try {
+    const channels = (data.channels as ArrayBuffer[]).map(buffer => new Float32Array(buffer));
+    const buffers = timeStretch(channels, data.sampleRate, data.factor).map(channel => channel.buffer as ArrayBuffer);
+    self.postMessage({ type: 'done', key: data.key, channels: buffers }, { transfer: buffers });
+  } catch (err) {
+    self.postMessage({ type: 'error', key: data.key, message: String(err) });
+  }
+});
@@ -0,0 +1,220 @@
+// Built-in synthesizer voices
+// Live voices are built from oscillator nodes; the offline renderer runs the same waveforms and filter per sample
+
+import { seededNoise } from './utils';
+
+export type SynthWaveform = 'square' | 'sawtooth' | 'triangle' | 'noise' | 'fm';
+
+export type SynthFilterType = 'lowpass' | 'highpass' | 'bandpass';
+
+export interface SynthSettings {
+  detune: number; // cents
+  filterType: SynthFilterType;
+  cutoff: number; // Hz
+  resonance: number; // dB
+  fmRatio: number; // modulator frequency / carrier frequency
+  fmIndex: number; // peak frequency deviation / modulator frequency
+}
+
+export interface SynthVoice {
+  output: AudioNode;
+  sources: AudioScheduledSourceNode[];
+  start: (time: number) => void;
+  stop: (time: number) => void;
+  bend: (time: number, ratio: number) => void; // pitch bend as a frequency ratio
+}
+
+const synthWaveforms: SynthWaveform[] = ['square', 'sawtooth', 'triangle', 'noise', 'fm'];
+
+const synthFilterTypes: SynthFilterType[] = ['lowpass', 'highpass', 'bandpass'];
+
+const defaultSynthSettings: SynthSettings = {
+  detune: 0,
+  filterType: 'lowpass',
+  cutoff: 20000,
+  resonance: 0,
+  fmRatio: 2,
+  fmIndex: 2
+};
+
+// Rough loudness match between the waveforms
+const synthLevels: Record<SynthWaveform, number> = {
+  square: 0.35,
+  sawtooth: 0.45,
+  triangle: 0.8,
+  noise: 0.35,
+  fm: 0.8
+};
+
+// Sound select values are "synth-<waveform>"
+const getSynthWaveform = (filename: string): SynthWaveform | null => {
+  const waveform = filename.replace(/^synth-/, '') as SynthWaveform;
+  return filename.startsWith('synth-') && synthWaveforms.includes(waveform) ? waveform : null;
+}
+
+// Sounds that are not backed by a file
+const isBuiltInSound = (filename: string) => {
+  return filename === 'sine' || filename === 'silent' || getSynthWaveform(filename) !== null;
+}
+
+const noiseSeed = 0x2545f491;
+
+// One second of noise, looped by noise voices
+const createNoiseData = (length: number) => {
+  const noise = seededNoise(noiseSeed);
+  const data = new Float32Array(length);
+  for (let i = 0; i < length; i++) data[i] = noise();
+  return data;
+}
+
+const createNoiseBuffer = (context: BaseAudioContext) => {
+  const buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+  buffer.getChannelData(0).set(createNoiseData(context.sampleRate));
+  return buffer;
+}
+
+// BiquadFilterNode takes Q in dB for low/high-pass but as a plain ratio for band-pass
+const filterQ = (settings: SynthSettings) => {
+  return settings.filterType === 'bandpass' ? Math.pow(10, settings.resonance / 20) : settings.resonance;
+}
+
+const createSynthVoice = (context: BaseAudioContext, waveform: SynthWaveform, settings: SynthSettings, frequency: number, noise: AudioBuffer): SynthVoice => {
+  const filter = context.createBiquadFilter();
+  filter.type = settings.filterType;
+  filter.frequency.value = Math.min(settings.cutoff, context.sampleRate / 2);
+  filter.Q.value = filterQ(settings);
+
+  const sources: AudioScheduledSourceNode[] = [];
+  const detuneParams: AudioParam[] = [];
+  if (waveform === 'noise') {
+    const source = context.createBufferSource();
+    source.buffer = noise;
+    source.loop = true;
+    source.connect(filter);
+    sources.push(source);
+  } else if (waveform === 'fm') {
+    const carrier = context.createOscillator();
+    const modulator = context.createOscillator();
+    const depth = context.createGain();
+    carrier.frequency.value = frequency;
+    carrier.detune.value = settings.detune;
+    modulator.frequency.value = frequency * settings.fmRatio;
+    modulator.detune.value = settings.detune;
+    depth.gain.value = settings.fmIndex * frequency * settings.fmRatio;
+    modulator.connect(depth);
+    depth.connect(carrier.frequency);
+    carrier.connect(filter);
+    sources.push(carrier, modulator);
+    detuneParams.push(carrier.detune, modulator.detune);
+  } else {
+    const oscillator = context.createOscillator();
+    oscillator.type = waveform;
+    oscillator.frequency.value = frequency;
+    oscillator.detune.value = settings.detune;
+    oscillator.connect(filter);
+    sources.push(oscillator);
+    detuneParams.push(oscillator.detune);
+  }
+
+  return {
+    output: filter,
+    sources,
+    start: (time: number) => sources.forEach(source => source.start(time)),
+    stop: (time: number) => sources.forEach(source => source.stop(time)),
+    bend: (time: number, ratio: number) => detuneParams.forEach(param => param.setValueAtTime(settings.detune + 1200 * Math.log2(ratio), time))
+  };
+}
+
+// Smooths the discontinuity of a naive waveform at phase 0
+const polyBlep = (phase: number, increment: number) => {
+  if (phase < increment) {
+    const t = phase / increment;
+    return t + t - t * t - 1;
+  }
+  if (phase > 1 - increment) {
+    const t = (phase - 1) / increment;
+    return t * t + t + t + 1;
+  }
+  return 0;
+}
+
+// Biquad with the coefficients of BiquadFilterNode, as a per-sample function
+const createBiquad = (settings: SynthSettings, sampleRate: number) => {
+  const w0 = 2 * Math.PI * Math.min(settings.cutoff, sampleRate / 2) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Math.pow(10, settings.resonance / 20));
+  let b0: number, b1: number, b2: number;
+  if (settings.filterType === 'highpass') {
+    b0 = (1 + cos) / 2;
+    b1 = -(1 + cos);
+    b2 = (1 + cos) / 2;
+  } else if (settings.filterType === 'bandpass') {
+    b0 = alpha;
+    b1 = 0;
+    b2 = -alpha;
+  } else {
+    b0 = (1 - cos) / 2;
+    b1 = 1 - cos;
+    b2 = (1 - cos) / 2;
+  }
+  const a0 = 1 + alpha;
+  const a1 = -2 * cos;
+  const a2 = 1 - alpha;
+
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  return (x: number) => {
+    const y = (b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2) / a0;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    return y;
+  };
+}
+
+// Returns the next output sample on every call, starting at note on
+const createSynthRenderer = (waveform: SynthWaveform, settings: SynthSettings, frequency: number, sampleRate: number, noise: Float32Array) => {
+  const filter = createBiquad(settings, sampleRate);
+  const detuneRatio = Math.pow(2, settings.detune / 1200);
+  const baseIncrement = frequency * detuneRatio / sampleRate;
+  let phase = 0;
+  let modPhase = 0;
+  let noiseIndex = 0;
+
+  // rate: pitch bend as a frequency ratio
+  return (rate: number = 1) => {
+    const increment = baseIncrement * rate;
+    let value: number;
+    switch (waveform) {
+      case 'square':
+        // OscillatorNode の矩形波は前半が +1
+        value = (phase < 0.5 ? 1 : -1) + polyBlep(phase, increment) - polyBlep((phase + 0.5) % 1, increment);
+        break;
+      case 'sawtooth': {
+        // 位相 0 で 0 から上昇し、半周期で -1 に戻る
+        const shifted = (phase + 0.5) % 1;
+        value = 2 * shifted - 1 - polyBlep(shifted, increment);
+        break;
+      }
+      case 'triangle':
+        value = phase < 0.25 ? 4 * phase : phase < 0.75 ? 2 - 4 * phase : 4 * phase - 4;
+        break;
+      case 'noise':
+        value = noise[noiseIndex];
+        noiseIndex = (noiseIndex + 1) % noise.length;
+        break;
+      case 'fm': {
+        value = Math.sin(2 * Math.PI * phase);
+        const modulation = Math.sin(2 * Math.PI * modPhase);
+        modPhase = (modPhase + increment * settings.fmRatio) % 1;
+        const instantaneous = (frequency + settings.fmIndex * frequency * settings.fmRatio * modulation) * detuneRatio * rate;
+        phase = ((phase + instantaneous / sampleRate) % 1 + 1) % 1;
+        return filter(value);
+      }
+    }
+    phase = (phase + increment) % 1;
+    return filter(value);
+  };
+}
+
+export { synthWaveforms, synthFilterTypes, defaultSynthSettings, synthLevels, getSynthWaveform, isBuiltInSound, createNoiseData, createNoiseBuffer, createSynthVoice, createSynthRenderer };
@@ -0,0 +1,101 @@
+// Tempo map helpers
+// Converts between beat positions and seconds for a sequence of tempo changes
+
+export interface TempoSegment {
+  beat: number; // beat position where this tempo starts
+  bpm: number;
+  ramp: boolean; // the tempo moves linearly to the next segment's bpm
+}
+
+// The base bpm applies from beat 0 unless the map has its own entry there
+const buildTempoSegments = (bpm: number, bpms: Map<number, number>, ramps: Set<number> = new Set()): TempoSegment[] => {
+  const segments: TempoSegment[] = [{ beat: 0, bpm, ramp: ramps.has(0) }];
+  Array.from(bpms.entries()).forEach(([beat, value]) => {
+    if (beat <= 0) {
+      segments[0].bpm = value;
+    } else {
+      segments.push({ beat, bpm: value, ramp: ramps.has(beat) });
+    }
+  });
+  segments.sort((a, b) => a.beat - b.beat);
+  return segments;
+}
+
+// Change of bpm per beat within a segment, 0 when the tempo is constant
+const segmentSlope = (segments: TempoSegment[], i: number) => {
+  const next = segments[i + 1];
+  return segments[i].ramp && next ? (next.bpm - segments[i].bpm) / (next.beat - segments[i].beat) : 0;
+}
+
+// Seconds from the start of a segment to `beats` beats into it.
+// Under a ramp the seconds per beat are 60 / bpm(beat), whose integral is a logarithm.
+const segmentSeconds = (segments: TempoSegment[], i: number, beats: number, playbackSpeed: number) => {
+  const { bpm } = segments[i];
+  const slope = segmentSlope(segments, i);
+  if (slope === 0) return (60 / (bpm * playbackSpeed)) * beats;
+  return 60 / playbackSpeed * Math.log((bpm + slope * beats) / bpm) / slope;
+}
+
+// Inverse of segmentSeconds
+const segmentBeats = (segments: TempoSegment[], i: number, seconds: number, playbackSpeed: number) => {
+  const { bpm } = segments[i];
+  const slope = segmentSlope(segments, i);
+  if (slope === 0) return seconds * bpm * playbackSpeed / 60;
+  return bpm * (Math.exp(seconds * playbackSpeed * slope / 60) - 1) / slope;
+}
+
+const beatToSeconds = (segments: TempoSegment[], beat: number, playbackSpeed: number = 1) => {
+  if (beat <= 0) return 0;
+  let seconds = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const segStart = segments[i].beat;
+    const segEnd = i + 1 < segments.length ? segments[i + 1].beat : Infinity;
+    if (beat <= segStart) break;
+    const endBeat = Math.min(beat, segEnd);
+    seconds += segmentSeconds(segments, i, endBeat - segStart, playbackSpeed);
+    if (beat <= segEnd) break;
+  }
+  return seconds;
+}
+
+const secondsToBeat = (segments: TempoSegment[], seconds: number, playbackSpeed: number = 1) => {
+  if (seconds <= 0) return 0;
+  let elapsed = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const segStart = segments[i].beat;
+    const segEnd = i + 1 < segments.length ? segments[i + 1].beat : Infinity;
+    const segSeconds = segmentSeconds(segments, i, segEnd - segStart, playbackSpeed);
+    if (seconds <= elapsed + segSeconds) {
+      return segStart + segmentBeats(segments, i, seconds - elapsed, playbackSpeed);
+    }
+    elapsed += segSeconds;
+  }
+  return 0;
+}
+
+const bpmAt = (segments: TempoSegment[], beat: number) => {
+  const i = segments.findLastIndex(segment => segment.beat <= beat);
+  if (i < 0) return segments[0].bpm;
+  return segments[i].bpm + segmentSlope(segments, i) * (beat - segments[i].beat);
+}
+
+// Constant tempo changes for formats without ramps such as MIDI.
+// Ramps are cut into steps of `step` beats that each take as long as under the ramp.
+const flattenTempoSegments = (segments: TempoSegment[], step: number) => {
+  const changes: Array<{ position: number; bpm: number }> = [];
+  segments.forEach((segment, i) => {
+    const next = segments[i + 1];
+    if (segmentSlope(segments, i) === 0) {
+      changes.push({ position: segment.beat, bpm: segment.bpm });
+      return;
+    }
+    for (let beats = 0; beats < next.beat - segment.beat; beats += step) {
+      const length = Math.min(step, next.beat - segment.beat - beats);
+      const seconds = segmentSeconds(segments, i, beats + length, 1) - segmentSeconds(segments, i, beats, 1);
+      changes.push({ position: segment.beat + beats, bpm: 60 * length / seconds });
+    }
+  });
+  return changes;
+}
+
+export { buildTempoSegments, beatToSeconds, secondsToBeat, bpmAt, flattenTempoSegments };
@@ -0,0 +1,136 @@
+// Note transforms
+// Each transform takes the notes to change and returns them changed, keeping every other field.
+// Time transforms work inside the span of the given notes, from the earliest start to the latest end.
+
+interface TransformNote {
+  pitch: number; // MIDI note number
+  start: number; // beat position
+  length: number; // in beats
+  velocity: number; // 1-127
+}
+
+interface TransformBeat {
+  position: number; // beat position
+  velocity: number; // 1-127
+}
+
+export interface QuantizeOptions {
+  grid: number; // in beats
+  strength: number; // 0-1, how far events move toward the grid
+  starts: boolean; // quantize note starts
+  ends: boolean; // quantize note ends
+  line?: (position: number) => number; // the grid line nearest to a position, when the grid is not multiples of `grid`
+}
+
+export interface HumanizeOptions {
+  timing: number; // largest shift in beats, either way
+  velocity: number; // largest velocity change, either way
+}
+
+const lowestPitch = 21; // A0
+const highestPitch = 108; // C8
+const majorScale = [0, 2, 4, 5, 7, 9, 11]; // semitones from the tonic
+
+const clampPitch = (pitch: number) => Math.min(highestPitch, Math.max(lowestPitch, pitch));
+
+const noteSpan = (notes: TransformNote[]) => ({
+  start: notes.reduce((start, note) => Math.min(start, note.start), Infinity),
+  end: notes.reduce((end, note) => Math.max(end, note.start + note.length), -Infinity)
+});
+
+// Notes pushed out of the piano range stop at its edge
+const transposeNotes = <N extends TransformNote>(notes: N[], semitones: number): N[] => {
+  return notes.map(note => ({ ...note, pitch: clampPitch(note.pitch + semitones) }));
+}
+
+// Scale steps counted from the tonic below MIDI note 0; notes off the scale fall between steps
+const scalePosition = (pitch: number, scale: number[], tonic: number) => {
+  const octave = Math.floor((pitch - tonic) / 12);
+  const semitone = pitch - tonic - octave * 12;
+  const step = scale.findLastIndex(s => s <= semitone);
+  const next = scale[step + 1] ?? 12;
+  return octave * scale.length + step + (semitone - scale[step]) / (next - scale[step]);
+}
+
+const scalePitch = (position: number, scale: number[], tonic: number) => {
+  const steps = Math.floor(position + 1e-9);
+  const octave = Math.floor(steps / scale.length);
+  const step = steps - octave * scale.length;
+  const next = scale[step + 1] ?? 12;
+  return tonic + octave * 12 + scale[step] + Math.round((position - steps) * (next - scale[step]));
+}
+
+// Mirrors the notes around `axis` by scale steps, so intervals keep to the scale (C major unless given)
+const invertNotes = <N extends TransformNote>(notes: N[], axis: number, scale: number[] = majorScale, tonic: number = 0): N[] => {
+  const axisPosition = scalePosition(axis, scale, tonic);
+  return notes.map(note => ({
+    ...note,
+    pitch: clampPitch(scalePitch(2 * axisPosition - scalePosition(note.pitch, scale, tonic), scale, tonic))
+  }));
+}
+
+// Plays the span backwards: a note ending at the span end starts at the span start
+const reverseNotes = <N extends TransformNote>(notes: N[]): N[] => {
+  const { start, end } = noteSpan(notes);
+  return notes.map(note => ({ ...note, start: start + end - (note.start + note.length) }));
+}
+
+// Scales positions from the span start and lengths by `factor`
+const stretchNotes = <N extends TransformNote>(notes: N[], factor: number): N[] => {
+  const { start } = noteSpan(notes);
+  return notes.map(note => ({ ...note, start: start + (note.start - start) * factor, length: note.length * factor }));
+}
+
+// Each note lasts until the next start; chords move on together, and the last notes keep their length
+const legatoNotes = <N extends TransformNote>(notes: N[]): N[] => {
+  const starts = Array.from(new Set(notes.map(note => note.start))).sort((a, b) => a - b);
+  return notes.map(note => {
+    const next = starts.find(start => start > note.start);
+    return next === undefined ? note : { ...note, length: next - note.start };
+  });
+}
+
+const fixNoteLength = <N extends TransformNote>(notes: N[], length: number): N[] => {
+  return notes.map(note => ({ ...note, length }));
+}
+
+const quantizePosition = (position: number, { grid, strength, line }: QuantizeOptions) => {
+  const target = line ? line(position) : Math.round(position / grid) * grid;
+  return position + (target - position) * strength;
+}
+
+// Moves starts and ends toward the nearest grid line; a note whose end would reach its start keeps one grid step
+const quantizeNotes = <N extends TransformNote>(notes: N[], options: QuantizeOptions): N[] => {
+  return notes.map(note => {
+    const start = options.starts ? quantizePosition(note.start, options) : note.start;
+    const end = options.ends ? quantizePosition(note.start + note.length, options) : note.start + note.length;
+    return { ...note, start, length: end - start > 1e-9 ? end - start : options.grid };
+  });
+}
+
+const quantizeBeats = <B extends TransformBeat>(beats: B[], options: QuantizeOptions): B[] => {
+  return beats.map(beat => ({ ...beat, position: quantizePosition(beat.position, options) }));
+}
+
+const humanizeVelocity = (velocity: number, amount: number, random: () => number) => {
+  return Math.min(127, Math.max(1, Math.round(velocity + (random() * 2 - 1) * amount)));
+}
+
+// Random shifts within the limits; notes keep their length and nothing moves before beat 0
+const humanizeNotes = <N extends TransformNote>(notes: N[], { timing, velocity }: HumanizeOptions, random: () => number = Math.random): N[] => {
+  return notes.map(note => ({
+    ...note,
+    start: Math.max(0, note.start + (random() * 2 - 1) * timing),
+    velocity: humanizeVelocity(note.velocity, velocity, random)
+  }));
+}
+
+const humanizeBeats = <B extends TransformBeat>(beats: B[], { timing, velocity }: HumanizeOptions, random: () => number = Math.random): B[] => {
+  return beats.map(beat => ({
+    ...beat,
+    position: Math.max(0, beat.position + (random() * 2 - 1) * timing),
+    velocity: humanizeVelocity(beat.velocity, velocity, random)
+  }));
+}
+
+export { transposeNotes, invertNotes, reverseNotes, stretchNotes, legatoNotes, fixNoteLength, quantizeNotes, quantizeBeats, humanizeNotes, humanizeBeats };
@@ -57,4 +57,26 @@ const minmax = (value: number, min: number, max: number) => {
   return Math.min(Math.max(value, min), max);
 }
 
-export { filenameToName, resetAnimation, dispatchPointerPressEvent, multipleFloor, minmax };
\ No newline at end of file
+// Deterministic noise source (mulberry32), returns values in [-1, 1)
+const seededNoise = (seed: number) => {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 * 2 - 1;
+  };
+}
+
+// Index of the first item whose key is not below `value`, in items sorted by that key
+const lowerBound = <T>(items: T[], value: number, key: (item: T) => number) => {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (key(items[middle]) < value) low = middle + 1; else high = middle;
+  }
+  return low;
+}
+
+export { filenameToName, resetAnimation, dispatchPointerPressEvent, multipleFloor, minmax, seededNoise, lowerBound };
\ No newline at end of file
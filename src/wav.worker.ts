@@ -1,4 +1,9 @@
 /* eslint-disable no-restricted-globals */
+import { samplePeak, truePeak, integratedLoudness, gainToDb, dbToGain } from './loudness';
+import type { NormalizeSettings } from './loudness';
+import { limitChannels } from './limiter';
+import type { LimiterSettings } from './limiter';
+
 self.addEventListener('message', (e) => {
   const data = e.data;
   if (!data || data.type !== 'encode') return;
@@ -9,6 +14,8 @@ self.addEventListener('message', (e) => {
     const length = data.length; // samples per channel
     const bitsPerSample = data.bitsPerSample || 16;
     const channelBuffers: ArrayBuffer[] = data.channels;
+    const normalize: NormalizeSettings | undefined = data.normalize;
+    const limiter: LimiterSettings | undefined = data.limiter;
 
     const bytesPerSample = bitsPerSample / 8;
     const blockAlign = numChannels * bytesPerSample;
@@ -39,12 +46,50 @@ self.addEventListener('message', (e) => {
     view.setUint32(40, dataLength, true);
 
     // Reconstruct channel Float32Arrays from transferred buffers
-    const channels: Float32Array[] = channelBuffers.map((buf) => new Float32Array(buf));
+    let channels: Float32Array[] = channelBuffers.map((buf) => new Float32Array(buf));
 
-    let offset = 44;
-    const total = length;
+    // Progress covers every pass over the samples: measuring, limiting, measuring again and encoding
+    const passes = (normalize?.enabled ? 1 : 0) + (limiter?.enabled ? 1 : 0) + 2;
+    const total = length * passes;
+    let done = 0;
     const chunk = Math.max(1024, Math.floor(total / 200)); // ~200 updates at most
 
+    // Loudness normalization: one gain for the whole mix, then the limiter catches the peaks it creates
+    let sourceLoudness: number | null = null;
+    let gain = 0; // dB
+    if (normalize?.enabled) {
+      sourceLoudness = integratedLoudness(channels, sampleRate);
+      if (isFinite(sourceLoudness)) {
+        gain = normalize.target - sourceLoudness;
+        const factor = dbToGain(gain);
+        channels.forEach(data => {
+          for (let i = 0; i < length; i++) data[i] *= factor;
+        });
+      }
+      done += length;
+      self.postMessage({ type: 'progress', processed: done, total });
+    }
+
+    if (limiter?.enabled) {
+      const start = done;
+      channels = limitChannels(channels, sampleRate, limiter.ceiling, (processed) => {
+        self.postMessage({ type: 'progress', processed: start + processed, total });
+      });
+      done += length;
+    }
+
+    self.postMessage({
+      type: 'stats',
+      sourceLoudness,
+      gain,
+      loudness: integratedLoudness(channels, sampleRate),
+      samplePeak: gainToDb(samplePeak(channels)),
+      truePeak: gainToDb(truePeak(channels))
+    });
+    done += length;
+    self.postMessage({ type: 'progress', processed: done, total });
+
+    let offset = 44;
     for (let i = 0; i < length; i++) {
       for (let ch = 0; ch < numChannels; ch++) {
         let sample = channels[ch][i] || 0;
@@ -56,7 +101,7 @@ self.addEventListener('message', (e) => {
 
       if ((i & 0xffff) === 0 || i % chunk === 0) {
         // send progress periodically
-        self.postMessage({ type: 'progress', processed: i, total });
+        self.postMessage({ type: 'progress', processed: done + i, total });
       }
     }
 